@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server"
+import {
+  createAppeal,
+  getAppealBlocker,
+  isValidEvidenceUrl,
+  MAX_APPEAL_EVIDENCE_URL_LENGTH,
+  MAX_APPEAL_EXPLANATION_LENGTH,
+  serializeAppeal
+} from "@/lib/appeals"
+import { MODERATION_CONTENT_TYPES, type ModerationContentType } from "@/lib/moderation"
+import { withAuth } from "@/lib/request-auth"
+
+const BLOCKER_RESPONSES = {
+  not_found: { error: "Content not found", status: 404 },
+  not_owner: { error: "You can only appeal your own posts and stories", status: 403 },
+  not_flagged: { error: "This content hasn't been flagged, so there is nothing to appeal", status: 400 },
+  already_appealed: { error: "This content has already been appealed", status: 409 },
+}
+
+// A creator contests the deepfake flag on their own post or story
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    const { contentType, contentId, explanation, evidenceUrl } = await request.json()
+    const id = parseInt(contentId)
+
+    if (!MODERATION_CONTENT_TYPES.includes(contentType) || isNaN(id)) {
+      return NextResponse.json({ error: "Appeal a post or story by its ID" }, { status: 400 })
+    }
+    const trimmedExplanation = typeof explanation === 'string' ? explanation.trim() : ''
+    if (!trimmedExplanation) {
+      return NextResponse.json({ error: "Explain why the flag is wrong" }, { status: 400 })
+    }
+    if (trimmedExplanation.length > MAX_APPEAL_EXPLANATION_LENGTH) {
+      return NextResponse.json(
+        { error: `Explanation must be ${MAX_APPEAL_EXPLANATION_LENGTH} characters or fewer` },
+        { status: 400 }
+      )
+    }
+    if (evidenceUrl !== undefined && evidenceUrl !== null && typeof evidenceUrl !== 'string') {
+      return NextResponse.json({ error: "Evidence must be a link" }, { status: 400 })
+    }
+    const trimmedEvidence = evidenceUrl?.trim() || null
+    if (trimmedEvidence && (trimmedEvidence.length > MAX_APPEAL_EVIDENCE_URL_LENGTH || !isValidEvidenceUrl(trimmedEvidence))) {
+      return NextResponse.json(
+        { error: "Evidence must be an http(s) link or an uploaded file" },
+        { status: 400 }
+      )
+    }
+
+    const blocker = await getAppealBlocker(user.id, contentType as ModerationContentType, id)
+    if (blocker) {
+      const { error, status } = BLOCKER_RESPONSES[blocker]
+      return NextResponse.json({ error }, { status })
+    }
+
+    const appeal = await createAppeal(user.id, contentType, id, trimmedExplanation, trimmedEvidence)
+    if (!appeal) {
+      return NextResponse.json({ error: "Failed to submit appeal" }, { status: 500 })
+    }
+
+    console.log(`User ${user.username} appealed ${contentType} ${id}`)
+
+    return NextResponse.json({ success: true, appeal: serializeAppeal(appeal) })
+  } catch (error) {
+    console.error('Error creating appeal:', error)
+    return NextResponse.json(
+      { error: "Failed to submit appeal: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { withAuth } from "@/lib/request-auth"
+import { disableTwoFactor, isTwoFactorRequired, verifyTwoFactorCode } from "@/lib/two-factor"
+
+// Needs a current code, so a hijacked session alone can't switch 2FA off
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    const { code } = await request.json()
+
+    if (!user.totp_enabled_at) {
+      return NextResponse.json({ error: "Two-factor authentication is not enabled" }, { status: 400 })
+    }
+    if (isTwoFactorRequired(user)) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is required for your account" },
+        { status: 403 }
+      )
+    }
+
+    if (!code || typeof code !== 'string' || !(await verifyTwoFactorCode(user.id, code))) {
+      return NextResponse.json({ error: "Invalid authentication code" }, { status: 400 })
+    }
+
+    if (!(await disableTwoFactor(user.id))) {
+      return NextResponse.json({ error: "Failed to disable two-factor authentication" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Error disabling two-factor authentication:', error)
+    return NextResponse.json(
+      { error: "Failed to disable two-factor authentication: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
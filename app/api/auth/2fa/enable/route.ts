@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { withAuth } from "@/lib/request-auth"
+import { confirmTwoFactorEnrollment } from "@/lib/two-factor"
+
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    const { code } = await request.json()
+
+    if (!code || typeof code !== 'string') {
+      return NextResponse.json({ error: "Missing authentication code" }, { status: 400 })
+    }
+
+    const recoveryCodes = await confirmTwoFactorEnrollment(user.id, code)
+    if (!recoveryCodes) {
+      return NextResponse.json(
+        { error: "Invalid code. Check your authenticator app and try again." },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true, recoveryCodes })
+
+  } catch (error) {
+    console.error('Error enabling two-factor authentication:', error)
+    return NextResponse.json(
+      { error: "Failed to enable two-factor authentication: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+}, { allowPendingTwoFactor: true })
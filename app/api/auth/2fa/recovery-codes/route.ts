@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { withAuth } from "@/lib/request-auth"
+import { regenerateRecoveryCodes, verifyTwoFactorCode } from "@/lib/two-factor"
+
+// Replaces every recovery code; the old ones stop working immediately
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    const { code } = await request.json()
+
+    if (!user.totp_enabled_at) {
+      return NextResponse.json({ error: "Two-factor authentication is not enabled" }, { status: 400 })
+    }
+
+    if (!code || typeof code !== 'string' || !(await verifyTwoFactorCode(user.id, code))) {
+      return NextResponse.json({ error: "Invalid authentication code" }, { status: 400 })
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id)
+    if (!recoveryCodes) {
+      return NextResponse.json({ error: "Failed to generate recovery codes" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, recoveryCodes })
+
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error)
+    return NextResponse.json(
+      { error: "Failed to generate recovery codes: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
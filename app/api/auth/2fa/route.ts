@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+import { withAuth } from "@/lib/request-auth"
+import { getTwoFactorStatus } from "@/lib/two-factor"
+
+export const GET = withAuth(async (request, { user }) => {
+  try {
+    const status = await getTwoFactorStatus(user)
+    if (!status) {
+      return NextResponse.json({ error: "Failed to load two-factor status" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, ...status })
+
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error)
+    return NextResponse.json(
+      { error: "Failed to load two-factor status" },
+      { status: 500 }
+    )
+  }
+}, { allowPendingTwoFactor: true })
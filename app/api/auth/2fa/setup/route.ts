@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import QRCode from "qrcode"
+import { withAuth } from "@/lib/request-auth"
+import { beginTwoFactorEnrollment } from "@/lib/two-factor"
+
+// Step one of enrollment: a fresh secret and its QR code. Nothing changes for
+// sign-in until /api/auth/2fa/enable confirms a code from the app.
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    if (user.totp_enabled_at) {
+      return NextResponse.json({ error: "Two-factor authentication is already enabled" }, { status: 400 })
+    }
+
+    const enrollment = await beginTwoFactorEnrollment(user)
+    if (!enrollment) {
+      return NextResponse.json({ error: "Failed to start two-factor setup" }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      secret: enrollment.secret,
+      otpauthUrl: enrollment.otpauthUrl,
+      qrCode: await QRCode.toDataURL(enrollment.otpauthUrl)
+    })
+
+  } catch (error) {
+    console.error('Error starting two-factor setup:', error)
+    return NextResponse.json(
+      { error: "Failed to start two-factor setup: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+}, { allowPendingTwoFactor: true })
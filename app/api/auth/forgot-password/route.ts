@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getUserByEmail } from "@/lib/auth"
+import { sendPasswordResetEmail } from "@/lib/email-tokens"
+import { takeRateLimit } from "@/lib/rate-limit"
+import { getAppUrl, getClientInfo } from "@/lib/request-auth"
+
+// Per client address and per email address, so the form can't be used to
+// flood an inbox or to sweep through many addresses
+const RESET_REQUESTS_PER_IP = 10
+const RESET_REQUESTS_PER_EMAIL = 3
+const RESET_REQUEST_WINDOW_MS = 60 * 60 * 1000
+
+// Always answers the same way, and as fast, so the form can't be used to find
+// out which emails have accounts
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json()
+
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json({ error: "Missing email" }, { status: 400 })
+    }
+
+    const { ipAddress } = getClientInfo(request)
+    const limits = [
+      ipAddress ? takeRateLimit(`forgot-password:ip:${ipAddress}`, RESET_REQUESTS_PER_IP, RESET_REQUEST_WINDOW_MS) : null,
+      takeRateLimit(`forgot-password:email:${email.trim().toLowerCase()}`, RESET_REQUESTS_PER_EMAIL, RESET_REQUEST_WINDOW_MS),
+    ]
+    const refused = limits.find(limit => limit && !limit.allowed)
+    if (refused) {
+      return NextResponse.json(
+        { error: "Too many password reset requests. Try again later.", retryAfter: refused.retryAfterSeconds },
+        { status: 429, headers: { 'Retry-After': String(refused.retryAfterSeconds) } }
+      )
+    }
+
+    // The email goes out in the background: issuing the token and talking to
+    // the mail transport would otherwise make known emails answer slower
+    const user = await getUserByEmail(email.trim())
+    if (user) {
+      void sendPasswordResetEmail(user, getAppUrl(request))
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "If an account exists for that email, a password reset link has been sent"
+    })
+
+  } catch (error) {
+    console.error('Password reset request error:', error)
+    return NextResponse.json(
+      { error: "Password reset request failed: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+}
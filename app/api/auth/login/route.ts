@@ -1,20 +1,65 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { authenticateUser, generateToken } from "@/lib/auth"
-import { getDatabase } from "@/lib/database"
+import { authenticateUser, findUserIdByLogin, getUserById } from "@/lib/auth"
+import { startLoginSession } from "@/lib/login"
+import { beginLoginAttempt, cancelLoginAttempt, finishLoginAttempt, type LoginThrottle } from "@/lib/login-throttle"
+import { getClientInfo } from "@/lib/request-auth"
+import { createLoginChallenge, verifyLoginChallenge, verifyTwoFactorCode } from "@/lib/two-factor"
 
+function throttledResponse(throttle: LoginThrottle) {
+  const minutes = Math.ceil(throttle.retryAfterSeconds / 60)
+  return NextResponse.json(
+    {
+      error: throttle.locked
+        ? `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`
+        : `Too many failed sign-in attempts. Wait ${throttle.retryAfterSeconds} second${throttle.retryAfterSeconds === 1 ? '' : 's'} and try again.`,
+      retryAfter: throttle.retryAfterSeconds,
+      locked: throttle.locked
+    },
+    { status: 429, headers: { 'Retry-After': String(throttle.retryAfterSeconds) } }
+  )
+}
+
+// Sign-in is one step, or two for accounts with 2FA: the password step then
+// answers with a challenge token, which comes back with the authenticator
+// (or recovery) code to finish signing in. Failures at either step count
+// towards the same per-account and per-IP limits. Each attempt is counted
+// before the password or code is checked, so parallel guesses can't all slip
+// in under the same count.
 export async function POST(request: NextRequest) {
   try {
-    const { email, password, username } = await request.json()
+    const { email, password, username, challengeToken, code } = await request.json()
+    const client = getClientInfo(request)
+
+    if (challengeToken) {
+      const challengeUserId = verifyLoginChallenge(challengeToken)
+      const challengeUser = challengeUserId ? await getUserById(challengeUserId) : null
+      if (!challengeUser) {
+        return NextResponse.json(
+          { error: "Your sign-in attempt expired. Please enter your password again.", challengeExpired: true },
+          { status: 401 }
+        )
+      }
+
+      const attempt = { identifier: challengeUser.email, userId: challengeUser.id, ...client }
 
-    // Initialize database
-    const db = await getDatabase()
-    console.log('Database initialized for login')
+      const { id: attemptId, throttle } = await beginLoginAttempt(attempt)
+      if (throttle) return throttledResponse(throttle)
 
-    // Support both email and username login
-    let loginEmail = email
+      if (!code || typeof code !== 'string' || !(await verifyTwoFactorCode(challengeUser.id, code))) {
+        await finishLoginAttempt(attemptId, { ...attempt, success: false, reason: 'invalid_2fa_code' })
+        return NextResponse.json({ error: "Invalid authentication code" }, { status: 401 })
+      }
+
+      await finishLoginAttempt(attemptId, { ...attempt, success: true })
+      console.log(`User logged in successfully with 2FA: ${challengeUser.username} (ID: ${challengeUser.id})`)
+      return startLoginSession(request, challengeUser)
+    }
+
+    // The login form sends whatever was typed as `username`; it may be an email
+    const login = typeof (email || username) === 'string' ? (email || username).trim() : ''
 
     // Basic validation
-    if (!loginEmail && !username) {
+    if (!login) {
       return NextResponse.json(
         { error: "Missing email or username" },
         { status: 400 }
@@ -28,50 +73,37 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // If only username provided, try to find email in database
-    if (!loginEmail && username) {
-      try {
-        const userRecord = await db.get(
-          'SELECT email FROM users WHERE username = ?',
-          [username]
-        )
-        if (userRecord) {
-          loginEmail = userRecord.email
-        } else {
-          loginEmail = `${username}@demo.com` // Fallback for demo
-        }
-      } catch (dbError) {
-        loginEmail = `${username}@demo.com` // Fallback for demo
-      }
-    }
+    const accountId = await findUserIdByLogin(login)
+    const attempt = { identifier: login.toLowerCase(), userId: accountId, ...client }
+
+    const { id: attemptId, throttle } = await beginLoginAttempt(attempt)
+    if (throttle) return throttledResponse(throttle)
 
     // Authenticate user
-    const user = await authenticateUser(loginEmail, password)
+    const user = await authenticateUser(login, password)
     
     if (!user) {
+      await finishLoginAttempt(attemptId, { ...attempt, success: false, reason: accountId ? 'invalid_password' : 'unknown_user' })
       return NextResponse.json(
         { error: "Invalid credentials" },
         { status: 401 }
       )
     }
 
-    // Generate JWT token
-    const token = generateToken(user.id)
+    // The password was right, but sign-in only succeeds once the code is too
+    if (user.totp_enabled_at) {
+      await cancelLoginAttempt(attemptId)
+      return NextResponse.json({
+        success: false,
+        twoFactorRequired: true,
+        challengeToken: createLoginChallenge(user.id)
+      })
+    }
 
+    await finishLoginAttempt(attemptId, { ...attempt, success: true })
     console.log(`User logged in successfully: ${user.username} (ID: ${user.id})`)
 
-    return NextResponse.json({
-      success: true,
-      user: {
-        id: user.id.toString(),
-        username: user.username,
-        email: user.email,
-        profilePic: user.profile_pic || "/placeholder.svg",
-        bio: user.bio,
-        createdAt: new Date().toISOString()
-      },
-      token
-    })
+    return startLoginSession(request, user)
 
   } catch (error) {
     console.error('Login error:', error)
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server"
+import { clearSessionCookie, getSessionToken } from "@/lib/request-auth"
+import { revokeRefreshToken } from "@/lib/refresh-tokens"
+import { deleteSession } from "@/lib/sessions"
+
+// Ends the current browser session, and the refresh token family if an API
+// client sends its refresh token. Safe to call when already logged out.
+export async function POST(request: NextRequest) {
+  try {
+    const token = getSessionToken(request)
+    if (token) {
+      await deleteSession(token)
+    }
+
+    const { refreshToken } = await request.json().catch(() => ({}))
+    if (typeof refreshToken === 'string' && refreshToken) {
+      await revokeRefreshToken(refreshToken)
+    }
+
+    const response = NextResponse.json({ success: true })
+    clearSessionCookie(response)
+
+    return response
+
+  } catch (error) {
+    console.error('Logout error:', error)
+    return NextResponse.json(
+      { error: "Logout failed: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+}
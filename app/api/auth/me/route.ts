@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server"
+import { serializeAuthUser } from "@/lib/login"
+import { withAuth } from "@/lib/request-auth"
+
+// Lets the client confirm its session is still valid and refresh the profile
+export const GET = withAuth(async (request, { user }) => {
+  return NextResponse.json({
+    success: true,
+    user: serializeAuthUser(user)
+  })
+}, { allowPendingTwoFactor: true })
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server"
+import { ACCESS_TOKEN_TTL_SECONDS, generateToken, getUserById } from "@/lib/auth"
+import { rotateRefreshToken } from "@/lib/refresh-tokens"
+
+// Trades a refresh token for a new access token and a new refresh token. The
+// presented refresh token stops working as soon as this succeeds.
+export async function POST(request: NextRequest) {
+  try {
+    const { refreshToken } = await request.json()
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return NextResponse.json({ error: "Missing refresh token" }, { status: 400 })
+    }
+
+    const rotated = await rotateRefreshToken(refreshToken)
+    const user = rotated ? await getUserById(rotated.userId) : null
+
+    if (!rotated || !user) {
+      return NextResponse.json({ error: "Invalid or expired refresh token" }, { status: 401 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      token: generateToken(user.id),
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      refreshToken: rotated.token,
+      refreshTokenExpiresAt: rotated.expiresAt.toISOString()
+    })
+
+  } catch (error) {
+    console.error('Token refresh error:', error)
+    return NextResponse.json(
+      { error: "Token refresh failed: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+}
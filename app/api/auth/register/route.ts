@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server"
-import { createUser, generateToken } from "@/lib/auth"
+import { createUser, validatePassword } from "@/lib/auth"
 import { getDatabase } from "@/lib/database"
+import { sendVerificationEmail } from "@/lib/email-tokens"
+import { startLoginSession } from "@/lib/login"
+import { getAppUrl } from "@/lib/request-auth"
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,9 +27,10 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate password strength
-    if (password.length < 3) {
+    const passwordError = validatePassword(password, { username, email })
+    if (passwordError) {
       return NextResponse.json(
-        { error: "Password must be at least 3 characters long" },
+        { error: passwordError },
         { status: 400 }
       )
     }
@@ -45,23 +49,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Generate JWT token
-    const token = generateToken(user.id)
-
     console.log(`User registered successfully: ${username} (ID: ${user.id})`)
 
-    return NextResponse.json({
-      success: true,
-      user: {
-        id: user.id.toString(),
-        username: user.username,
-        email: user.email,
-        profilePic: user.profile_pic || "/placeholder.svg",
-        bio: user.bio,
-        createdAt: new Date().toISOString()
-      },
-      token
-    })
+    // The account works right away; the user can resend from their profile
+    // if this email doesn't arrive
+    const verificationSent = await sendVerificationEmail(user, getAppUrl(request))
+
+    return startLoginSession(request, user, { verificationSent })
 
   } catch (error) {
     console.error('Registration error:', error)
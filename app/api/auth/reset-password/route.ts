@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server"
+import { validatePassword } from "@/lib/auth"
+import { getEmailTokenUser, resetPassword } from "@/lib/email-tokens"
+import { clearSessionCookie } from "@/lib/request-auth"
+
+// Sets a new password from an emailed reset link. Every existing session and
+// refresh token for the account stops working, including this browser's.
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = await request.json()
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json({ error: "Missing reset token" }, { status: 400 })
+    }
+
+    const tokenUser = await getEmailTokenUser(token, 'reset_password')
+    const passwordError = validatePassword(password, tokenUser ?? {})
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 })
+    }
+
+    const userId = await resetPassword(token, password)
+    if (!userId) {
+      return NextResponse.json(
+        { error: "This reset link is invalid or has expired" },
+        { status: 400 }
+      )
+    }
+
+    const response = NextResponse.json({ success: true })
+    clearSessionCookie(response)
+
+    return response
+
+  } catch (error) {
+    console.error('Password reset error:', error)
+    return NextResponse.json(
+      { error: "Password reset failed: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { clearSessionCookie, getSessionId, withAuth } from "@/lib/request-auth"
+import { deleteUserSession } from "@/lib/sessions"
+
+// Signs out a single device from the session list
+export const DELETE = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const removed = await deleteUserSession(user.id, params.id)
+    if (!removed) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 })
+    }
+
+    const response = NextResponse.json({ success: true })
+    if (params.id === getSessionId(request)) {
+      clearSessionCookie(response)
+    }
+
+    return response
+
+  } catch (error) {
+    console.error('Error ending session:', error)
+    return NextResponse.json(
+      { error: "Failed to end session: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+}, { allowPendingTwoFactor: true })
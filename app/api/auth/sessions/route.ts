@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { clearSessionCookie, getSessionId, withAuth } from "@/lib/request-auth"
+import { revokeUserRefreshTokens } from "@/lib/refresh-tokens"
+import { deleteUserSessions, getUserSessions, serializeSession } from "@/lib/sessions"
+
+export const GET = withAuth(async (request, { user }) => {
+  try {
+    const sessions = await getUserSessions(user.id)
+    const currentSessionId = getSessionId(request)
+
+    return NextResponse.json({
+      success: true,
+      sessions: sessions.map(session => serializeSession(session, currentSessionId))
+    })
+
+  } catch (error) {
+    console.error('Error listing sessions:', error)
+    return NextResponse.json(
+      { error: "Failed to list sessions" },
+      { status: 500 }
+    )
+  }
+}, { allowPendingTwoFactor: true })
+
+// Logout everywhere: ends every session for the user, including this one,
+// and revokes every refresh token so API clients can't renew either
+export const DELETE = withAuth(async (request, { user }) => {
+  try {
+    const removed = await deleteUserSessions(user.id)
+    await revokeUserRefreshTokens(user.id)
+
+    const response = NextResponse.json({ success: true, removed })
+    clearSessionCookie(response)
+
+    return response
+
+  } catch (error) {
+    console.error('Error ending sessions:', error)
+    return NextResponse.json(
+      { error: "Failed to end sessions: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+}, { allowPendingTwoFactor: true })
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { sendVerificationEmail } from "@/lib/email-tokens"
+import { getAppUrl, withAuth } from "@/lib/request-auth"
+
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    if (user.email_verified_at) {
+      return NextResponse.json({ error: "Email is already verified" }, { status: 400 })
+    }
+
+    const sent = await sendVerificationEmail(user, getAppUrl(request))
+    if (!sent) {
+      return NextResponse.json({ error: "Failed to send verification email" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Error resending verification email:', error)
+    return NextResponse.json(
+      { error: "Failed to send verification email: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+}, { allowPendingTwoFactor: true })
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server"
+import { verifyEmail } from "@/lib/email-tokens"
+
+// Called by /auth/verify-email with the token from the emailed link
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json()
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json({ error: "Missing verification token" }, { status: 400 })
+    }
+
+    const userId = await verifyEmail(token)
+    if (!userId) {
+      return NextResponse.json(
+        { error: "This verification link is invalid or has expired" },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Email verification error:', error)
+    return NextResponse.json(
+      { error: "Email verification failed: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+}
@@ -1,14 +1,17 @@
-import { NextRequest, NextResponse } from "next/server"
+import { NextResponse } from "next/server"
 import { getDatabase } from "@/lib/database"
+import { withMaintenanceAccess } from "@/lib/request-auth"
 
-export async function POST() {
+export const POST = withMaintenanceAccess(async (request, { user }) => {
   try {
+    console.warn(`Admin ${user.username} is clearing all posts`)
     const db = await getDatabase()
     
-    // Clear all posts from database
-    await db.run('DELETE FROM posts')
+    // Clear all posts from database, likes and comments first since they
+    // reference the posts
     await db.run('DELETE FROM likes')
     await db.run('DELETE FROM comments')
+    await db.run('DELETE FROM posts')
     
     // Reset auto-increment counters
     await db.run('DELETE FROM sqlite_sequence WHERE name IN ("posts", "likes", "comments")')
@@ -27,4 +30,4 @@ export async function POST() {
       error: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getAnalysisJob, serializeAnalysisJob } from "@/lib/analysis-jobs"
+import { getAuthUser } from "@/lib/request-auth"
+
+export const dynamic = 'force-dynamic'
+
+// Status, progress and, once completed, the analysis result of a queued job.
+// Anonymous jobs are readable by anyone holding the (unguessable) id.
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const job = await getAnalysisJob(params.id)
+    const isOwner = !job?.user_id || (await getAuthUser(request))?.id === job.user_id
+    if (!job || !isOwner) {
+      return NextResponse.json({ success: false, error: "Job not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, job: serializeAnalysisJob(job) })
+  } catch (error) {
+    console.error('Error fetching analysis job:', error)
+    return NextResponse.json({
+      success: false,
+      error: "Failed to fetch job: " + (error instanceof Error ? error.message : 'Unknown error')
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server"
+import { subscribe, trackSessionStream, type RealtimeEvent } from "@/lib/realtime"
+import { getSessionToken } from "@/lib/request-auth"
+import { getSessionUser, hashSessionToken } from "@/lib/sessions"
+
+export const dynamic = 'force-dynamic'
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25000
+
+export async function GET(request: NextRequest) {
+  // Only the session cookie, which same-origin EventSource sends by itself:
+  // tokens in the URL end up in access logs, and a session can be revoked
+  const sessionToken = getSessionToken(request)
+  const user = sessionToken ? await getSessionUser(sessionToken) : null
+
+  if (!sessionToken || !user) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+  }
+  const userId = user.id
+  const sessionId = hashSessionToken(sessionToken)
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+
+      const unsubscribe = subscribe(userId, (event: RealtimeEvent) => {
+        send(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+      })
+      const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_INTERVAL_MS)
+
+      const close = () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the runtime
+        }
+      }
+      // Signing out or revoking the session ends the stream
+      const untrack = trackSessionStream(sessionId, userId, close)
+
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+        untrack()
+      }
+      request.signal.addEventListener('abort', close)
+
+      send(`retry: 5000\nevent: ready\ndata: {}\n\n`)
+    },
+    cancel() {
+      cleanup()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
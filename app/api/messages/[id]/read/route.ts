@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { getConversationForUser, getUnreadMessageCount, markConversationRead } from "@/lib/messaging"
+import { publishToUser } from "@/lib/realtime"
+import { withAuth } from "@/lib/request-auth"
+
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const userId = user.id
+
+    const conversationId = parseInt(params.id)
+    const conversation = isNaN(conversationId) ? null : await getConversationForUser(conversationId, userId)
+    if (!conversation) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 })
+    }
+
+    const marked = await markConversationRead(conversationId, userId)
+    if (marked > 0) {
+      publishToUser(conversation.other_user_id, {
+        type: 'messages_read',
+        conversationId: conversationId.toString(),
+        readerId: userId.toString()
+      })
+    }
+    const unreadCount = await getUnreadMessageCount(userId)
+
+    return NextResponse.json({
+      success: true,
+      marked,
+      unreadCount
+    })
+
+  } catch (error) {
+    console.error('Error marking messages read:', error)
+    return NextResponse.json(
+      { error: "Failed to mark messages read" },
+      { status: 500 }
+    )
+  }
+})
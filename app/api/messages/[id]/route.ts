@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import { getConversationForUser, getMessages, serializeMessage } from "@/lib/messaging"
+import { withAuth } from "@/lib/request-auth"
+
+export const GET = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const userId = user.id
+
+    const conversationId = parseInt(params.id)
+    const conversation = isNaN(conversationId) ? null : await getConversationForUser(conversationId, userId)
+    if (!conversation) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '30'), 100) // Cap at 100
+    const cursorParam = searchParams.get('cursor')
+    const before = cursorParam ? parseInt(cursorParam) : null
+
+    if (before !== null && isNaN(before)) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 })
+    }
+
+    const page = await getMessages(conversationId, userId, limit, before)
+
+    return NextResponse.json({
+      success: true,
+      // Oldest first for display; the cursor pages further back in time
+      messages: page.messages.reverse().map(serializeMessage),
+      nextCursor: page.nextCursor?.toString() || null
+    })
+
+  } catch (error) {
+    console.error('Error fetching messages:', error)
+    return NextResponse.json(
+      { error: "Failed to fetch messages" },
+      { status: 500 }
+    )
+  }
+})
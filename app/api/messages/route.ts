@@ -0,0 +1,153 @@
+import { NextResponse } from "next/server"
+import { enqueueAnalysisJob, getAnalysisJob, type AnalysisJob } from "@/lib/analysis-jobs"
+import { getUserById } from "@/lib/auth"
+import { MAX_ANALYSIS_FILE_SIZE } from "@/lib/deepfake-detection"
+import {
+  getConversations,
+  getUnreadMessageCount,
+  isAnalyzableAttachment,
+  sendMessage,
+  serializeConversation,
+  serializeMessage,
+  settleMessageAttachments,
+  type MessageAttachment
+} from "@/lib/messaging"
+import { publishToUser } from "@/lib/realtime"
+import { getMediaType, publishPendingUpload, saveUploadedFile, savePendingUpload } from "@/lib/uploads"
+import { withAuth } from "@/lib/request-auth"
+
+const MAX_MESSAGE_LENGTH = 2000
+
+export const GET = withAuth(async (request, { user }) => {
+  try {
+    const userId = user.id
+
+    const conversations = await getConversations(userId)
+    const unreadCount = await getUnreadMessageCount(userId)
+
+    return NextResponse.json({
+      success: true,
+      conversations: conversations.map(serializeConversation),
+      unreadCount
+    })
+
+  } catch (error) {
+    console.error('Error fetching conversations:', error)
+    return NextResponse.json(
+      { error: "Failed to fetch conversations" },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    const userId = user.id
+
+    // Attachments must come in as multipart so they go through analysis;
+    // JSON bodies are text-only
+    let recipientId: string
+    let content: unknown
+    let file: File | null = null
+
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await request.formData()
+      recipientId = formData.get("recipientId") as string
+      content = formData.get("content")
+      file = formData.get("file") as File | null
+    } else {
+      ({ recipientId, content } = await request.json())
+    }
+
+    const receiverId = parseInt(recipientId)
+    const text = typeof content === 'string' ? content.trim() : ''
+
+    if (isNaN(receiverId)) {
+      return NextResponse.json({ error: "Missing recipient" }, { status: 400 })
+    }
+
+    if (receiverId === userId) {
+      return NextResponse.json({ error: "You cannot message yourself" }, { status: 400 })
+    }
+
+    if (!text && !file) {
+      return NextResponse.json({ error: "Message is empty" }, { status: 400 })
+    }
+
+    if (text.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json(
+        { error: `Message must be at most ${MAX_MESSAGE_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const recipient = await getUserById(receiverId)
+    if (!recipient) {
+      return NextResponse.json({ error: "Recipient not found" }, { status: 404 })
+    }
+
+    let attachment: MessageAttachment | undefined
+    let job: AnalysisJob | null = null
+    if (file) {
+      const mediaType = getMediaType(file.type)
+      if (!mediaType) {
+        return NextResponse.json({ error: "Only image and video attachments are supported" }, { status: 400 })
+      }
+      if (file.size > MAX_ANALYSIS_FILE_SIZE) {
+        return NextResponse.json({ error: "Attachment is too large" }, { status: 400 })
+      }
+
+      const unverified = { analysis: null, deepfakeScore: 0, riskLevel: 'low' as const }
+
+      if (isAnalyzableAttachment(file, mediaType)) {
+        // Held outside public/ until the analysis queue has a verdict, as for
+        // posts and stories; settleMessageAttachments then delivers it
+        const { fileUrl } = await savePendingUpload(file)
+        job = await enqueueAnalysisJob(file, userId)
+        if (job) {
+          attachment = { mediaUrl: fileUrl, mediaType, ...unverified, analysisStatus: 'pending', analysisJobId: job.id }
+        } else {
+          await publishPendingUpload(fileUrl)
+          attachment = { mediaUrl: fileUrl, mediaType, ...unverified, analysisStatus: 'failed' }
+        }
+      } else {
+        const { fileUrl } = await saveUploadedFile(file)
+        attachment = { mediaUrl: fileUrl, mediaType, ...unverified, analysisStatus: 'unsupported' }
+      }
+    }
+
+    let message = await sendMessage(userId, receiverId, text, attachment)
+    if (!message) {
+      return NextResponse.json({ error: "Failed to send message" }, { status: 500 })
+    }
+
+    if (job && message.analysis_status === 'pending') {
+      publishToUser(userId, { type: 'message', message: serializeMessage(message) })
+
+      // Nothing else settles a message whose job finished before it was
+      // stored, e.g. one answered from the cache
+      const current = await getAnalysisJob(job.id)
+      const settled = current ? await settleMessageAttachments(current) : []
+      const messageId = message.id
+      message = settled.find((settledMessage) => settledMessage.id === messageId) || message
+    } else {
+      const serialized = serializeMessage(message)
+
+      // The sender gets it too so their other open tabs stay in sync
+      publishToUser(receiverId, { type: 'message', message: serialized })
+      publishToUser(userId, { type: 'message', message: serialized })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: serializeMessage(message)
+    })
+
+  } catch (error) {
+    console.error('Error sending message:', error)
+    return NextResponse.json(
+      { error: "Failed to send message: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { getUnreadMessageCount } from "@/lib/messaging"
+import { withAuth } from "@/lib/request-auth"
+
+export const GET = withAuth(async (request, { user }) => {
+  try {
+    const userId = user.id
+
+    const unreadCount = await getUnreadMessageCount(userId)
+
+    return NextResponse.json({
+      success: true,
+      unreadCount
+    })
+
+  } catch (error) {
+    console.error('Error fetching unread count:', error)
+    return NextResponse.json(
+      { error: "Failed to fetch unread count" },
+      { status: 500 }
+    )
+  }
+})
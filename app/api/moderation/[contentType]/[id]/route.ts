@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server"
+import {
+  decideModeration,
+  getModerationItem,
+  MAX_MODERATION_NOTE_LENGTH,
+  MODERATION_CONTENT_TYPES,
+  serializeModerationItem,
+  type ModerationContentType
+} from "@/lib/moderation"
+import { requirePermission } from "@/lib/request-auth"
+
+type Params = { contentType: string; id: string }
+
+function parseTarget(params: Params) {
+  const contentType = params.contentType as ModerationContentType
+  const contentId = parseInt(params.id)
+  if (!MODERATION_CONTENT_TYPES.includes(contentType) || isNaN(contentId)) return null
+
+  return { contentType, contentId }
+}
+
+export const GET = requirePermission<Params>('content:moderate', async (request, { params }) => {
+  const target = parseTarget(params)
+  const item = target ? await getModerationItem(target.contentType, target.contentId) : null
+  if (!item) {
+    return NextResponse.json({ error: "Content not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true, item: serializeModerationItem(item) })
+})
+
+// Approve or reject an item in the queue
+export const POST = requirePermission<Params>('content:moderate', async (request, { params, user }) => {
+  try {
+    const target = parseTarget(params)
+    if (!target) {
+      return NextResponse.json({ error: "Content not found" }, { status: 404 })
+    }
+
+    const { decision, note } = await request.json()
+    if (decision !== 'approved' && decision !== 'rejected') {
+      return NextResponse.json({ error: "Decision must be approved or rejected" }, { status: 400 })
+    }
+    if (note !== undefined && note !== null && typeof note !== 'string') {
+      return NextResponse.json({ error: "Note must be a string" }, { status: 400 })
+    }
+    const trimmedNote = note?.trim() || null
+    if (trimmedNote && trimmedNote.length > MAX_MODERATION_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Note must be ${MAX_MODERATION_NOTE_LENGTH} characters or fewer` },
+        { status: 400 }
+      )
+    }
+
+    const existing = await getModerationItem(target.contentType, target.contentId)
+    if (!existing) {
+      return NextResponse.json({ error: "Content not found" }, { status: 404 })
+    }
+    if (existing.moderation_status !== 'pending_review') {
+      return NextResponse.json(
+        { error: "This content isn't waiting for review", status: existing.moderation_status },
+        { status: 409 }
+      )
+    }
+
+    const item = await decideModeration(target.contentType, target.contentId, user.id, decision, trimmedNote)
+    if (!item) {
+      return NextResponse.json({ error: "This content was already reviewed" }, { status: 409 })
+    }
+
+    console.log(`Moderator ${user.username} ${decision} ${target.contentType} ${target.contentId}`)
+
+    return NextResponse.json({ success: true, item: serializeModerationItem(item) })
+  } catch (error) {
+    console.error('Error recording moderation decision:', error)
+    return NextResponse.json(
+      { error: "Failed to record decision: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
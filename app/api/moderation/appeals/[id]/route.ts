@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server"
+import { decideAppeal, getAppeal, serializeAppeal } from "@/lib/appeals"
+import { MAX_MODERATION_NOTE_LENGTH } from "@/lib/moderation"
+import { requirePermission } from "@/lib/request-auth"
+
+type Params = { id: string }
+
+export const GET = requirePermission<Params>('content:moderate', async (request, { params }) => {
+  const appealId = parseInt(params.id)
+  const appeal = isNaN(appealId) ? null : await getAppeal(appealId)
+  if (!appeal) {
+    return NextResponse.json({ error: "Appeal not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true, appeal: serializeAppeal(appeal) })
+})
+
+// Accept or deny a pending appeal
+export const POST = requirePermission<Params>('content:moderate', async (request, { params, user }) => {
+  try {
+    const appealId = parseInt(params.id)
+    if (isNaN(appealId)) {
+      return NextResponse.json({ error: "Appeal not found" }, { status: 404 })
+    }
+
+    const { decision, note } = await request.json()
+    if (decision !== 'accepted' && decision !== 'denied') {
+      return NextResponse.json({ error: "Decision must be accepted or denied" }, { status: 400 })
+    }
+    if (note !== undefined && note !== null && typeof note !== 'string') {
+      return NextResponse.json({ error: "Note must be a string" }, { status: 400 })
+    }
+    const trimmedNote = note?.trim() || null
+    if (trimmedNote && trimmedNote.length > MAX_MODERATION_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Note must be ${MAX_MODERATION_NOTE_LENGTH} characters or fewer` },
+        { status: 400 }
+      )
+    }
+
+    const existing = await getAppeal(appealId)
+    if (!existing) {
+      return NextResponse.json({ error: "Appeal not found" }, { status: 404 })
+    }
+    if (existing.status !== 'pending') {
+      return NextResponse.json(
+        { error: "This appeal was already decided", status: existing.status },
+        { status: 409 }
+      )
+    }
+
+    const appeal = await decideAppeal(appealId, user.id, decision, trimmedNote)
+    if (!appeal) {
+      return NextResponse.json({ error: "This appeal was already decided" }, { status: 409 })
+    }
+
+    console.log(`Moderator ${user.username} ${decision} appeal ${appealId}`)
+
+    return NextResponse.json({ success: true, appeal: serializeAppeal(appeal) })
+  } catch (error) {
+    console.error('Error deciding appeal:', error)
+    return NextResponse.json(
+      { error: "Failed to record decision: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { countPendingAppeals, getAppeals, serializeAppeal, type AppealStatus } from "@/lib/appeals"
+import { requirePermission } from "@/lib/request-auth"
+
+const APPEAL_STATUSES: AppealStatus[] = ['pending', 'accepted', 'denied']
+
+export const GET = requirePermission('content:moderate', async (request) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = (searchParams.get('status') || 'pending') as AppealStatus
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 50)
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0)
+
+    if (!APPEAL_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: "Invalid status. Use pending, accepted or denied" },
+        { status: 400 }
+      )
+    }
+
+    const appeals = await getAppeals(status, { limit, offset })
+
+    return NextResponse.json({
+      success: true,
+      appeals: appeals.map(serializeAppeal),
+      pendingCount: await countPendingAppeals(),
+      nextOffset: appeals.length === limit ? offset + limit : null
+    })
+  } catch (error) {
+    console.error('Error fetching appeals:', error)
+    return NextResponse.json(
+      { error: "Failed to fetch appeals: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
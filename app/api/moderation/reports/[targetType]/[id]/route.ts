@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server"
+import { deleteComment } from "@/lib/content"
+import { MAX_MODERATION_NOTE_LENGTH } from "@/lib/moderation"
+import { resolveReports } from "@/lib/reports"
+import { requirePermission } from "@/lib/request-auth"
+
+type Params = { targetType: string; id: string }
+
+// Closes the reports against a comment or profile. "dismiss" means no action
+// was needed, "resolve" that it was dealt with, and "remove" deletes the
+// reported comment.
+export const POST = requirePermission<Params>('content:moderate', async (request, { params, user }) => {
+  try {
+    const targetType = params.targetType
+    const targetId = parseInt(params.id)
+    if ((targetType !== 'comment' && targetType !== 'user') || isNaN(targetId)) {
+      return NextResponse.json({ error: "Reports not found" }, { status: 404 })
+    }
+
+    const { action, note } = await request.json()
+    if (!['dismiss', 'resolve', 'remove'].includes(action)) {
+      return NextResponse.json({ error: "Action must be dismiss, resolve or remove" }, { status: 400 })
+    }
+    if (action === 'remove' && targetType !== 'comment') {
+      return NextResponse.json({ error: "Only comments can be removed" }, { status: 400 })
+    }
+    if (note !== undefined && note !== null && typeof note !== 'string') {
+      return NextResponse.json({ error: "Note must be a string" }, { status: 400 })
+    }
+    const trimmedNote = note?.trim() || null
+    if (trimmedNote && trimmedNote.length > MAX_MODERATION_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Note must be ${MAX_MODERATION_NOTE_LENGTH} characters or fewer` },
+        { status: 400 }
+      )
+    }
+
+    const closed = await resolveReports(
+      targetType,
+      targetId,
+      user.id,
+      action === 'dismiss' ? 'dismissed' : 'resolved',
+      trimmedNote
+    )
+    if (closed === 0) {
+      return NextResponse.json({ error: "No open reports for this target" }, { status: 404 })
+    }
+
+    if (action === 'remove' && await deleteComment(targetId) === null) {
+      return NextResponse.json({ error: "Failed to remove comment" }, { status: 500 })
+    }
+
+    console.log(`Moderator ${user.username} closed ${closed} reports on ${targetType} ${targetId} (${action})`)
+
+    return NextResponse.json({ success: true, closed })
+  } catch (error) {
+    console.error('Error closing reports:', error)
+    return NextResponse.json(
+      { error: "Failed to close reports: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
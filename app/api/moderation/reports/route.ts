@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { countEscalatedReports, getEscalatedReports, serializeEscalatedTarget } from "@/lib/reports"
+import { requirePermission } from "@/lib/request-auth"
+
+// Escalated reports against comments and profiles. Reported posts and stories
+// show up in the main moderation queue instead.
+export const GET = requirePermission('content:moderate', async (request) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 50)
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0)
+
+    const targets = await getEscalatedReports({ limit, offset })
+
+    return NextResponse.json({
+      success: true,
+      targets: targets.map(serializeEscalatedTarget),
+      escalatedCount: await countEscalatedReports(),
+      nextOffset: targets.length === limit ? offset + limit : null
+    })
+  } catch (error) {
+    console.error('Error fetching reports:', error)
+    return NextResponse.json(
+      { error: "Failed to fetch reports: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
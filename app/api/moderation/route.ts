@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import {
+  countPendingReview,
+  getModerationQueue,
+  MODERATION_CONTENT_TYPES,
+  serializeModerationItem,
+  type ModerationContentType
+} from "@/lib/moderation"
+import { requirePermission } from "@/lib/request-auth"
+
+const QUEUE_STATUSES = ['pending_review', 'approved', 'rejected'] as const
+
+export const GET = requirePermission('content:moderate', async (request) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') || 'pending_review'
+    const type = searchParams.get('type')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 50)
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0)
+
+    if (!QUEUE_STATUSES.includes(status as typeof QUEUE_STATUSES[number])) {
+      return NextResponse.json(
+        { error: "Invalid status. Use pending_review, approved or rejected" },
+        { status: 400 }
+      )
+    }
+    if (type && !MODERATION_CONTENT_TYPES.includes(type as ModerationContentType)) {
+      return NextResponse.json({ error: "Invalid type. Use post or story" }, { status: 400 })
+    }
+
+    const items = await getModerationQueue(status as typeof QUEUE_STATUSES[number], {
+      contentType: (type as ModerationContentType) || undefined,
+      limit,
+      offset
+    })
+
+    return NextResponse.json({
+      success: true,
+      items: items.map(serializeModerationItem),
+      pendingCount: await countPendingReview(),
+      nextOffset: items.length === limit ? offset + limit : null
+    })
+  } catch (error) {
+    console.error('Error fetching moderation queue:', error)
+    return NextResponse.json(
+      { error: "Failed to fetch moderation queue: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
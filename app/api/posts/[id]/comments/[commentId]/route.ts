@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server"
+import { MAX_COMMENT_LENGTH, deleteComment, getComment, serializeComment, updateComment } from "@/lib/content"
+import { withAuth } from "@/lib/request-auth"
+
+async function findComment(params: { id: string; commentId: string }) {
+  const commentId = parseInt(params.commentId)
+  const comment = isNaN(commentId) ? null : await getComment(commentId)
+
+  // The comment has to live under the post in the URL
+  return comment && comment.post_id === parseInt(params.id) ? comment : null
+}
+
+export const PATCH = withAuth<{ id: string; commentId: string }>(async (request, { params, user }) => {
+  try {
+    const userId = user.id
+
+    const comment = await findComment(params)
+    if (!comment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 })
+    }
+
+    if (comment.user_id !== userId) {
+      return NextResponse.json({ error: "You can only edit your own comments" }, { status: 403 })
+    }
+
+    const { content } = await request.json()
+    const text = typeof content === 'string' ? content.trim() : ''
+
+    if (!text) {
+      return NextResponse.json({ error: "Comment is empty" }, { status: 400 })
+    }
+    if (text.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `Comment must be at most ${MAX_COMMENT_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const updated = await updateComment(comment.id, text)
+    const refreshed = updated ? await getComment(comment.id) : null
+    if (!refreshed) {
+      return NextResponse.json({ error: "Failed to update comment" }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      comment: serializeComment(refreshed)
+    })
+
+  } catch (error) {
+    console.error('Error updating comment:', error)
+    return NextResponse.json(
+      { error: "Failed to update comment: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
+
+export const DELETE = withAuth<{ id: string; commentId: string }>(async (request, { params, user }) => {
+  try {
+    const userId = user.id
+
+    const comment = await findComment(params)
+    if (!comment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 })
+    }
+
+    // Post owners can clean up their own comment sections
+    if (comment.user_id !== userId && comment.post_owner_id !== userId) {
+      return NextResponse.json({ error: "You don't have permission to delete this comment" }, { status: 403 })
+    }
+
+    const removed = await deleteComment(comment.id)
+    if (removed === null) {
+      return NextResponse.json({ error: "Failed to delete comment" }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      removed
+    })
+
+  } catch (error) {
+    console.error('Error deleting comment:', error)
+    return NextResponse.json(
+      { error: "Failed to delete comment: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server"
+import { MAX_COMMENT_LENGTH, addComment, getComment, getComments, isPostVisible, serializeComment } from "@/lib/content"
+import { getAuthUser, withAuth } from "@/lib/request-auth"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const postId = parseInt(params.id)
+    const viewer = await getAuthUser(request)
+    if (!(await isPostVisible(postId, viewer?.id))) {
+      return NextResponse.json({ error: "Post not found" }, { status: 404 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 50)
+    const after = searchParams.get('cursor') ? parseInt(searchParams.get('cursor')!) : null
+
+    const page = await getComments(postId, limit, after)
+
+    return NextResponse.json({
+      success: true,
+      comments: page.comments.map(serializeComment),
+      nextCursor: page.nextCursor?.toString() || null
+    })
+
+  } catch (error) {
+    console.error('Error fetching comments:', error)
+    return NextResponse.json(
+      { error: "Failed to fetch comments" },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const userId = user.id
+
+    const postId = parseInt(params.id)
+    if (!(await isPostVisible(postId, userId))) {
+      return NextResponse.json({ error: "Post not found" }, { status: 404 })
+    }
+
+    const { content, parentId } = await request.json()
+    const text = typeof content === 'string' ? content.trim() : ''
+
+    if (!text) {
+      return NextResponse.json({ error: "Comment is empty" }, { status: 400 })
+    }
+    if (text.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `Comment must be at most ${MAX_COMMENT_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    // Replies only go one level deep, so the parent must be top-level
+    let parent: number | null = null
+    if (parentId !== undefined && parentId !== null) {
+      const parentComment = await getComment(parseInt(parentId))
+      if (!parentComment || parentComment.post_id !== postId) {
+        return NextResponse.json({ error: "Parent comment not found" }, { status: 404 })
+      }
+      if (parentComment.parent_id) {
+        return NextResponse.json({ error: "Replies to replies are not supported" }, { status: 400 })
+      }
+      parent = parentComment.id
+    }
+
+    const commentId = await addComment(postId, userId, text, parent)
+    const comment = commentId ? await getComment(commentId) : null
+    if (!comment) {
+      return NextResponse.json({ error: "Failed to add comment" }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      comment: serializeComment(parent ? comment : { ...comment, replies: [] })
+    })
+
+  } catch (error) {
+    console.error('Error adding comment:', error)
+    return NextResponse.json(
+      { error: "Failed to add comment: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
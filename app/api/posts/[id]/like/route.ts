@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { isPostVisible, likePost } from "@/lib/content"
+import { withAuth } from "@/lib/request-auth"
+
+// Toggles the caller's like and returns the resulting state
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const userId = user.id
+
+    const postId = parseInt(params.id)
+    if (!(await isPostVisible(postId, userId))) {
+      return NextResponse.json({ error: "Post not found" }, { status: 404 })
+    }
+
+    const result = await likePost(postId, userId)
+    if (!result) {
+      return NextResponse.json({ error: "Failed to update like" }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      liked: result.liked,
+      likes: result.likes
+    })
+
+  } catch (error) {
+    console.error('Error toggling like:', error)
+    return NextResponse.json(
+      { error: "Failed to update like: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
@@ -1,58 +1,19 @@
-import { NextRequest, NextResponse } from "next/server"
-import { verifyToken } from "@/lib/auth"
-import { getDatabase } from "@/lib/database"
+import { NextResponse } from "next/server"
+import { getDatabase, withTransaction } from "@/lib/database"
+import { withAuth } from "@/lib/request-auth"
 
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const DELETE = withAuth<{ id: string }>(async (request, { params, user }) => {
   try {
     const postId = params.id
-    console.log('Attempting to delete post:', postId)
-    
-    const token = request.headers.get('authorization')?.replace('Bearer ', '')
-    console.log('Token received:', token ? 'Yes' : 'No')
-    
-    if (!token) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      )
-    }
-
-    let userId: number
-    
-    if (token.startsWith('demo-token-')) {
-      const demoUserId = token.replace('demo-token-', '')
-      userId = parseInt(demoUserId) || 1
-      console.log('Demo user ID:', userId)
-    } else {
-      const decoded = verifyToken(token)
-      if (!decoded) {
-        return NextResponse.json(
-          { error: "Invalid token" },
-          { status: 401 }
-        )
-      }
-      userId = decoded.userId
-      console.log('Authenticated user ID:', userId)
-    }
+    const userId = user.id
+    console.log('Attempting to delete post:', postId, 'as user', userId)
 
     try {
       const db = await getDatabase()
       console.log('Database connected')
       
       // Check if the post exists first
-      const postCheck = await new Promise((resolve, reject) => {
-        db.get(
-          'SELECT * FROM posts WHERE id = ?',
-          [postId],
-          (err: any, row: any) => {
-            if (err) reject(err)
-            else resolve(row)
-          }
-        )
-      })
+      const postCheck = await db.get('SELECT * FROM posts WHERE id = ?', [postId])
 
       console.log('Post found:', postCheck ? 'Yes' : 'No')
       
@@ -64,16 +25,7 @@ export async function DELETE(
       }
 
       // Check if the post belongs to the user
-      const userPost = await new Promise((resolve, reject) => {
-        db.get(
-          'SELECT * FROM posts WHERE id = ? AND user_id = ?',
-          [postId, userId],
-          (err: any, row: any) => {
-            if (err) reject(err)
-            else resolve(row)
-          }
-        )
-      })
+      const userPost = await db.get('SELECT * FROM posts WHERE id = ? AND user_id = ?', [postId, userId])
 
       console.log('User owns post:', userPost ? 'Yes' : 'No')
 
@@ -84,22 +36,13 @@ export async function DELETE(
         )
       }
 
-      // Delete the post
-      await new Promise<void>((resolve, reject) => {
-        db.run(
-          'DELETE FROM posts WHERE id = ? AND user_id = ?',
-          [postId, userId],
-          (err: any) => {
-            if (err) {
-              console.error('Delete error:', err)
-              reject(err)
-            } else {
-              console.log('Post deleted successfully')
-              resolve()
-            }
-          }
-        )
+      // Likes and comments reference the post, so they go with it
+      await withTransaction(async (tx) => {
+        await tx.run('DELETE FROM likes WHERE post_id = ?', [postId])
+        await tx.run('DELETE FROM comments WHERE post_id = ?', [postId])
+        await tx.run('DELETE FROM posts WHERE id = ? AND user_id = ?', [postId, userId])
       })
+      console.log('Post deleted successfully')
 
       return NextResponse.json({
         success: true,
@@ -121,4 +64,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
+})
@@ -1,26 +1,36 @@
 import { NextRequest, NextResponse } from "next/server"
-import { verifyToken } from "@/lib/auth"
-import { createPost, getPosts, likePost } from "@/lib/content"
-import { getDatabase } from "@/lib/database"
+import { getVerdictForUpload } from "@/lib/analysis-jobs"
+import { createPost, getPosts, InvalidCursorError, type FeedMode } from "@/lib/content"
+import { deepfakeScoreFromBackend, riskLevelFromScore } from "@/lib/deepfake-detection"
+import { getInitialModeration } from "@/lib/moderation"
+import { getAuthUser, withAuth } from "@/lib/request-auth"
+import { readUploadedFile } from "@/lib/uploads"
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 50) // Cap at 50
-    const offset = parseInt(searchParams.get('offset') || '0')
-    
-    // Get user ID from token if available
-    const token = request.headers.get('authorization')?.replace('Bearer ', '')
-    let userId: number | undefined
+    const cursor = searchParams.get('cursor')
+    const feed = (searchParams.get('feed') || 'global') as FeedMode
+
+    if (!['global', 'following', 'ranked'].includes(feed)) {
+      return NextResponse.json(
+        { error: "Invalid feed. Use following, ranked or global" },
+        { status: 400 }
+      )
+    }
     
-    if (token && token.startsWith('demo-token-')) {
-      userId = parseInt(token.replace('demo-token-', '')) || 1
-    } else if (token) {
-      const decoded = verifyToken(token)
-      userId = decoded?.userId
+    // Signing in is optional except for the following feed
+    const userId = (await getAuthUser(request))?.id
+
+    if (feed === 'following' && !userId) {
+      return NextResponse.json(
+        { error: "Authentication required for the following feed" },
+        { status: 401 }
+      )
     }
 
-    const posts = await getPosts(userId, limit, offset)
+    const page = await getPosts(userId, { feed, limit, cursor })
     
     // Optimize: Pre-create IST formatter
     const istFormatter = new Intl.DateTimeFormat('en-IN', {
@@ -33,7 +43,7 @@ export async function GET(request: NextRequest) {
     })
     
     // Transform for frontend compatibility (optimized)
-    const formattedPosts = posts.map(post => ({
+    const formattedPosts = page.posts.map(post => ({
       id: post.id.toString(),
       user: {
         id: post.user_id.toString(),
@@ -49,15 +59,23 @@ export async function GET(request: NextRequest) {
       timestamp: istFormatter.format(new Date(post.created_at)),
       isLiked: post.is_liked,
       riskLevel: post.risk_level,
-      aiConfirmed: post.ai_confirmed
+      aiConfirmed: post.ai_confirmed,
+      moderationStatus: post.moderation_status,
+      verdict: post.review_verdict,
+      appealStatus: post.appeal_status
     }))
 
     return NextResponse.json({
       success: true,
-      posts: formattedPosts
+      feed,
+      posts: formattedPosts,
+      nextCursor: page.nextCursor
     })
 
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Error fetching posts:', error)
     return NextResponse.json(
       { error: "Failed to fetch posts" },
@@ -66,7 +84,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { user }) => {
   try {
     const contentType = request.headers.get('content-type')
     
@@ -77,55 +95,53 @@ export async function POST(request: NextRequest) {
       data = {
         file: formData.get("file") as File,
         caption: formData.get("caption") as string,
-        userId: formData.get("userId") as string,
         mediaUrl: formData.get("mediaUrl") as string,
         mediaType: formData.get("mediaType") as string,
-        analysisResult: formData.get("analysisResult") ? JSON.parse(formData.get("analysisResult") as string) : null,
+        analysisJobId: formData.get("analysisJobId") as string,
         aiConfirmed: formData.get("aiConfirmed") === 'true'
       }
     } else {
       data = await request.json()
     }
 
-    const token = request.headers.get('authorization')?.replace('Bearer ', '')
-    let userId: number
-    let username = 'user' // Default fallback
-    
-    if (token && token.startsWith('demo-token-')) {
-      userId = parseInt(token.replace('demo-token-', '')) || 1
-      username = `user${userId}`
-    } else if (token) {
-      const decoded = verifyToken(token)
-      if (!decoded) {
-        return NextResponse.json({ error: "Invalid token" }, { status: 401 })
-      }
-      userId = decoded.userId
-      username = `user${userId}` // Simple fallback for performance
-    } else if (data.userId) {
-      userId = parseInt(data.userId)
-      username = data.username || `user${userId}`
-    } else {
-      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
-    }
+    // The author always comes from the verified caller, never from the body
+    const userId = user.id
 
     if (!data.mediaUrl && !data.file) {
       return NextResponse.json({ error: "Missing media" }, { status: 400 })
     }
+    if (typeof data.analysisJobId !== 'string' || !data.analysisJobId) {
+      return NextResponse.json({ error: "Missing analysisJobId" }, { status: 400 })
+    }
 
     // Handle media URL efficiently
     let mediaUrl = data.mediaUrl || "/placeholder.svg?height=600&width=600"
     let mediaType = data.mediaType || 'image'
 
+    // The score and moderation status come from the server's own analysis of
+    // exactly the media being posted, which must be an upload of ours
+    const content = await readUploadedFile(mediaUrl)
+    const verdict = content ? await getVerdictForUpload(data.analysisJobId, userId, content) : null
+    if (!verdict) {
+      return NextResponse.json(
+        { error: "No finished analysis of this media. Analyze it before posting." },
+        { status: 400 }
+      )
+    }
+
     // Create post in database
     const postId = await createPost(
       userId,
       mediaUrl,
       mediaType,
       data.caption,
-      data.analysisResult,
+      verdict,
       data.aiConfirmed || false
     )
 
+    if (!postId) {
+      return NextResponse.json({ error: "Failed to create post" }, { status: 500 })
+    }
     console.log(`Post created: ID ${postId} by User ${userId}`)
 
     // Pre-create IST formatter for consistent performance
@@ -138,28 +154,10 @@ export async function POST(request: NextRequest) {
       minute: '2-digit'
     })
 
-    // Calculate the correct deepfake score based on backend prediction
-    const calculateDeepfakeScore = (analysisResult: any): number => {
-      if (analysisResult?.backendInfo) {
-        const confidence = analysisResult.backendInfo.confidence
-        const prediction = analysisResult.backendInfo.prediction
-        
-        // If backend says "Real", then deepfake score is (1 - confidence)
-        // If backend says "Deepfake", then deepfake score is confidence
-        if (prediction === "Real") {
-          return Math.round((1 - confidence) * 100)
-        } else {
-          return Math.round(confidence * 100)
-        }
-      }
-      // Fallback to analysis confidence (already in percentage)
-      return analysisResult?.confidence || 0
-    }
-
-    const deepfakeScore = calculateDeepfakeScore(data.analysisResult)
+    const deepfakeScore = deepfakeScoreFromBackend(verdict.backend)
 
     const post = {
-      id: (postId || Date.now()).toString(),
+      id: postId.toString(),
       userId: userId.toString(),
       mediaUrl,
       mediaType,
@@ -168,21 +166,22 @@ export async function POST(request: NextRequest) {
       likes: 0,
       comments: 0,
       createdAt: istFormatter.format(new Date()),
-      riskLevel: data.analysisResult?.riskLevel || 'low',
+      riskLevel: riskLevelFromScore(deepfakeScore),
       aiConfirmed: data.aiConfirmed || false,
+      moderationStatus: getInitialModeration(deepfakeScore).status,
       user: {
         id: userId.toString(),
-        username,
-        profilePic: "/placeholder.svg"
+        username: user.username,
+        profilePic: user.profile_pic || "/placeholder.svg"
       }
     }
 
     return NextResponse.json({
       success: true,
       post,
-      postId: postId || Date.now(),
+      postId,
       deepfakeScore,
-      message: postId ? 'Post created successfully' : 'Post created in demo mode'
+      message: 'Post created successfully'
     })
 
   } catch (error) {
@@ -192,4 +191,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
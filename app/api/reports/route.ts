@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server"
+import { getComment, getStory, isPostVisible } from "@/lib/content"
+import {
+  createReport,
+  getReportTargetOwnerId,
+  MAX_REPORT_DETAILS_LENGTH,
+  REPORT_REASONS,
+  REPORT_TARGET_TYPES,
+  type ReportReason,
+  type ReportTargetType
+} from "@/lib/reports"
+import { withAuth } from "@/lib/request-auth"
+
+// The visibility liking and commenting go by: a post or story held for review,
+// and the comments under such a post, only exist for their author
+async function isTargetVisible(targetType: ReportTargetType, targetId: number, viewerId: number): Promise<boolean> {
+  switch (targetType) {
+    case 'post':
+      return isPostVisible(targetId, viewerId)
+    case 'comment': {
+      const comment = await getComment(targetId)
+      return comment ? isPostVisible(comment.post_id, viewerId) : false
+    }
+    case 'story':
+      return Boolean(await getStory(targetId, viewerId))
+    case 'user':
+      return true
+  }
+}
+
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    const { targetType, targetId, reason, details } = await request.json()
+    const id = parseInt(targetId)
+
+    if (!REPORT_TARGET_TYPES.includes(targetType) || isNaN(id)) {
+      return NextResponse.json(
+        { error: "Report a post, story, comment or user by its ID" },
+        { status: 400 }
+      )
+    }
+    if (!REPORT_REASONS.includes(reason)) {
+      return NextResponse.json(
+        { error: `Reason must be one of: ${REPORT_REASONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (details !== undefined && details !== null && typeof details !== 'string') {
+      return NextResponse.json({ error: "Details must be a string" }, { status: 400 })
+    }
+    const trimmedDetails = details?.trim() || null
+    if (trimmedDetails && trimmedDetails.length > MAX_REPORT_DETAILS_LENGTH) {
+      return NextResponse.json(
+        { error: `Details must be ${MAX_REPORT_DETAILS_LENGTH} characters or fewer` },
+        { status: 400 }
+      )
+    }
+
+    const ownerId = await isTargetVisible(targetType as ReportTargetType, id, user.id)
+      ? await getReportTargetOwnerId(targetType as ReportTargetType, id)
+      : null
+    if (ownerId === null) {
+      return NextResponse.json({ error: "Nothing to report: it doesn't exist" }, { status: 404 })
+    }
+    if (ownerId === user.id) {
+      return NextResponse.json({ error: "You cannot report yourself or your own content" }, { status: 400 })
+    }
+
+    const result = await createReport(user.id, targetType, id, reason as ReportReason, trimmedDetails)
+    if (!result) {
+      return NextResponse.json({ error: "Failed to submit report" }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      alreadyReported: !result.created,
+      escalated: result.escalated
+    })
+  } catch (error) {
+    console.error('Error creating report:', error)
+    return NextResponse.json(
+      { error: "Failed to submit report: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
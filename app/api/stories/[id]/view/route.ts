@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { getStory, viewStory } from "@/lib/content"
+import { withAuth } from "@/lib/request-auth"
+
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const userId = user.id
+
+    const storyId = parseInt(params.id)
+    const story = isNaN(storyId) ? null : await getStory(storyId, userId)
+    if (!story) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    // Authors watching their own story don't show up in the viewers list
+    if (story.user_id !== userId) {
+      await viewStory(storyId, userId)
+    }
+
+    return NextResponse.json({
+      success: true,
+      viewed: true
+    })
+
+  } catch (error) {
+    console.error('Error recording story view:', error)
+    return NextResponse.json(
+      { error: "Failed to record story view" },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { getStory, getStoryViewers, serializeStoryViewer } from "@/lib/content"
+import { withAuth } from "@/lib/request-auth"
+
+export const GET = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const userId = user.id
+
+    const storyId = parseInt(params.id)
+    const story = isNaN(storyId) ? null : await getStory(storyId, userId)
+    if (!story) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 })
+    }
+
+    if (story.user_id !== userId) {
+      return NextResponse.json({ error: "Only the author can see who viewed a story" }, { status: 403 })
+    }
+
+    const viewers = await getStoryViewers(storyId)
+
+    return NextResponse.json({
+      success: true,
+      viewers: viewers.map(serializeStoryViewer),
+      count: viewers.length
+    })
+
+  } catch (error) {
+    console.error('Error fetching story viewers:', error)
+    return NextResponse.json(
+      { error: "Failed to fetch story viewers" },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getVerdictForUpload } from "@/lib/analysis-jobs"
+import { createStory, getStories, getStory, serializeStory } from "@/lib/content"
+import { MAX_ANALYSIS_FILE_SIZE } from "@/lib/deepfake-detection"
+import { deleteUploadedFile, getMediaType, saveUploadedFile } from "@/lib/uploads"
+import { getAuthUser, withAuth } from "@/lib/request-auth"
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = (await getAuthUser(request))?.id
+    const stories = await getStories(userId)
+
+    return NextResponse.json({
+      success: true,
+      stories: stories.map(story => serializeStory(story, userId))
+    })
+
+  } catch (error) {
+    console.error('Error fetching stories:', error)
+    return NextResponse.json(
+      { error: "Failed to fetch stories" },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    const userId = user.id
+
+    const formData = await request.formData()
+    const file = formData.get("file") as File | null
+    const analysisJobId = formData.get("analysisJobId")
+    const aiConfirmed = formData.get("aiConfirmed") === 'true'
+
+    if (!file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 })
+    }
+
+    const mediaType = getMediaType(file.type)
+    if (!mediaType) {
+      return NextResponse.json({ error: "Stories must be an image or video" }, { status: 400 })
+    }
+    if (file.size > MAX_ANALYSIS_FILE_SIZE) {
+      return NextResponse.json({ error: "Story file is too large" }, { status: 400 })
+    }
+
+    // The score and moderation status come from the server's own analysis of this file
+    const verdict = typeof analysisJobId === 'string' && analysisJobId
+      ? await getVerdictForUpload(analysisJobId, userId, Buffer.from(await file.arrayBuffer()))
+      : null
+    if (!verdict) {
+      return NextResponse.json(
+        { error: "No finished analysis of this file. Analyze it before sharing." },
+        { status: 400 }
+      )
+    }
+
+    const { fileUrl } = await saveUploadedFile(file)
+    const storyId = await createStory(userId, fileUrl, mediaType, verdict, aiConfirmed)
+    const story = storyId ? await getStory(storyId, userId) : null
+
+    if (!story) {
+      await deleteUploadedFile(fileUrl)
+      return NextResponse.json({ error: "Failed to create story" }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      story: serializeStory(story, userId)
+    })
+
+  } catch (error) {
+    console.error('Error creating story:', error)
+    return NextResponse.json(
+      { error: "Failed to create story: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
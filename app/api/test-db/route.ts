@@ -1,7 +1,8 @@
-import { NextRequest, NextResponse } from "next/server"
+import { NextResponse } from "next/server"
 import { getDatabase } from "@/lib/database"
+import { withMaintenanceAccess } from "@/lib/request-auth"
 
-export async function GET() {
+export const GET = withMaintenanceAccess(async () => {
   try {
     const db = await getDatabase()
     
@@ -24,9 +25,9 @@ export async function GET() {
       error: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withMaintenanceAccess(async (request) => {
   try {
     const { username, email } = await request.json()
     const db = await getDatabase()
@@ -49,4 +50,4 @@ export async function POST(request: NextRequest) {
       error: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
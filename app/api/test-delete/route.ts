@@ -1,7 +1,8 @@
-import { NextRequest, NextResponse } from "next/server"
+import { NextResponse } from "next/server"
 import { getDatabase } from "@/lib/database"
+import { withMaintenanceAccess } from "@/lib/request-auth"
 
-export async function GET() {
+export const GET = withMaintenanceAccess(async () => {
   try {
     console.log('Testing database connection...')
     const db = await getDatabase()
@@ -33,4 +34,4 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
+})
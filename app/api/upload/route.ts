@@ -1,8 +1,8 @@
-import { NextRequest, NextResponse } from "next/server"
-import { writeFile, mkdir } from "fs/promises"
-import path from "path"
+import { NextResponse } from "next/server"
+import { withAuth } from "@/lib/request-auth"
+import { UnsupportedUploadError, saveUploadedFile } from "@/lib/uploads"
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request) => {
   try {
     const formData = await request.formData()
     const file = formData.get("file") as File
@@ -14,27 +14,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Create uploads directory if it doesn't exist
-    const uploadsDir = path.join(process.cwd(), "public", "uploads")
-    try {
-      await mkdir(uploadsDir, { recursive: true })
-    } catch (error) {
-      // Directory might already exist
-    }
-
-    // Generate unique filename
-    const timestamp = Date.now()
-    const fileExtension = file.name.split('.').pop()
-    const fileName = `${timestamp}.${fileExtension}`
-    const filePath = path.join(uploadsDir, fileName)
-
-    // Convert file to buffer and save
-    const bytes = await file.arrayBuffer()
-    const buffer = Buffer.from(bytes)
-    await writeFile(filePath, buffer)
-
-    // Return the URL path
-    const fileUrl = `/uploads/${fileName}`
+    const { fileUrl, fileName } = await saveUploadedFile(file)
     
     return NextResponse.json({
       success: true,
@@ -45,10 +25,13 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof UnsupportedUploadError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('File upload error:', error)
     return NextResponse.json(
       { error: "File upload failed: " + (error instanceof Error ? error.message : 'Unknown error') },
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server"
+import { getUserById } from "@/lib/auth"
+import { followUser, getFollowRelationship, getUserStats, unfollowUser } from "@/lib/content"
+import { withAuth } from "@/lib/request-auth"
+
+async function handleFollowChange(
+  userId: number,
+  targetParam: string,
+  action: 'follow' | 'unfollow'
+) {
+  const targetId = parseInt(targetParam)
+  if (isNaN(targetId)) {
+    return NextResponse.json({ error: "Invalid user ID" }, { status: 400 })
+  }
+
+  if (userId === targetId) {
+    return NextResponse.json({ error: "You cannot follow yourself" }, { status: 400 })
+  }
+
+  const target = await getUserById(targetId)
+  if (!target) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 })
+  }
+
+  const ok = action === 'follow'
+    ? await followUser(userId, targetId)
+    : await unfollowUser(userId, targetId)
+
+  if (!ok) {
+    return NextResponse.json({ error: `Failed to ${action} user` }, { status: 500 })
+  }
+
+  const relationship = await getFollowRelationship(userId, targetId)
+  const stats = await getUserStats(targetId)
+
+  return NextResponse.json({
+    success: true,
+    relationship: {
+      isFollowing: relationship.is_following,
+      isFollowedBy: relationship.is_followed_by,
+      isMutual: relationship.is_mutual
+    },
+    stats
+  })
+}
+
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    return await handleFollowChange(user.id, params.id, 'follow')
+  } catch (error) {
+    console.error('Error following user:', error)
+    return NextResponse.json(
+      { error: "Failed to follow user: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
+
+export const DELETE = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    return await handleFollowChange(user.id, params.id, 'unfollow')
+  } catch (error) {
+    console.error('Error unfollowing user:', error)
+    return NextResponse.json(
+      { error: "Failed to unfollow user: " + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    )
+  }
+})
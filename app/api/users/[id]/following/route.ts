@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getFollowing } from "@/lib/content"
+import { getAuthUser } from "@/lib/request-auth"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = parseInt(params.id)
+    if (isNaN(userId)) {
+      return NextResponse.json({ error: "Invalid user ID" }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 50) // Cap at 50
+    const offset = parseInt(searchParams.get('offset') || '0')
+
+    // Signing in is optional; it adds the viewer's relationship fields
+    const viewerId = (await getAuthUser(request))?.id
+
+    // Fetch one extra row to know whether another page exists
+    const rows = await getFollowing(userId, viewerId, limit + 1, offset)
+    const hasMore = rows.length > limit
+
+    const users = rows.slice(0, limit).map(user => ({
+      id: user.id.toString(),
+      username: user.username,
+      profilePic: user.profile_pic || "/placeholder.svg",
+      bio: user.bio,
+      followedAt: user.followed_at,
+      isFollowing: user.is_following,
+      followsYou: user.follows_viewer,
+      isMutual: user.is_mutual
+    }))
+
+    return NextResponse.json({
+      success: true,
+      users,
+      nextOffset: hasMore ? offset + limit : null
+    })
+
+  } catch (error) {
+    console.error('Error fetching following:', error)
+    return NextResponse.json(
+      { error: "Failed to fetch following" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { setUserRole } from "@/lib/auth"
+import { isUserRole, USER_ROLES } from "@/lib/permissions"
+import { requirePermission } from "@/lib/request-auth"
+
+export const PATCH = requirePermission<{ id: string }>('users:manage_roles', async (request, { params, user }) => {
+  const targetId = parseInt(params.id)
+  if (isNaN(targetId)) {
+    return NextResponse.json({ error: "Invalid user ID" }, { status: 400 })
+  }
+
+  // An admin demoting themselves could leave nobody able to undo it
+  if (targetId === user.id) {
+    return NextResponse.json({ error: "You cannot change your own role" }, { status: 400 })
+  }
+
+  const { role } = await request.json()
+  if (!isUserRole(role)) {
+    return NextResponse.json({ error: `Role must be one of: ${USER_ROLES.join(', ')}` }, { status: 400 })
+  }
+
+  const updated = await setUserRole(targetId, role)
+  if (!updated) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 })
+  }
+
+  console.log(`Admin ${user.username} set ${updated.username}'s role to ${role}`)
+
+  return NextResponse.json({
+    success: true,
+    user: {
+      id: updated.id.toString(),
+      username: updated.username,
+      role: updated.role
+    }
+  })
+})
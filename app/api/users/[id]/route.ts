@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getUserById } from "@/lib/auth"
+import { getFollowRelationship, getUserStats } from "@/lib/content"
+import { getAuthUser } from "@/lib/request-auth"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = parseInt(params.id)
+    if (isNaN(userId)) {
+      return NextResponse.json({ error: "Invalid user ID" }, { status: 400 })
+    }
+
+    // Signing in is optional; it adds the viewer's relationship fields
+    const viewerId = (await getAuthUser(request))?.id
+
+    const user = await getUserById(userId)
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const stats = await getUserStats(userId)
+    const relationship = viewerId && viewerId !== userId
+      ? await getFollowRelationship(viewerId, userId)
+      : null
+
+    return NextResponse.json({
+      success: true,
+      user: {
+        id: user.id.toString(),
+        username: user.username,
+        profilePic: user.profile_pic || "/placeholder.svg",
+        bio: user.bio
+      },
+      stats,
+      relationship: relationship && {
+        isFollowing: relationship.is_following,
+        isFollowedBy: relationship.is_followed_by,
+        isMutual: relationship.is_mutual
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching user profile:', error)
+    return NextResponse.json(
+      { error: "Failed to fetch user profile" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,13 +1,14 @@
-import { NextRequest, NextResponse } from "next/server"
+import { NextResponse } from "next/server"
 import { getDatabase } from "@/lib/database"
+import { withMaintenanceAccess } from "@/lib/request-auth"
 
-export async function GET(request: NextRequest) {
+export const GET = withMaintenanceAccess(async () => {
   try {
     const db = await getDatabase()
     
     // Get all tables data
     const users = await new Promise((resolve, reject) => {
-      db.all("SELECT id, username, email, profile_pic, bio, created_at FROM users", (err: any, rows: any) => {
+      db.all("SELECT id, username, email, profile_pic, bio, role, created_at FROM users", (err: any, rows: any) => {
         if (err) reject(err)
         else resolve(rows)
       })
@@ -65,7 +66,7 @@ export async function GET(request: NextRequest) {
 
     const sessions = await new Promise((resolve, reject) => {
       db.all(`
-        SELECT s.*, u.username 
+        SELECT s.user_id, s.created_at, s.expires_at, s.last_seen_at, s.user_agent, s.ip_address, u.username 
         FROM sessions s 
         LEFT JOIN users u ON s.user_id = u.id 
         ORDER BY s.created_at DESC
@@ -116,4 +117,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
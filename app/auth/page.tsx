@@ -9,6 +9,7 @@ import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Label } from "@/components/ui/label"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
 import { Eye, EyeOff, Shield } from "lucide-react"
 import { ThemeSwitcher } from "@/components/theme-switcher"
 
@@ -23,6 +24,10 @@ export default function AuthPage() {
   })
   const [isLoading, setIsLoading] = useState(false)
   const [mounted, setMounted] = useState(false)
+  // Set once the password is accepted for an account with 2FA
+  const [challengeToken, setChallengeToken] = useState<string | null>(null)
+  const [twoFactorCode, setTwoFactorCode] = useState("")
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
   const router = useRouter()
 
   useEffect(() => {
@@ -89,15 +94,12 @@ export default function AuthPage() {
 
       const data = await response.json()
 
-      if (data.success) {
-        // Store user data and token
-        localStorage.setItem("currentUser", JSON.stringify(data.user))
-        localStorage.setItem("authToken", data.token)
-
+      if (data.twoFactorRequired) {
+        setChallengeToken(data.challengeToken)
+        setTwoFactorCode("")
+      } else if (data.success) {
+        completeSignIn(data.user)
         console.log(isLogin ? 'Login successful' : 'Registration successful', data.user)
-        
-        // Redirect to home page
-        router.push("/")
       } else {
         alert(data.error || 'Authentication failed')
       }
@@ -109,6 +111,46 @@ export default function AuthPage() {
     }
   }
 
+  const completeSignIn = (user: any) => {
+    // The session itself lives in an HttpOnly cookie; only the profile is kept client-side
+    localStorage.setItem("currentUser", JSON.stringify(user))
+    localStorage.removeItem("authToken")
+
+    // Moderators have to set up 2FA before they can do anything else
+    router.push(user.twoFactorSetupRequired ? "/profile" : "/")
+  }
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ challengeToken, code: twoFactorCode }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        completeSignIn(data.user)
+      } else {
+        alert(data.error || 'Authentication failed')
+        setTwoFactorCode("")
+        if (data.challengeExpired) {
+          setChallengeToken(null)
+        }
+      }
+    } catch (error) {
+      console.error('Two-factor error:', error)
+      alert('Network error. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData({
       ...formData,
@@ -149,6 +191,65 @@ export default function AuthPage() {
           </CardHeader>
 
         <CardContent>
+          {challengeToken ? (
+            <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+              <div className="space-y-2 text-center">
+                <Label htmlFor="two-factor-code">
+                  {useRecoveryCode ? "Enter one of your recovery codes" : "Enter the 6-digit code from your authenticator app"}
+                </Label>
+                {useRecoveryCode ? (
+                  <Input
+                    id="two-factor-code"
+                    placeholder="xxxxx-xxxxx"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    autoComplete="off"
+                    required
+                  />
+                ) : (
+                  <div className="flex justify-center">
+                    <InputOTP id="two-factor-code" maxLength={6} value={twoFactorCode} onChange={setTwoFactorCode} autoFocus>
+                      <InputOTPGroup>
+                        {[0, 1, 2, 3, 4, 5].map(index => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                )}
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading || (!useRecoveryCode && twoFactorCode.length < 6)}
+              >
+                {isLoading ? "Verifying..." : "Verify"}
+              </Button>
+
+              <div className="flex justify-between">
+                <Button
+                  type="button"
+                  variant="link"
+                  className="px-0 text-sm"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode)
+                    setTwoFactorCode("")
+                  }}
+                >
+                  {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="link"
+                  className="px-0 text-sm"
+                  onClick={() => setChallengeToken(null)}
+                >
+                  Back
+                </Button>
+              </div>
+            </form>
+          ) : (
           <Tabs value={isLogin ? "login" : "register"} onValueChange={(value) => setIsLogin(value === "login")}>
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="login">Login</TabsTrigger>
@@ -197,6 +298,15 @@ export default function AuthPage() {
                 <Button type="submit" className="w-full" disabled={isLoading}>
                   {isLoading ? "Signing In..." : "Sign In"}
                 </Button>
+
+                <Button
+                  type="button"
+                  variant="link"
+                  className="w-full text-sm"
+                  onClick={() => router.push("/auth/reset-password")}
+                >
+                  Forgot your password?
+                </Button>
               </form>
             </TabsContent>
 
@@ -238,6 +348,7 @@ export default function AuthPage() {
                       placeholder="Create a password"
                       value={formData.password}
                       onChange={handleInputChange}
+                      minLength={10}
                       required
                     />
                     <Button
@@ -250,6 +361,9 @@ export default function AuthPage() {
                       {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                     </Button>
                   </div>
+                  <p className="text-xs text-muted-foreground">
+                    At least 10 characters. Avoid common passwords and your username.
+                  </p>
                 </div>
 
                 <div className="space-y-2">
@@ -271,10 +385,7 @@ export default function AuthPage() {
               </form>
             </TabsContent>
           </Tabs>
-
-          <div className="mt-6 text-center">
-            <p className="text-sm text-muted-foreground">Demo credentials: Any username/password combination will work</p>
-          </div>
+          )}
         </CardContent>
       </Card>
       </div>
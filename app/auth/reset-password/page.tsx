@@ -0,0 +1,164 @@
+"use client"
+
+import type React from "react"
+
+import { Suspense, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+
+// Without a token this asks for an email to send the link to; the emailed
+// link comes back here with ?token= to choose the new password
+function ResetPassword() {
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const token = searchParams.get("token")
+  const [email, setEmail] = useState("")
+  const [password, setPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const handleRequestLink = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to send reset link')
+
+      setMessage(data.message)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send reset link')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (password !== confirmPassword) {
+      setError("Passwords don't match")
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to reset password')
+
+      // Every session was ended, so sign in again with the new password
+      localStorage.removeItem("currentUser")
+      setMessage("Your password has been changed. Sign in with your new password.")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset password')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card className="glass border border-border/50 shadow-2xl w-full max-w-md">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl">{token ? "Choose a new password" : "Reset your password"}</CardTitle>
+        <CardDescription>
+          {token
+            ? "At least 10 characters. Avoid common passwords and your username."
+            : "We'll email you a link to choose a new password."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {message ? (
+          <>
+            <Alert>
+              <AlertDescription>{message}</AlertDescription>
+            </Alert>
+            <Button className="w-full" onClick={() => router.push("/auth")}>
+              Back to sign in
+            </Button>
+          </>
+        ) : token ? (
+          <form onSubmit={handleReset} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-password">New password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                minLength={10}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-new-password">Confirm new password</Label>
+              <Input
+                id="confirm-new-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? "Saving..." : "Change password"}
+            </Button>
+          </form>
+        ) : (
+          <form onSubmit={handleRequestLink} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reset-email">Email</Label>
+              <Input
+                id="reset-email"
+                type="email"
+                placeholder="Enter your account email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? "Sending..." : "Send reset link"}
+            </Button>
+            <Button type="button" variant="ghost" className="w-full" onClick={() => router.push("/auth")}>
+              Back to sign in
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen gradient-bg flex items-center justify-center p-4">
+      <Suspense>
+        <ResetPassword />
+      </Suspense>
+    </div>
+  )
+}
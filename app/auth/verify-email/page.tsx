@@ -0,0 +1,87 @@
+"use client"
+
+import { Suspense, useEffect, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { CheckCircle, Shield, XCircle } from "lucide-react"
+
+function VerifyEmail() {
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const token = searchParams.get("token")
+  const [status, setStatus] = useState<"verifying" | "verified" | "failed">("verifying")
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!token) {
+      setStatus("failed")
+      setError("This verification link is missing its token")
+      return
+    }
+
+    fetch('/api/auth/verify-email', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token })
+    })
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Verification failed')
+
+        // Keep the cached profile in step if this browser is signed in
+        const user = localStorage.getItem("currentUser")
+        if (user) {
+          localStorage.setItem("currentUser", JSON.stringify({ ...JSON.parse(user), emailVerified: true }))
+        }
+        setStatus("verified")
+      })
+      .catch((err) => {
+        setStatus("failed")
+        setError(err instanceof Error ? err.message : 'Verification failed')
+      })
+  }, [token])
+
+  return (
+    <Card className="glass border border-border/50 shadow-2xl w-full max-w-md">
+      <CardHeader className="text-center">
+        <div className="flex justify-center mb-2">
+          {status === "verified" ? (
+            <CheckCircle className="h-10 w-10 text-green-500" />
+          ) : status === "failed" ? (
+            <XCircle className="h-10 w-10 text-red-500" />
+          ) : (
+            <Shield className="h-10 w-10 text-purple-500 animate-pulse" />
+          )}
+        </div>
+        <CardTitle className="text-2xl">
+          {status === "verified" ? "Email verified" : status === "failed" ? "Verification failed" : "Verifying your email..."}
+        </CardTitle>
+        <CardDescription>
+          {status === "verified"
+            ? "Thanks for confirming your email address."
+            : status === "failed"
+              ? error
+              : "This only takes a moment."}
+        </CardDescription>
+      </CardHeader>
+      {status !== "verifying" && (
+        <CardContent>
+          <Button className="w-full" onClick={() => router.push("/")}>
+            Continue to SocialGuard
+          </Button>
+        </CardContent>
+      )}
+    </Card>
+  )
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen gradient-bg flex items-center justify-center p-4">
+      <Suspense>
+        <VerifyEmail />
+      </Suspense>
+    </div>
+  )
+}
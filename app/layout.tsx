@@ -3,6 +3,7 @@ import { GeistSans } from 'geist/font/sans'
 import { GeistMono } from 'geist/font/mono'
 import './globals.css'
 import { ThemeProvider } from '@/components/theme-provider'
+import { Toaster } from '@/components/ui/toaster'
 
 export const metadata: Metadata = {
   title: 'SocialGuard - AI-Powered Social Media Protection',
@@ -29,6 +30,7 @@ html {
       <body className={`${GeistSans.variable} ${GeistMono.variable}`} suppressHydrationWarning>
         <ThemeProvider>
           {children}
+          <Toaster />
         </ThemeProvider>
       </body>
     </html>
@@ -0,0 +1,689 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { ArrowLeft, Gavel, Check, X, AlertTriangle, Flag, Scale, BadgeCheck, Paperclip } from "lucide-react"
+import { ThemeSwitcher } from "@/components/theme-switcher"
+import { toast } from "@/hooks/use-toast"
+
+type QueueStatus = 'pending_review' | 'approved' | 'rejected'
+
+type ModerationTab = QueueStatus | 'reports' | 'appeals'
+
+interface ModerationItem {
+  contentType: 'post' | 'story'
+  id: string
+  user: {
+    id: string
+    username: string
+    profilePic: string
+  }
+  mediaUrl: string
+  mediaType: string
+  caption: string | null
+  deepfakeScore: number
+  riskLevel: 'low' | 'medium' | 'high'
+  aiConfirmed: boolean
+  analysisResult: any
+  status: QueueStatus
+  reason: 'high_risk' | 'reported' | null
+  flaggedAt: string | null
+  verdict: 'authentic' | 'manipulated' | null
+  createdAt: string
+  reports: {
+    count: number
+    reasons: string[]
+  }
+  decision: {
+    decidedAt: string
+    moderator: string | null
+    note: string | null
+  } | null
+}
+
+const PAGE_SIZE = 20
+
+// Escalated reports against a comment or profile
+interface ReportedTarget {
+  targetType: 'comment' | 'user'
+  targetId: string
+  reportCount: number
+  reasons: string[]
+  firstReportedAt: string
+  user: {
+    username: string
+    profilePic: string
+  } | null
+  content: string | null
+  postId: string | null
+  reports: {
+    id: string
+    reporter: string | null
+    reason: string
+    details: string | null
+    createdAt: string
+  }[]
+}
+
+// A creator's appeal, with the content and detector output it contests
+interface Appeal {
+  id: string
+  contentType: 'post' | 'story'
+  contentId: string
+  user: {
+    id: string
+    username: string
+    profilePic: string
+  }
+  explanation: string
+  evidenceUrl: string | null
+  status: 'pending' | 'accepted' | 'denied'
+  createdAt: string
+  content: {
+    mediaUrl: string
+    mediaType: string
+    caption: string | null
+    deepfakeScore: number
+    riskLevel: 'low' | 'medium' | 'high'
+    analysisResult: any
+    moderationStatus: QueueStatus | 'published'
+    verdict: 'authentic' | 'manipulated' | null
+  }
+}
+
+const REASON_LABELS: Record<string, string> = {
+  high_risk: 'High deepfake risk',
+  reported: 'Reported by users',
+}
+
+const REPORT_REASON_LABELS: Record<string, string> = {
+  deepfake: 'Deepfake',
+  impersonation: 'Impersonation',
+  harassment: 'Harassment',
+  spam: 'Spam',
+}
+
+// The stored analysis is whatever the analyzer returned, so pick out the
+// fields moderators care about and show the rest raw
+function AnalysisSummary({ analysis }: { analysis: any }) {
+  if (!analysis) {
+    return <p className="text-sm text-muted-foreground">No analysis was stored for this upload.</p>
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-foreground">
+        {analysis.backendInfo?.prediction && (
+          <span>Model: <strong>{analysis.backendInfo.prediction}</strong> ({Math.round((analysis.backendInfo.confidence || 0) * 100)}%)</span>
+        )}
+        {typeof analysis.confidence === 'number' && <span>Confidence: <strong>{analysis.confidence}%</strong></span>}
+        {typeof analysis.isDeepfake === 'boolean' && <span>Deepfake: <strong>{analysis.isDeepfake ? 'Yes' : 'No'}</strong></span>}
+      </div>
+      {analysis.recommendations?.length > 0 && (
+        <ul className="list-disc pl-5 text-muted-foreground">
+          {analysis.recommendations.map((recommendation: string, index: number) => (
+            <li key={index}>{recommendation}</li>
+          ))}
+        </ul>
+      )}
+      <details>
+        <summary className="cursor-pointer text-muted-foreground">Full analysis result</summary>
+        <pre className="mt-2 max-h-64 overflow-auto rounded bg-muted p-2 text-xs">
+          {JSON.stringify(analysis, null, 2)}
+        </pre>
+      </details>
+    </div>
+  )
+}
+
+function ModerationCard({ item, onDecided }: { item: ModerationItem; onDecided: (item: ModerationItem) => void }) {
+  const [note, setNote] = useState('')
+  const [isPending, setIsPending] = useState(false)
+
+  const decide = async (decision: 'approved' | 'rejected') => {
+    setIsPending(true)
+    try {
+      const response = await fetch(`/api/moderation/${item.contentType}/${item.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, note })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || `Status ${response.status}`)
+
+      onDecided(data.item)
+    } catch (error) {
+      toast({
+        title: 'Decision not saved',
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  const isVideo = item.mediaType === 'video'
+
+  return (
+    <Card className="overflow-hidden border border-border/50 shadow-lg">
+      <div className="grid md:grid-cols-2">
+        <div className="bg-black">
+          {isVideo ? (
+            <video src={item.mediaUrl} className="w-full aspect-square object-contain" controls muted playsInline />
+          ) : (
+            <img src={item.mediaUrl || "/placeholder.svg"} alt="Flagged content" className="w-full aspect-square object-contain" />
+          )}
+        </div>
+
+        <CardContent className="p-4 space-y-4">
+          <div className="flex items-center gap-3">
+            <Avatar>
+              <AvatarImage src={item.user.profilePic} />
+              <AvatarFallback>{item.user.username[0].toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              <p className="font-semibold text-foreground truncate">{item.user.username}</p>
+              <p className="text-xs text-muted-foreground">
+                {item.contentType === 'post' ? 'Post' : 'Story'} · {new Date(item.createdAt).toLocaleString()}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Badge variant={item.riskLevel === 'high' ? 'destructive' : 'secondary'}>
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              {item.riskLevel.toUpperCase()} risk · {item.deepfakeScore}%
+            </Badge>
+            {item.reason && (
+              <Badge variant="outline">
+                <Flag className="h-3 w-3 mr-1" />
+                {REASON_LABELS[item.reason] || item.reason}
+              </Badge>
+            )}
+            {item.aiConfirmed && <Badge variant="outline">Uploader confirmed the AI warning</Badge>}
+            {item.verdict && (
+              <Badge variant="outline">
+                {item.verdict === 'authentic' ? 'Verified authentic on appeal' : 'Confirmed manipulated on appeal'}
+              </Badge>
+            )}
+            {item.reports.count > 0 && (
+              <Badge variant="outline">
+                {item.reports.count} open report{item.reports.count === 1 ? '' : 's'}:{' '}
+                {item.reports.reasons.map(reason => REPORT_REASON_LABELS[reason] || reason).join(', ')}
+              </Badge>
+            )}
+          </div>
+
+          {item.caption && <p className="text-sm text-foreground">{item.caption}</p>}
+
+          <AnalysisSummary analysis={item.analysisResult} />
+
+          {item.status === 'pending_review' ? (
+            <div className="space-y-2">
+              <Textarea
+                placeholder="Note for the audit log (optional)"
+                value={note}
+                maxLength={500}
+                onChange={(event) => setNote(event.target.value)}
+              />
+              <div className="flex gap-2">
+                <Button className="flex-1" disabled={isPending} onClick={() => decide('approved')}>
+                  <Check className="h-4 w-4 mr-2" />
+                  Approve
+                </Button>
+                <Button variant="destructive" className="flex-1" disabled={isPending} onClick={() => decide('rejected')}>
+                  <X className="h-4 w-4 mr-2" />
+                  Reject
+                </Button>
+              </div>
+            </div>
+          ) : item.decision && (
+            <div className="rounded-lg bg-muted p-3 text-sm">
+              <p className="text-foreground">
+                {item.status === 'approved' ? 'Approved' : 'Rejected'} by {item.decision.moderator || 'a former moderator'} on{' '}
+                {new Date(item.decision.decidedAt).toLocaleString()}
+              </p>
+              {item.decision.note && <p className="mt-1 text-muted-foreground">{item.decision.note}</p>}
+            </div>
+          )}
+        </CardContent>
+      </div>
+    </Card>
+  )
+}
+
+function ReportedTargetCard({ target, onClosed }: { target: ReportedTarget; onClosed: (target: ReportedTarget) => void }) {
+  const [note, setNote] = useState('')
+  const [isPending, setIsPending] = useState(false)
+
+  const close = async (action: 'dismiss' | 'resolve' | 'remove') => {
+    setIsPending(true)
+    try {
+      const response = await fetch(`/api/moderation/reports/${target.targetType}/${target.targetId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, note })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || `Status ${response.status}`)
+
+      onClosed(target)
+    } catch (error) {
+      toast({
+        title: 'Reports not updated',
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  return (
+    <Card className="border border-border/50 shadow-lg">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center gap-3">
+          <Avatar>
+            <AvatarImage src={target.user?.profilePic} />
+            <AvatarFallback>{target.user?.username[0].toUpperCase() || '?'}</AvatarFallback>
+          </Avatar>
+          <div className="min-w-0">
+            <p className="font-semibold text-foreground truncate">
+              {target.targetType === 'user' ? `Profile @${target.user?.username}` : `Comment by ${target.user?.username || 'a deleted user'}`}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              First reported {new Date(target.firstReportedAt).toLocaleString()}
+            </p>
+          </div>
+        </div>
+
+        {target.content && (
+          <p className="rounded-lg bg-muted p-3 text-sm text-foreground break-words">{target.content}</p>
+        )}
+        {target.targetType === 'comment' && !target.content && (
+          <p className="text-sm text-muted-foreground">This comment has already been deleted.</p>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-foreground">
+            {target.reportCount} report{target.reportCount === 1 ? '' : 's'}
+          </p>
+          {target.reports.map(report => (
+            <div key={report.id} className="text-sm">
+              <Badge variant="outline" className="mr-2">{REPORT_REASON_LABELS[report.reason] || report.reason}</Badge>
+              <span className="text-muted-foreground">{report.reporter || 'deleted user'}</span>
+              {report.details && <p className="mt-1 text-muted-foreground">{report.details}</p>}
+            </div>
+          ))}
+        </div>
+
+        <Textarea
+          placeholder="Note for the audit log (optional)"
+          value={note}
+          maxLength={500}
+          onChange={(event) => setNote(event.target.value)}
+        />
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" disabled={isPending} onClick={() => close('dismiss')}>
+            Dismiss
+          </Button>
+          {target.targetType === 'comment' ? (
+            <Button variant="destructive" className="flex-1" disabled={isPending} onClick={() => close('remove')}>
+              Remove comment
+            </Button>
+          ) : (
+            <Button className="flex-1" disabled={isPending} onClick={() => close('resolve')}>
+              Mark handled
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function AppealCard({ appeal, onDecided }: { appeal: Appeal; onDecided: (appeal: Appeal) => void }) {
+  const [note, setNote] = useState('')
+  const [isPending, setIsPending] = useState(false)
+
+  const decide = async (decision: 'accepted' | 'denied') => {
+    setIsPending(true)
+    try {
+      const response = await fetch(`/api/moderation/appeals/${appeal.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, note })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || `Status ${response.status}`)
+
+      onDecided(data.appeal)
+    } catch (error) {
+      toast({
+        title: 'Decision not saved',
+        description: error instanceof Error ? error.message : 'Something went wrong',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  const { content } = appeal
+
+  return (
+    <Card className="overflow-hidden border border-border/50 shadow-lg">
+      <div className="grid md:grid-cols-2">
+        <div className="bg-black">
+          {content.mediaType === 'video' ? (
+            <video src={content.mediaUrl} className="w-full aspect-square object-contain" controls muted playsInline />
+          ) : (
+            <img src={content.mediaUrl || "/placeholder.svg"} alt="Appealed content" className="w-full aspect-square object-contain" />
+          )}
+        </div>
+
+        <CardContent className="p-4 space-y-4">
+          <div className="flex items-center gap-3">
+            <Avatar>
+              <AvatarImage src={appeal.user.profilePic} />
+              <AvatarFallback>{appeal.user.username[0].toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              <p className="font-semibold text-foreground truncate">{appeal.user.username}</p>
+              <p className="text-xs text-muted-foreground">
+                Appealed their {appeal.contentType} · {new Date(appeal.createdAt).toLocaleString()}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Badge variant={content.riskLevel === 'high' ? 'destructive' : 'secondary'}>
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              {content.riskLevel.toUpperCase()} risk · {content.deepfakeScore}%
+            </Badge>
+            {content.moderationStatus !== 'published' && (
+              <Badge variant="outline">{content.moderationStatus.replace('_', ' ')}</Badge>
+            )}
+          </div>
+
+          {content.caption && <p className="text-sm text-foreground">{content.caption}</p>}
+
+          <div className="rounded-lg bg-muted p-3 text-sm space-y-2">
+            <p className="font-medium text-foreground">Creator's explanation</p>
+            <p className="text-foreground whitespace-pre-wrap break-words">{appeal.explanation}</p>
+            {appeal.evidenceUrl && (
+              <a
+                href={appeal.evidenceUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 text-primary hover:underline break-all"
+              >
+                <Paperclip className="h-3 w-3 shrink-0" />
+                {appeal.evidenceUrl}
+              </a>
+            )}
+          </div>
+
+          <AnalysisSummary analysis={content.analysisResult} />
+
+          <Textarea
+            placeholder="Note for the creator and the audit log (optional)"
+            value={note}
+            maxLength={500}
+            onChange={(event) => setNote(event.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button className="flex-1" disabled={isPending} onClick={() => decide('accepted')}>
+              <BadgeCheck className="h-4 w-4 mr-2" />
+              Accept: authentic
+            </Button>
+            <Button variant="destructive" className="flex-1" disabled={isPending} onClick={() => decide('denied')}>
+              <X className="h-4 w-4 mr-2" />
+              Deny: manipulated
+            </Button>
+          </div>
+        </CardContent>
+      </div>
+    </Card>
+  )
+}
+
+export default function ModerationPage() {
+  const [currentUser, setCurrentUser] = useState<any>(null)
+  const [tab, setTab] = useState<ModerationTab>('pending_review')
+  const [items, setItems] = useState<ModerationItem[]>([])
+  const [reportedTargets, setReportedTargets] = useState<ReportedTarget[]>([])
+  const [appeals, setAppeals] = useState<Appeal[]>([])
+  const [pendingCount, setPendingCount] = useState(0)
+  const [escalatedCount, setEscalatedCount] = useState<number | null>(null)
+  const [pendingAppealCount, setPendingAppealCount] = useState<number | null>(null)
+  const [nextOffset, setNextOffset] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const router = useRouter()
+
+  const loadItems = useCallback(async (queueStatus: QueueStatus, offset = 0) => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ status: queueStatus, limit: String(PAGE_SIZE), offset: String(offset) })
+      const response = await fetch(`/api/moderation?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setItems(prevItems => offset ? [...prevItems, ...data.items] : data.items)
+        setPendingCount(data.pendingCount)
+        setNextOffset(data.nextOffset)
+      }
+    } catch (error) {
+      console.error('Error loading moderation queue:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const loadReports = useCallback(async (offset = 0) => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) })
+      const response = await fetch(`/api/moderation/reports?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setReportedTargets(prevTargets => offset ? [...prevTargets, ...data.targets] : data.targets)
+        setEscalatedCount(data.escalatedCount)
+        setNextOffset(data.nextOffset)
+      }
+    } catch (error) {
+      console.error('Error loading reports:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const loadAppeals = useCallback(async (offset = 0) => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ status: 'pending', limit: String(PAGE_SIZE), offset: String(offset) })
+      const response = await fetch(`/api/moderation/appeals?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setAppeals(prevAppeals => offset ? [...prevAppeals, ...data.appeals] : data.appeals)
+        setPendingAppealCount(data.pendingCount)
+        setNextOffset(data.nextOffset)
+      }
+    } catch (error) {
+      console.error('Error loading appeals:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    const checkAccess = async () => {
+      let userData = null
+      try {
+        const response = await fetch('/api/auth/me')
+        if (response.ok) {
+          userData = (await response.json()).user
+        }
+      } catch (error) {
+        console.warn('Failed to check session:', error)
+      }
+
+      if (!userData) {
+        router.push("/auth")
+        return
+      }
+      if (userData.twoFactorSetupRequired) {
+        router.push("/profile")
+        return
+      }
+      if (!userData.permissions?.includes('content:moderate')) {
+        router.push("/")
+        return
+      }
+
+      setCurrentUser(userData)
+      loadItems('pending_review')
+    }
+
+    checkAccess()
+  }, [router, loadItems])
+
+  const handleTabChange = (value: string) => {
+    const nextTab = value as ModerationTab
+    setTab(nextTab)
+    setItems([])
+    setReportedTargets([])
+    setAppeals([])
+    if (nextTab === 'reports') {
+      loadReports()
+    } else if (nextTab === 'appeals') {
+      loadAppeals()
+    } else {
+      loadItems(nextTab)
+    }
+  }
+
+  const loadMore = () => {
+    if (nextOffset === null) return
+    if (tab === 'reports') {
+      loadReports(nextOffset)
+    } else if (tab === 'appeals') {
+      loadAppeals(nextOffset)
+    } else {
+      loadItems(tab, nextOffset)
+    }
+  }
+
+  // Decided items leave the pending queue
+  const handleDecided = (decided: ModerationItem) => {
+    setItems(prevItems => prevItems.filter(item =>
+      !(item.id === decided.id && item.contentType === decided.contentType)
+    ))
+    setPendingCount(count => Math.max(count - 1, 0))
+    // The next page starts one row earlier now that this one has left
+    setNextOffset(offset => offset === null ? null : Math.max(offset - 1, 0))
+    toast({ title: decided.status === 'approved' ? 'Approved' : 'Rejected', description: `${decided.user.username}'s ${decided.contentType}` })
+  }
+
+  const handleReportsClosed = (closed: ReportedTarget) => {
+    setReportedTargets(prevTargets => prevTargets.filter(target =>
+      !(target.targetId === closed.targetId && target.targetType === closed.targetType)
+    ))
+    setEscalatedCount(count => count === null ? null : Math.max(count - 1, 0))
+    setNextOffset(offset => offset === null ? null : Math.max(offset - 1, 0))
+  }
+
+  const handleAppealDecided = (decided: Appeal) => {
+    setAppeals(prevAppeals => prevAppeals.filter(appeal => appeal.id !== decided.id))
+    setPendingAppealCount(count => count === null ? null : Math.max(count - 1, 0))
+    setNextOffset(offset => offset === null ? null : Math.max(offset - 1, 0))
+    toast({
+      title: decided.status === 'accepted' ? 'Appeal accepted' : 'Appeal denied',
+      description: `${decided.user.username}'s ${decided.contentType} is now marked ${decided.content.verdict}`
+    })
+  }
+
+  if (!currentUser) {
+    return null
+  }
+
+  const isEmpty = tab === 'reports' ? reportedTargets.length === 0
+    : tab === 'appeals' ? appeals.length === 0
+    : items.length === 0
+
+  return (
+    <div className="min-h-screen gradient-bg">
+      <header className="glass border-b sticky top-0 z-40">
+        <div className="max-w-4xl mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href="/">
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <h1 className="text-xl font-bold flex items-center gap-2 text-foreground">
+              <Gavel className="h-5 w-5" />
+              Moderation
+            </h1>
+          </div>
+          <ThemeSwitcher />
+        </div>
+      </header>
+
+      <div className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+        <Tabs value={tab} onValueChange={handleTabChange}>
+          <TabsList className="grid w-full grid-cols-5">
+            <TabsTrigger value="pending_review">Pending ({pendingCount})</TabsTrigger>
+            <TabsTrigger value="reports">Reports{escalatedCount !== null && ` (${escalatedCount})`}</TabsTrigger>
+            <TabsTrigger value="appeals">
+              <Scale className="h-4 w-4 mr-1" />
+              Appeals{pendingAppealCount !== null && ` (${pendingAppealCount})`}
+            </TabsTrigger>
+            <TabsTrigger value="approved">Approved</TabsTrigger>
+            <TabsTrigger value="rejected">Rejected</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {items.map(item => (
+          <ModerationCard key={`${item.contentType}-${item.id}`} item={item} onDecided={handleDecided} />
+        ))}
+
+        {reportedTargets.map(target => (
+          <ReportedTargetCard
+            key={`${target.targetType}-${target.targetId}`}
+            target={target}
+            onClosed={handleReportsClosed}
+          />
+        ))}
+
+        {appeals.map(appeal => (
+          <AppealCard key={appeal.id} appeal={appeal} onDecided={handleAppealDecided} />
+        ))}
+
+        {!isLoading && isEmpty && (
+          <p className="text-center text-muted-foreground py-12">
+            {tab === 'pending_review' ? 'Nothing is waiting for review.'
+              : tab === 'reports' ? 'No escalated reports about comments or profiles.'
+              : tab === 'appeals' ? 'No appeals are waiting.'
+              : 'No decisions yet.'}
+          </p>
+        )}
+
+        {nextOffset !== null && (
+          <div className="flex justify-center">
+            <Button variant="outline" disabled={isLoading} onClick={loadMore}>
+              {isLoading ? 'Loading...' : 'Load more'}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -336,7 +336,13 @@ export default function HomePage() {
         onStoryCreated={handleStoryCreated}
       />
 
-      {selectedStory && <StoryViewer story={selectedStory} onClose={() => setSelectedStory(null)} />}
+      {selectedStory && (
+        <StoryViewer
+          groups={[{ user: selectedStory.user, stories: [selectedStory] }]}
+          initialGroupIndex={0}
+          onClose={() => setSelectedStory(null)}
+        />
+      )}
 
       {isMessagingOpen && <MessagingPanel onClose={() => setIsMessagingOpen(false)} />}
     </div>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
@@ -12,13 +12,19 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
-import { Heart, MessageCircle, Share, Bookmark, MoreHorizontal, Camera, Send, Shield, AlertTriangle, Plus, Trash2 } from "lucide-react"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Heart, MessageCircle, Share, Bookmark, MoreHorizontal, Camera, Send, Shield, AlertTriangle, Plus, Trash2, Gavel, EyeOff, Flag, UserX, Scale, BadgeCheck } from "lucide-react"
 import { CreatePostModal } from "@/components/create-post-modal"
 import { CreateStoryModal } from "@/components/create-story-modal"
 import { CameraModal } from "@/components/camera-modal"
-import { StoryViewer } from "@/components/story-viewer"
+import { StoryViewer, type StoryGroup } from "@/components/story-viewer"
 import { MessagingPanel } from "@/components/messaging-panel"
+import { CommentsDialog } from "@/components/comments-dialog"
+import { ReportDialog, type ReportTarget } from "@/components/report-dialog"
+import { AppealDialog, type AppealTarget } from "@/components/appeal-dialog"
 import { ThemeSwitcher } from "@/components/theme-switcher"
+import { useRealtime } from "@/hooks/use-realtime"
+import { toast } from "@/hooks/use-toast"
 
 interface Post {
   id: string
@@ -35,6 +41,12 @@ interface Post {
   comments: number
   timestamp: string
   isLiked: boolean
+  riskLevel?: 'low' | 'medium' | 'high'
+  // Held and rejected posts only ever reach their author
+  moderationStatus?: 'published' | 'pending_review' | 'approved' | 'rejected'
+  // A moderator's verdict replaces the detector's badge
+  verdict?: 'authentic' | 'manipulated' | null
+  appealStatus?: 'pending' | 'accepted' | 'denied' | null
 }
 
 interface Story {
@@ -45,20 +57,38 @@ interface Story {
     profilePic: string
   }
   mediaUrl: string
+  mediaType?: string
   timestamp: string
   viewed: boolean
+  isOwn?: boolean
   deepfakeScore?: number
   riskLevel?: 'low' | 'medium' | 'high'
+  moderationStatus?: 'published' | 'pending_review' | 'approved' | 'rejected'
+  verdict?: 'authentic' | 'manipulated' | null
+  appealStatus?: 'pending' | 'accepted' | 'denied' | null
 }
 
+type FeedMode = 'ranked' | 'following' | 'global'
+
+const FEED_PAGE_SIZE = 10
+
 export default function HomePage() {
   const [posts, setPosts] = useState<Post[]>([])
+  const [feed, setFeed] = useState<FeedMode>('ranked')
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
   const [stories, setStories] = useState<Story[]>([])
   const [isCreatePostOpen, setIsCreatePostOpen] = useState(false)
   const [isCreateStoryOpen, setIsCreateStoryOpen] = useState(false)
   const [isCameraOpen, setIsCameraOpen] = useState(false)
-  const [selectedStory, setSelectedStory] = useState<Story | null>(null)
+  // Groups are snapshotted on open so marking stories viewed doesn't reorder the player
+  const pendingLikes = useRef(new Set<string>())
+  const [commentsPost, setCommentsPost] = useState<Post | null>(null)
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null)
+  const [appealTarget, setAppealTarget] = useState<AppealTarget | null>(null)
+  const [storyPlayback, setStoryPlayback] = useState<{ groups: StoryGroup[]; index: number } | null>(null)
   const [isMessagingOpen, setIsMessagingOpen] = useState(false)
+  const [unreadMessages, setUnreadMessages] = useState(0)
   const [currentUser, setCurrentUser] = useState<any>(null)
   const [isLoading, setIsLoading] = useState(true)
   const router = useRouter()
@@ -79,26 +109,42 @@ export default function HomePage() {
     )
   }
 
+  const isHeld = (post: Post) =>
+    post.moderationStatus === 'pending_review' || post.moderationStatus === 'rejected'
+
+  // Same rule as the server: anything showing a warning badge or held back
+  const canAppeal = (post: Post) =>
+    !post.appealStatus && !post.verdict &&
+    (post.deepfakeScore > 20 || post.riskLevel === 'medium' || post.riskLevel === 'high' || isHeld(post))
+
   useEffect(() => {
     // Check authentication after component mounts to prevent hydration issues
-    const checkAuth = () => {
+    const checkAuth = async () => {
       if (typeof window === 'undefined') return
       
-      const user = localStorage.getItem("currentUser")
-      const token = localStorage.getItem("authToken")
-      
-      if (!user) {
+      // The session cookie is HttpOnly, so ask the server who we are
+      let userData = null
+      try {
+        const response = await fetch('/api/auth/me')
+        if (response.ok) {
+          userData = (await response.json()).user
+        }
+      } catch (error) {
+        console.warn('Failed to check session:', error)
+      }
+
+      if (!userData) {
+        localStorage.removeItem("currentUser")
         router.push("/auth")
         return
       }
       
-      const userData = JSON.parse(user)
-      setCurrentUser(userData)
-      
-      // Set a demo token if none exists
-      if (!token) {
-        localStorage.setItem("authToken", `demo-token-${userData.id}`)
+      localStorage.setItem("currentUser", JSON.stringify(userData))
+      if (userData.twoFactorSetupRequired) {
+        router.push("/profile")
+        return
       }
+      setCurrentUser(userData)
       
       setIsLoading(false)
       
@@ -111,80 +157,204 @@ export default function HomePage() {
     return () => clearTimeout(timer)
   }, [router])
 
-  const loadMockData = async () => {
-    try {
-      const token = localStorage.getItem('authToken')
-      if (token) {
-        const response = await fetch('/api/posts?limit=10&offset=0', {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
+  useRealtime((event) => {
+    switch (event.type) {
+      case 'message':
+        // The open panel keeps the badge in sync itself
+        if (!isMessagingOpen && event.message.senderId !== currentUser?.id) {
+          loadUnreadMessages()
+        }
+        break
+      case 'like':
+        setPosts(prevPosts => prevPosts.map(post =>
+          post.id === event.postId ? { ...post, likes: event.likes } : post
+        ))
+        if (event.liked) {
+          toast({ title: 'New like', description: `${event.username || 'Someone'} liked your post` })
+        }
+        break
+      case 'comment':
+        setPosts(prevPosts => prevPosts.map(post =>
+          post.id === event.postId ? { ...post, comments: event.comments } : post
+        ))
+        toast({ title: 'New comment', description: `${event.username || 'Someone'} commented on your post` })
+        break
+      case 'moderation_decision':
+        if (event.contentType === 'post') {
+          setPosts(prevPosts => prevPosts.map(post =>
+            post.id === event.contentId ? { ...post, moderationStatus: event.decision } : post
+          ))
+        }
+        toast({
+          title: event.decision === 'approved' ? 'Approved' : 'Removed by a moderator',
+          description: event.decision === 'approved'
+            ? `Your ${event.contentType} passed review and is now visible to everyone`
+            : `Your ${event.contentType} was rejected in review and stays hidden`,
+          variant: event.decision === 'approved' ? 'default' : 'destructive'
         })
-        
-        if (response.ok) {
-          const data = await response.json()
-          if (data.success && data.posts) {
-            setPosts(data.posts)
-            console.log('Loaded posts from database:', data.posts.length)
-          }
+        break
+      case 'appeal_decision':
+        if (event.contentType === 'post') {
+          setPosts(prevPosts => prevPosts.map(post =>
+            post.id === event.contentId
+              ? { ...post, appealStatus: event.decision, verdict: event.verdict, moderationStatus: event.moderationStatus }
+              : post
+          ))
+        }
+        toast({
+          title: event.decision === 'accepted' ? 'Appeal accepted' : 'Appeal denied',
+          description: event.decision === 'accepted'
+            ? `Your ${event.contentType} is now marked as authentic`
+            : `The flag on your ${event.contentType} stands`,
+          variant: event.decision === 'accepted' ? 'default' : 'destructive'
+        })
+        break
+      case 'analysis_complete':
+        toast({
+          title: 'Analysis finished',
+          description: `${event.filename}: ${String(event.riskLevel).toUpperCase()} risk (${event.confidence}% confidence)`,
+          variant: event.riskLevel === 'high' ? 'destructive' : 'default'
+        })
+        break
+    }
+  })
+
+  const loadPosts = async (feedMode: FeedMode, cursor?: string | null) => {
+    try {
+      const params = new URLSearchParams({ feed: feedMode, limit: String(FEED_PAGE_SIZE) })
+      if (cursor) params.set('cursor', cursor)
+
+      const response = await fetch(`/api/posts?${params}`)
+      
+      if (response.ok) {
+        const data = await response.json()
+        if (data.success && data.posts) {
+          setPosts(prevPosts => cursor ? [...prevPosts, ...data.posts] : data.posts)
+          setNextCursor(data.nextCursor)
+          console.log(`Loaded ${feedMode} posts from database:`, data.posts.length)
         }
       }
     } catch (error) {
       console.warn('Failed to load posts:', error)
-      setPosts([]) // Empty array on error
+      if (!cursor) setPosts([]) // Empty array on error
     }
+  }
+
+  const handleFeedChange = (value: string) => {
+    const feedMode = value as FeedMode
+    setFeed(feedMode)
+    setNextCursor(null)
+    loadPosts(feedMode)
+  }
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return
+    setIsLoadingMore(true)
+    await loadPosts(feed, nextCursor)
+    setIsLoadingMore(false)
+  }
+
+  const loadUnreadMessages = async () => {
+    try {
+      const response = await fetch('/api/messages/unread')
 
-    // Load stories (optimized - only essential ones)
-    const mockStories: Story[] = [
-      {
-        id: "1",
-        user: { id: "1", username: "alice_doe", profilePic: "/placeholder.svg?height=40&width=40" },
-        mediaUrl: "/placeholder.svg?height=600&width=400",
-        timestamp: "2h",
-        viewed: false,
-        riskLevel: "low"
+      if (response.ok) {
+        const data = await response.json()
+        setUnreadMessages(data.unreadCount || 0)
       }
-    ]
+    } catch (error) {
+      console.warn('Failed to load unread messages:', error)
+    }
+  }
 
-    setStories(mockStories)
+  const loadStories = async () => {
+    try {
+      const response = await fetch('/api/stories')
+
+      if (response.ok) {
+        const data = await response.json()
+        setStories(data.stories || [])
+      }
+    } catch (error) {
+      console.warn('Failed to load stories:', error)
+    }
   }
 
-  const handleLike = (postId: string) => {
-    setPosts(
-      posts.map((post) =>
-        post.id === postId
-          ? { ...post, isLiked: !post.isLiked, likes: post.isLiked ? post.likes - 1 : post.likes + 1 }
-          : post,
-      ),
-    )
+  const loadMockData = async () => {
+    await loadPosts(feed)
+    loadUnreadMessages()
+    loadStories()
+  }
+
+  // One ring per user: your own first, then users with unseen stories.
+  // Each user's stories play oldest to newest.
+  const storyGroups = useMemo(() => {
+    // stories arrive newest first, so users end up ordered by their latest story
+    const byUser = new Map<string, StoryGroup>()
+    for (const story of stories) {
+      const group = byUser.get(story.user.id)
+      if (group) {
+        group.stories.unshift(story)
+      } else {
+        byUser.set(story.user.id, { user: story.user, stories: [story] })
+      }
+    }
+
+    const rank = (group: StoryGroup) =>
+      group.stories.some(s => s.isOwn) ? 0 : group.stories.some(s => !s.viewed) ? 1 : 2
+    return [...byUser.values()].sort((a, b) => rank(a) - rank(b))
+  }, [stories])
+
+  const handleStoryViewed = (story: Story) => {
+    if (story.viewed) return
+
+    setStories(prevStories => prevStories.map(s => s.id === story.id ? { ...s, viewed: true } : s))
+
+    fetch(`/api/stories/${story.id}/view`, { method: 'POST' })
+      .catch(error => console.warn('Failed to record story view:', error))
+  }
+
+  // Optimistic: flip immediately, then settle on the server's answer or roll back
+  const handleLike = async (postId: string) => {
+    const post = posts.find(p => p.id === postId)
+    if (!post || pendingLikes.current.has(postId)) return
+
+    pendingLikes.current.add(postId)
+    const previous = { isLiked: post.isLiked, likes: post.likes }
+    const updatePost = (changes: Partial<Post>) =>
+      setPosts(prevPosts => prevPosts.map(p => p.id === postId ? { ...p, ...changes } : p))
+
+    updatePost({ isLiked: !post.isLiked, likes: post.isLiked ? post.likes - 1 : post.likes + 1 })
+
+    try {
+      const response = await fetch(`/api/posts/${postId}/like`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Status ${response.status}`)
+      }
+
+      updatePost({ isLiked: data.liked, likes: data.likes })
+    } catch (error) {
+      console.error('Error updating like:', error)
+      updatePost(previous)
+      toast({ title: "Couldn't update like", description: 'Please try again.', variant: 'destructive' })
+    } finally {
+      pendingLikes.current.delete(postId)
+    }
   }
 
   const handlePostCreated = async (newPost: Post) => {
     // Add the new post to the UI immediately
     setPosts(prevPosts => [newPost, ...prevPosts])
+    if (newPost.moderationStatus === 'pending_review') {
+      toast({
+        title: 'Sent for review',
+        description: 'This post was flagged as high risk. Only you can see it until a moderator approves it.'
+      })
+    }
     
     // Also refresh posts from database to ensure sync
-    try {
-      const token = localStorage.getItem('authToken')
-      if (token) {
-        const response = await fetch('/api/posts', {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        })
-        
-        if (response.ok) {
-          const data = await response.json()
-          if (data.success && data.posts) {
-            // Update with fresh data from database
-            setPosts(data.posts)
-            console.log('Refreshed posts from database after creation')
-          }
-        }
-      }
-    } catch (error) {
-      console.warn('Failed to refresh from database:', error)
-    }
+    await loadPosts(feed)
   }
 
   const handleDeletePost = async (postId: string) => {
@@ -195,20 +365,11 @@ export default function HomePage() {
     console.log('Attempting to delete post:', postId)
 
     try {
-      const token = localStorage.getItem('authToken')
-      console.log('Token available:', token ? 'Yes' : 'No')
-      
-      if (!token) {
-        alert('You must be logged in to delete posts')
-        return
-      }
-
       console.log('Making DELETE request to:', `/api/posts/${postId}`)
       
       const response = await fetch(`/api/posts/${postId}`, {
         method: 'DELETE',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         }
       })
@@ -235,7 +396,7 @@ export default function HomePage() {
   }
 
   const handleStoryCreated = (newStory: Story) => {
-    setStories([newStory, ...stories])
+    setStories(prevStories => [newStory, ...prevStories])
   }
 
   const handlePhotoTaken = (photoData: { file: File; analysis: any }) => {
@@ -292,14 +453,26 @@ export default function HomePage() {
                 <Shield className="h-6 w-6" />
               </Button>
             </Link>
+            {currentUser.permissions?.includes('content:moderate') && (
+              <Link href="/moderation">
+                <Button variant="ghost" size="icon" title="Moderation Queue">
+                  <Gavel className="h-6 w-6" />
+                </Button>
+              </Link>
+            )}
             <Button variant="ghost" size="icon" onClick={() => setIsCreatePostOpen(true)} title="Create Post">
               <Plus className="h-6 w-6" />
             </Button>
             <Button variant="ghost" size="icon" onClick={() => setIsCameraOpen(true)} title="AI-Protected Camera">
               <Camera className="h-6 w-6" />
             </Button>
-            <Button variant="ghost" size="icon" onClick={() => setIsMessagingOpen(true)}>
+            <Button variant="ghost" size="icon" onClick={() => setIsMessagingOpen(true)} className="relative" title="Messages">
               <Send className="h-6 w-6" />
+              {unreadMessages > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
+                  {unreadMessages > 99 ? '99+' : unreadMessages}
+                </span>
+              )}
             </Button>
             <ThemeSwitcher />
             <Avatar className="h-8 w-8 cursor-pointer" onClick={() => router.push("/profile")}>
@@ -326,38 +499,53 @@ export default function HomePage() {
             </div>
 
             {/* Stories */}
-            {stories.map((story) => (
-              <div key={story.id} className="flex-shrink-0 text-center relative">
-                <div
-                  className={`w-16 h-16 rounded-full p-0.5 cursor-pointer transition-transform hover:scale-105 ${
-                    story.viewed ? "bg-muted-foreground/30" : "bg-gradient-to-r from-purple-500 to-pink-500"
-                  }`}
-                  onClick={() => setSelectedStory(story)}
-                >
-                  <Avatar className="w-full h-full">
-                    <AvatarImage src={story.user.profilePic || "/placeholder.svg"} />
-                    <AvatarFallback>{story.user.username[0].toUpperCase()}</AvatarFallback>
-                  </Avatar>
-                </div>
-                
-                {/* Risk indicator for stories */}
-                {story.riskLevel === 'high' && (
-                  <div className="absolute -top-1 -right-1 w-4 h-4 bg-red-500 rounded-full flex items-center justify-center">
-                    <AlertTriangle className="h-2 w-2 text-white" />
-                  </div>
-                )}
-                {story.riskLevel === 'medium' && (
-                  <div className="absolute -top-1 -right-1 w-4 h-4 bg-yellow-500 rounded-full flex items-center justify-center">
-                    <AlertTriangle className="h-2 w-2 text-white" />
+            {storyGroups.map((group, index) => {
+              const allViewed = group.stories.every(story => story.viewed)
+              const riskLevel = group.stories.some(story => story.riskLevel === 'high') ? 'high'
+                : group.stories.some(story => story.riskLevel === 'medium') ? 'medium' : 'low'
+
+              return (
+                <div key={group.user.id} className="flex-shrink-0 text-center relative">
+                  <div
+                    className={`w-16 h-16 rounded-full p-0.5 cursor-pointer transition-transform hover:scale-105 ${
+                      allViewed ? "bg-muted-foreground/30" : "bg-gradient-to-r from-purple-500 to-pink-500"
+                    }`}
+                    onClick={() => setStoryPlayback({ groups: storyGroups, index })}
+                  >
+                    <Avatar className="w-full h-full">
+                      <AvatarImage src={group.user.profilePic || "/placeholder.svg"} />
+                      <AvatarFallback>{group.user.username[0].toUpperCase()}</AvatarFallback>
+                    </Avatar>
                   </div>
-                )}
                 
-                <p className="text-xs mt-1 truncate w-16 text-muted-foreground">{story.user.username}</p>
-              </div>
-            ))}
+                  {/* Risk indicator for stories */}
+                  {riskLevel === 'high' && (
+                    <div className="absolute -top-1 -right-1 w-4 h-4 bg-red-500 rounded-full flex items-center justify-center">
+                      <AlertTriangle className="h-2 w-2 text-white" />
+                    </div>
+                  )}
+                  {riskLevel === 'medium' && (
+                    <div className="absolute -top-1 -right-1 w-4 h-4 bg-yellow-500 rounded-full flex items-center justify-center">
+                      <AlertTriangle className="h-2 w-2 text-white" />
+                    </div>
+                  )}
+                
+                  <p className="text-xs mt-1 truncate w-16 text-muted-foreground">{group.user.username}</p>
+                </div>
+              )
+            })}
           </div>
         </div>
 
+        {/* Feed Selector */}
+        <Tabs value={feed} onValueChange={handleFeedChange} className="mb-6">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="ranked">For You</TabsTrigger>
+            <TabsTrigger value="following">Following</TabsTrigger>
+            <TabsTrigger value="global">Latest</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
         {/* Posts Feed */}
         <div className="space-y-6">
           {posts.map((post) => (
@@ -392,6 +580,38 @@ export default function HomePage() {
                         Delete Post
                       </DropdownMenuItem>
                     )}
+                    {currentUser && post.user.id === currentUser.id && canAppeal(post) && (
+                      <DropdownMenuItem
+                        onClick={() => setAppealTarget({ contentType: 'post', id: post.id, deepfakeScore: post.deepfakeScore })}
+                      >
+                        <Scale className="h-4 w-4 mr-2" />
+                        Appeal AI Flag
+                      </DropdownMenuItem>
+                    )}
+                    {currentUser && post.user.id === currentUser.id && post.appealStatus === 'pending' && (
+                      <DropdownMenuItem disabled>
+                        <Scale className="h-4 w-4 mr-2" />
+                        Appeal in review
+                      </DropdownMenuItem>
+                    )}
+                    {currentUser && post.user.id !== currentUser.id && (
+                      <>
+                        <DropdownMenuItem
+                          onClick={() => setReportTarget({ type: 'post', id: post.id, label: `post by ${post.user.username}` })}
+                          className="text-destructive focus:text-destructive"
+                        >
+                          <Flag className="h-4 w-4 mr-2" />
+                          Report Post
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => setReportTarget({ type: 'user', id: post.user.id, label: `@${post.user.username}` })}
+                          className="text-destructive focus:text-destructive"
+                        >
+                          <UserX className="h-4 w-4 mr-2" />
+                          Report @{post.user.username}
+                        </DropdownMenuItem>
+                      </>
+                    )}
                     <DropdownMenuItem>
                       <Share className="h-4 w-4 mr-2" />
                       Share
@@ -410,7 +630,7 @@ export default function HomePage() {
                 {post.mediaType === 'video' || post.mediaUrl.includes('data:video') || post.mediaUrl.includes('.mp4') || post.mediaUrl.includes('.webm') || post.mediaUrl.includes('.mov') ? (
                   <video
                     src={post.mediaUrl}
-                    className="w-full aspect-square object-cover"
+                    className={`w-full aspect-square object-cover ${isHeld(post) ? "blur-xl" : ""}`}
                     controls
                     muted
                     playsInline
@@ -419,11 +639,43 @@ export default function HomePage() {
                   <img
                     src={post.mediaUrl || "/placeholder.svg"}
                     alt="Post content"
-                    className="w-full aspect-square object-cover"
+                    className={`w-full aspect-square object-cover ${isHeld(post) ? "blur-xl" : ""}`}
                   />
                 )}
+                {isHeld(post) && (
+                  <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/40 text-white text-center px-6">
+                    <EyeOff className="h-8 w-8" />
+                    <p className="font-semibold">
+                      {post.moderationStatus === 'rejected' ? 'Removed by a moderator' : 'Waiting for moderator review'}
+                    </p>
+                    <p className="text-sm text-white/80">Only you can see this post</p>
+                  </div>
+                )}
+                {/* A moderator's verdict overrides the detector's score */}
+                {post.verdict === 'authentic' && (
+                  <div
+                    className="absolute top-2 right-2 bg-green-600 text-white px-3 py-1.5 rounded-full text-xs font-medium shadow-lg backdrop-blur-sm"
+                    title={`Verified by a moderator. Detector score: ${post.deepfakeScore}%`}
+                  >
+                    <div className="flex items-center space-x-1">
+                      <BadgeCheck className="h-3 w-3" />
+                      <span>Verified authentic</span>
+                    </div>
+                  </div>
+                )}
+                {post.verdict === 'manipulated' && (
+                  <div
+                    className="absolute top-2 right-2 bg-destructive text-destructive-foreground px-3 py-1.5 rounded-full text-xs font-medium shadow-lg backdrop-blur-sm"
+                    title={`Confirmed by a moderator. Detector score: ${post.deepfakeScore}%`}
+                  >
+                    <div className="flex items-center space-x-1">
+                      <Shield className="h-3 w-3" />
+                      <span>Confirmed manipulated</span>
+                    </div>
+                  </div>
+                )}
                 {/* Deepfake Score Indicator - Hide for real content */}
-                {post.deepfakeScore > 50 && !isRealContent(post.mediaUrl, post.caption) && (
+                {!post.verdict && post.deepfakeScore > 50 && !isRealContent(post.mediaUrl, post.caption) && (
                   <div className="absolute top-2 right-2 bg-destructive text-destructive-foreground px-3 py-1.5 rounded-full text-xs font-medium shadow-lg backdrop-blur-sm">
                     <div className="flex items-center space-x-1">
                       <Shield className="h-3 w-3" />
@@ -431,7 +683,7 @@ export default function HomePage() {
                     </div>
                   </div>
                 )}
-                {post.deepfakeScore <= 50 && post.deepfakeScore > 20 && !isRealContent(post.mediaUrl, post.caption) && (
+                {!post.verdict && post.deepfakeScore <= 50 && post.deepfakeScore > 20 && !isRealContent(post.mediaUrl, post.caption) && (
                   <div className="absolute top-2 right-2 bg-yellow-500 text-white px-3 py-1.5 rounded-full text-xs font-medium shadow-lg backdrop-blur-sm">
                     <div className="flex items-center space-x-1">
                       <AlertTriangle className="h-3 w-3" />
@@ -453,7 +705,12 @@ export default function HomePage() {
                     >
                       <Heart className={`h-6 w-6 transition-all ${post.isLiked ? "fill-current scale-110" : ""}`} />
                     </Button>
-                    <Button variant="ghost" size="icon" className="hover:bg-muted/50 hover:text-blue-500">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="hover:bg-muted/50 hover:text-blue-500"
+                      onClick={() => setCommentsPost(post)}
+                    >
                       <MessageCircle className="h-6 w-6" />
                     </Button>
                     <Button variant="ghost" size="icon" className="hover:bg-muted/50 hover:text-green-500">
@@ -471,13 +728,33 @@ export default function HomePage() {
                   <span className="ml-2">{post.caption}</span>
                 </p>
                 {post.comments > 0 && (
-                  <p className="text-muted-foreground text-sm cursor-pointer hover:text-foreground transition-colors">
+                  <p
+                    className="text-muted-foreground text-sm cursor-pointer hover:text-foreground transition-colors"
+                    onClick={() => setCommentsPost(post)}
+                  >
                     View all {post.comments} comments
                   </p>
                 )}
               </CardContent>
             </Card>
           ))}
+
+          {posts.length === 0 && feed === 'following' && (
+            <p className="text-center text-muted-foreground py-12">
+              Posts from people you follow will show up here.
+            </p>
+          )}
+
+          {nextCursor && (
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={handleLoadMore}
+              disabled={isLoadingMore}
+            >
+              {isLoadingMore ? "Loading..." : "Load more"}
+            </Button>
+          )}
         </div>
       </div>
 
@@ -500,9 +777,41 @@ export default function HomePage() {
         onPhotoTaken={handlePhotoTaken}
       />
 
-      {selectedStory && <StoryViewer story={selectedStory} onClose={() => setSelectedStory(null)} />}
+      <CommentsDialog
+        postId={commentsPost?.id ?? null}
+        postOwnerId={commentsPost?.user.id}
+        currentUserId={currentUser?.id?.toString()}
+        onClose={() => setCommentsPost(null)}
+        onCountChange={(postId, delta) => setPosts(prevPosts => prevPosts.map(post =>
+          post.id === postId ? { ...post, comments: Math.max(post.comments + delta, 0) } : post
+        ))}
+      />
+
+      <ReportDialog target={reportTarget} onClose={() => setReportTarget(null)} />
+
+      <AppealDialog
+        target={appealTarget}
+        onClose={() => setAppealTarget(null)}
+        onSubmitted={(target) => setPosts(prevPosts => prevPosts.map(post =>
+          post.id === target.id ? { ...post, appealStatus: 'pending' } : post
+        ))}
+      />
 
-      {isMessagingOpen && <MessagingPanel onClose={() => setIsMessagingOpen(false)} />}
+      {storyPlayback && (
+        <StoryViewer
+          groups={storyPlayback.groups}
+          initialGroupIndex={storyPlayback.index}
+          onStoryViewed={handleStoryViewed}
+          onClose={() => setStoryPlayback(null)}
+        />
+      )}
+
+      {isMessagingOpen && (
+        <MessagingPanel
+          onClose={() => setIsMessagingOpen(false)}
+          onUnreadCountChange={setUnreadMessages}
+        />
+      )}
     </div>
   )
 }
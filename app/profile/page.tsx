@@ -6,8 +6,11 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { ArrowLeft, Settings, Grid, Bookmark, Tag, LogOut, Shield } from "lucide-react"
+import { ArrowLeft, Settings, Grid, Bookmark, Tag, LogOut, Shield, KeyRound } from "lucide-react"
 import { ThemeSwitcher } from "@/components/theme-switcher"
+import { FollowListDialog } from "@/components/follow-list-dialog"
+import { SessionsDialog } from "@/components/sessions-dialog"
+import { TwoFactorDialog } from "@/components/two-factor-dialog"
 import Link from "next/link"
 
 export default function ProfilePage() {
@@ -18,6 +21,10 @@ export default function ProfilePage() {
     followers: 0,
     following: 0,
   })
+  const [followListType, setFollowListType] = useState<'followers' | 'following' | null>(null)
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false)
+  const [isTwoFactorOpen, setIsTwoFactorOpen] = useState(false)
+  const [verificationStatus, setVerificationStatus] = useState<'idle' | 'sending' | 'sent' | 'failed'>('idle')
   const [mounted, setMounted] = useState(false)
   const router = useRouter()
 
@@ -34,6 +41,12 @@ export default function ProfilePage() {
       const userData = JSON.parse(user)
       setCurrentUser(userData)
 
+      // Moderators land here after sign-in until they've enrolled
+      if (userData.twoFactorSetupRequired) {
+        setIsTwoFactorOpen(true)
+        return
+      }
+
       // Load user stats from database with initial 0 counts
       loadUserStats(userData.id)
 
@@ -47,28 +60,18 @@ export default function ProfilePage() {
 
   const loadUserStats = async (userId: string) => {
     try {
-      const token = localStorage.getItem('authToken')
-      if (!token) {
-        setStats({ posts: 0, followers: 0, following: 0 })
-        return
-      }
+      const response = await fetch(`/api/users/${userId}`)
 
-      // Get posts count from database
-      const postsResponse = await fetch('/api/posts', {
-        headers: { 'Authorization': `Bearer ${token}` }
-      })
-      
-      let postsCount = 0
-      if (postsResponse.ok) {
-        const postsData = await postsResponse.json()
-        postsCount = postsData.posts?.filter((post: any) => post.user.id === userId).length || 0
+      if (response.ok) {
+        const data = await response.json()
+        setStats({
+          posts: data.stats?.posts || 0,
+          followers: data.stats?.followers || 0,
+          following: data.stats?.following || 0,
+        })
+      } else {
+        setStats({ posts: 0, followers: 0, following: 0 })
       }
-
-      setStats({
-        posts: postsCount,
-        followers: 0,
-        following: 0,
-      })
     } catch (error) {
       console.error('Error loading user stats:', error)
       setStats({ posts: 0, followers: 0, following: 0 })
@@ -77,15 +80,7 @@ export default function ProfilePage() {
 
   const loadUserPosts = async (userId: string) => {
     try {
-      const token = localStorage.getItem('authToken')
-      if (!token) {
-        setPosts([])
-        return
-      }
-
-      const response = await fetch('/api/posts', {
-        headers: { 'Authorization': `Bearer ${token}` }
-      })
+      const response = await fetch('/api/posts')
       
       if (response.ok) {
         const data = await response.json()
@@ -100,9 +95,24 @@ export default function ProfilePage() {
     }
   }
 
-  const handleLogout = () => {
+  const handleResendVerification = async () => {
+    setVerificationStatus('sending')
+    try {
+      const response = await fetch('/api/auth/verify-email/resend', { method: 'POST' })
+      setVerificationStatus(response.ok ? 'sent' : 'failed')
+    } catch (error) {
+      console.error('Error resending verification email:', error)
+      setVerificationStatus('failed')
+    }
+  }
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' })
+    } catch (error) {
+      console.error('Error logging out:', error)
+    }
     localStorage.removeItem("currentUser")
-    localStorage.removeItem("authToken")
     router.push("/auth")
   }
 
@@ -141,7 +151,10 @@ export default function ProfilePage() {
               </Button>
             </Link>
             <ThemeSwitcher />
-            <Button variant="ghost" size="icon">
+            <Button variant="ghost" size="icon" title="Two-factor authentication" onClick={() => setIsTwoFactorOpen(true)}>
+              <KeyRound className="h-6 w-6" />
+            </Button>
+            <Button variant="ghost" size="icon" title="Active sessions" onClick={() => setIsSessionsOpen(true)}>
               <Settings className="h-6 w-6" />
             </Button>
             <Button variant="ghost" size="icon" onClick={handleLogout}>
@@ -172,16 +185,42 @@ export default function ProfilePage() {
                 <div className="font-semibold text-lg text-foreground">{stats.posts}</div>
                 <div className="text-muted-foreground">posts</div>
               </div>
-              <div className="text-center cursor-pointer hover:opacity-80 transition-opacity">
+              <div
+                className="text-center cursor-pointer hover:opacity-80 transition-opacity"
+                onClick={() => setFollowListType('followers')}
+              >
                 <div className="font-semibold text-lg text-foreground">{stats.followers.toLocaleString()}</div>
                 <div className="text-muted-foreground">followers</div>
               </div>
-              <div className="text-center cursor-pointer hover:opacity-80 transition-opacity">
-                <div className="font-semibold text-lg text-foreground">{stats.following}</div>
+              <div
+                className="text-center cursor-pointer hover:opacity-80 transition-opacity"
+                onClick={() => setFollowListType('following')}
+              >
+                <div className="font-semibold text-lg text-foreground">{stats.following.toLocaleString()}</div>
                 <div className="text-muted-foreground">following</div>
               </div>
             </div>
 
+            {currentUser.emailVerified === false && (
+              <div className="mb-4 flex items-center gap-3 rounded-lg border border-yellow-500/50 bg-yellow-500/10 px-3 py-2 text-sm">
+                <span className="text-foreground">
+                  {verificationStatus === 'sent'
+                    ? `Verification email sent to ${currentUser.email}`
+                    : 'Please verify your email address'}
+                </span>
+                {verificationStatus !== 'sent' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={verificationStatus === 'sending'}
+                    onClick={handleResendVerification}
+                  >
+                    {verificationStatus === 'failed' ? 'Try again' : 'Resend email'}
+                  </Button>
+                )}
+              </div>
+            )}
+
             <div>
               <p className="font-semibold text-foreground">Demo User</p>
               <p className="text-muted-foreground">📸 Photography enthusiast</p>
@@ -259,6 +298,41 @@ export default function ProfilePage() {
           </TabsContent>
         </Tabs>
       </div>
+
+      <FollowListDialog
+        userId={followListType ? currentUser.id : null}
+        type={followListType || 'followers'}
+        currentUserId={currentUser.id}
+        onClose={() => setFollowListType(null)}
+        onFollowChange={() => loadUserStats(currentUser.id)}
+      />
+
+      <TwoFactorDialog
+        isOpen={isTwoFactorOpen}
+        onClose={() => setIsTwoFactorOpen(false)}
+        onChange={(enabled) => {
+          const updatedUser = {
+            ...currentUser,
+            twoFactorEnabled: enabled,
+            twoFactorSetupRequired: currentUser.twoFactorSetupRequired && !enabled
+          }
+          localStorage.setItem("currentUser", JSON.stringify(updatedUser))
+          setCurrentUser(updatedUser)
+          if (currentUser.twoFactorSetupRequired && enabled) {
+            loadUserStats(currentUser.id)
+            loadUserPosts(currentUser.id)
+          }
+        }}
+      />
+
+      <SessionsDialog
+        isOpen={isSessionsOpen}
+        onClose={() => setIsSessionsOpen(false)}
+        onSignedOut={() => {
+          localStorage.removeItem("currentUser")
+          router.push("/auth")
+        }}
+      />
     </div>
   )
 }
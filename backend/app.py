@@ -4,6 +4,7 @@ Uses LOCAL pkl model file - no Google Drive download needed
 """
 
 import os
+import hashlib
 import tempfile
 import logging
 import joblib
@@ -25,6 +26,10 @@ logging.basicConfig(level=logging.INFO)
 logger = logging.getLogger(__name__)
 
 # Response models
+class ImageMetrics(BaseModel):
+    error_level: float  # 0-1, how much the image changes when re-saved as JPEG
+    noise_inconsistency: float  # 0-1, how unevenly sensor noise is spread across the image
+
 class DetectionResponse(BaseModel):
     prediction: str  # "Real" or "Deepfake"
     confidence: float
@@ -32,6 +37,7 @@ class DetectionResponse(BaseModel):
     audio_importance: float
     text_importance: float
     transcript: str
+    image_metrics: Optional[ImageMetrics] = None  # Only for /detect-image
 
 class ErrorResponse(BaseModel):
     error: str
@@ -43,13 +49,27 @@ resnet_model = None
 bert_tokenizer = None
 bert_model = None
 asr_pipeline = None
+model_version = None
 
 # Configuration - UPDATE THIS PATH TO YOUR LOCAL PKL FILE
 LOCAL_MODEL_PATH = "C:\\Users\\keert\\Downloads\\so_app\\deepfake_detector1.pkl"  # Updated to match user's file location
 
+# Uploads are accepted by file extension. Keep in sync with SUPPORTED_VIDEO_TYPES
+# and SUPPORTED_IMAGE_TYPES in lib/deepfake-detection.ts.
+SUPPORTED_VIDEO_EXTENSIONS = ('.mp4', '.avi', '.mov')
+SUPPORTED_IMAGE_EXTENSIONS = ('.jpg', '.jpeg', '.png', '.webp', '.bmp')
+
+def compute_model_version(model_path):
+    """Identify the classifier by its file contents so retraining changes the version"""
+    digest = hashlib.sha256()
+    with open(model_path, "rb") as model_file:
+        for chunk in iter(lambda: model_file.read(1024 * 1024), b""):
+            digest.update(chunk)
+    return digest.hexdigest()[:12]
+
 def load_all_models():
     """Load all required models - using LOCAL pkl file"""
-    global classifier_model, resnet_model, bert_tokenizer, bert_model, asr_pipeline
+    global classifier_model, resnet_model, bert_tokenizer, bert_model, asr_pipeline, model_version
     
     try:
         # 1. Load trained classifier from LOCAL pkl file
@@ -58,6 +78,10 @@ def load_all_models():
             
         classifier_model = joblib.load(LOCAL_MODEL_PATH)
         logger.info(f"✅ Classifier model loaded from: {LOCAL_MODEL_PATH}")
+
+        # MODEL_VERSION overrides the file hash, e.g. to name a release
+        model_version = os.environ.get("MODEL_VERSION") or compute_model_version(LOCAL_MODEL_PATH)
+        logger.info(f"✅ Model version: {model_version}")
         
         # 2. Load ResNet18 for image features (EXACTLY as in your training)
         device = torch.device("cuda" if torch.cuda.is_available() else "cpu")
@@ -157,11 +181,106 @@ def get_text_embeddings_exactly_like_training(text):
         # EXACTLY like training: mean pooling over sequence dimension
         return outputs.last_hidden_state.mean(dim=1).squeeze().cpu().numpy()
 
+def read_keyframes(media_path, samples=16):
+    """The image itself, or frames sampled evenly across a video"""
+    image = cv2.imread(media_path)
+    if image is not None:
+        return [image]
+
+    frames = []
+    cap = cv2.VideoCapture(media_path)
+    total = int(cap.get(cv2.CAP_PROP_FRAME_COUNT) or 0)
+    for index in np.linspace(0, max(total - 1, 0), samples).astype(int):
+        cap.set(cv2.CAP_PROP_POS_FRAMES, int(index))
+        ret, frame = cap.read()
+        if ret:
+            frames.append(frame)
+    cap.release()
+    return frames
+
+def bits_to_hex(bits):
+    value = 0
+    for bit in bits:
+        value = (value << 1) | int(bit)
+    return f"{value:016x}"
+
+def frame_phash(frame):
+    """64-bit DCT perceptual hash of one frame"""
+    gray = cv2.cvtColor(frame, cv2.COLOR_BGR2GRAY)
+    small = cv2.resize(gray, (32, 32), interpolation=cv2.INTER_AREA).astype(np.float32)
+    low = cv2.dct(small)[:8, :8].flatten()
+    return bits_to_hex(low > np.median(low[1:]))
+
+def perceptual_hash(frames):
+    """64-bit difference hash of the whole clip (majority vote over its frames).
+    Survives re-encoding, resizing and light recompression, unlike a file hash."""
+    votes = np.zeros(64)
+    for frame in frames:
+        gray = cv2.cvtColor(frame, cv2.COLOR_BGR2GRAY)
+        small = cv2.resize(gray, (9, 8), interpolation=cv2.INTER_AREA)
+        votes += (small[:, 1:] > small[:, :-1]).flatten()
+    return bits_to_hex(votes * 2 > len(frames))
+
 def combine_embeddings_exactly_like_training(image_emb, audio_emb, text_emb):
     """Combine embeddings EXACTLY like in your training code"""
     # Concatenate: 512 (image) + 13 (audio) + 768 (text) = 1293 features
     return np.concatenate([image_emb, audio_emb, text_emb])
 
+def classify_embeddings(image_emb, audio_emb, text_emb, text):
+    """Run the trained classifier on one set of embeddings"""
+    combined_emb = combine_embeddings_exactly_like_training(image_emb, audio_emb, text_emb)
+    
+    prediction = classifier_model.predict([combined_emb])[0]
+    probabilities = classifier_model.predict_proba([combined_emb])[0]
+    feature_importance = classifier_model.feature_importances_
+    
+    # Calculate component importances (matching your code)
+    image_imp = np.mean(feature_importance[:512])
+    audio_imp = np.mean(feature_importance[512:512+13]) 
+    text_imp = np.mean(feature_importance[512+13:])
+    
+    return {
+        "prediction": "Deepfake" if prediction == 1 else "Real",
+        "confidence": float(probabilities[prediction]),
+        "image_importance": float(image_imp),
+        "audio_importance": float(audio_imp), 
+        "text_importance": float(text_imp),
+        "transcript": text
+    }
+
+def image_forensics(image):
+    """Classic single-image forensics, both scaled to 0-1"""
+    # Error level analysis: edited regions recompress differently from the rest
+    _, encoded = cv2.imencode(".jpg", image, [cv2.IMWRITE_JPEG_QUALITY, 90])
+    recompressed = cv2.imdecode(encoded, cv2.IMREAD_COLOR)
+    error_level = min(1.0, float(np.mean(cv2.absdiff(image, recompressed))) / 10.0)
+    
+    # Noise residual per cell of a 4x4 grid; pasted or generated regions carry
+    # different noise than the camera sensor left on the rest
+    gray = cv2.cvtColor(image, cv2.COLOR_BGR2GRAY).astype(np.float32)
+    residual = gray - cv2.GaussianBlur(gray, (3, 3), 0)
+    cell_noise = [cell.std() for row in np.array_split(residual, 4, axis=0) for cell in np.array_split(row, 4, axis=1)]
+    noise_inconsistency = min(1.0, float(np.std(cell_noise) / (np.mean(cell_noise) + 1e-6)))
+    
+    return {"error_level": error_level, "noise_inconsistency": noise_inconsistency}
+
+def predict_image_deepfake(image_path):
+    """Classify a still image with the video model: the image is the only
+    frame, and it has no audio or speech (as for a silent clip)"""
+    image = cv2.imread(image_path)
+    if image is None:
+        raise ValueError("Could not read image")
+    
+    image_emb = get_image_embeddings_exactly_like_training([image_path])
+    audio_emb = np.zeros(13)
+    text = "No transcription available"
+    text_emb = get_text_embeddings_exactly_like_training(text)
+    
+    result = classify_embeddings(image_emb, audio_emb, text_emb, text)
+    result["transcript"] = ""
+    result["image_metrics"] = image_forensics(image)
+    return result
+
 def predict_deepfake(video_path):
     """Main prediction function matching your exact pipeline"""
     temp_audio_path = None
@@ -182,27 +301,8 @@ def predict_deepfake(video_path):
         text = transcribe_audio_exactly_like_training(temp_audio_path)
         text_emb = get_text_embeddings_exactly_like_training(text)
         
-        # 4. Combine embeddings (EXACTLY like training)
-        combined_emb = combine_embeddings_exactly_like_training(image_emb, audio_emb, text_emb)
-        
-        # 5. Make prediction
-        prediction = classifier_model.predict([combined_emb])[0]
-        probabilities = classifier_model.predict_proba([combined_emb])[0]
-        feature_importance = classifier_model.feature_importances_
-        
-        # Calculate component importances (matching your code)
-        image_imp = np.mean(feature_importance[:512])
-        audio_imp = np.mean(feature_importance[512:512+13]) 
-        text_imp = np.mean(feature_importance[512+13:])
-        
-        return {
-            "prediction": "Deepfake" if prediction == 1 else "Real",
-            "confidence": float(probabilities[prediction]),
-            "image_importance": float(image_imp),
-            "audio_importance": float(audio_imp), 
-            "text_importance": float(text_imp),
-            "transcript": text
-        }
+        # 4. Combine embeddings and classify (EXACTLY like training)
+        return classify_embeddings(image_emb, audio_emb, text_emb, text)
         
     finally:
         # Cleanup
@@ -233,7 +333,7 @@ async def detect_deepfake(file: UploadFile = File(...)):
     Detect deepfake in uploaded video using exact training preprocessing
     """
     # Validate file type
-    if not file.filename.lower().endswith(('.mp4', '.avi', '.mov')):
+    if not (file.filename or "").lower().endswith(SUPPORTED_VIDEO_EXTENSIONS):
         raise HTTPException(
             status_code=400, 
             detail="Only video files (.mp4, .avi, .mov) are supported"
@@ -261,6 +361,67 @@ async def detect_deepfake(file: UploadFile = File(...)):
         if os.path.exists(temp_video_path):
             os.remove(temp_video_path)
 
+@app.post("/detect-image", response_model=DetectionResponse)
+async def detect_image_deepfake(file: UploadFile = File(...)):
+    """
+    Detect manipulation in an uploaded image (photo uploads, camera captures)
+    """
+    suffix = os.path.splitext(file.filename or "")[1].lower()
+    if suffix not in SUPPORTED_IMAGE_EXTENSIONS:
+        raise HTTPException(
+            status_code=400,
+            detail="Only image files (.jpg, .jpeg, .png, .webp, .bmp) are supported"
+        )
+    
+    with tempfile.NamedTemporaryFile(delete=False, suffix=suffix) as temp_file:
+        content = await file.read()
+        temp_file.write(content)
+        temp_image_path = temp_file.name
+    
+    try:
+        logger.info(f"Processing image: {file.filename}")
+        return DetectionResponse(**predict_image_deepfake(temp_image_path))
+    
+    except ValueError as e:
+        raise HTTPException(status_code=400, detail=str(e))
+    
+    except Exception as e:
+        logger.error(f"Image prediction failed: {e}")
+        raise HTTPException(status_code=500, detail=f"Processing failed: {str(e)}")
+    
+    finally:
+        if os.path.exists(temp_image_path):
+            os.remove(temp_image_path)
+
+@app.post("/fingerprint")
+async def fingerprint(file: UploadFile = File(...)):
+    """
+    Perceptual hash of an upload, so near-duplicates of already analyzed media
+    can be recognized without running the models
+    """
+    suffix = os.path.splitext(file.filename or "")[1] or ".mp4"
+    with tempfile.NamedTemporaryFile(delete=False, suffix=suffix) as temp_file:
+        content = await file.read()
+        temp_file.write(content)
+        temp_path = temp_file.name
+
+    try:
+        frames = read_keyframes(temp_path)
+        if not frames:
+            raise HTTPException(status_code=400, detail="Could not read any frames")
+
+        return {
+            "perceptual_hash": perceptual_hash(frames),
+            # One pHash per keyframe, so trimmed or partly cropped copies still match
+            "frame_hashes": [frame_phash(frame) for frame in frames],
+            "frames": len(frames),
+            "model_version": model_version
+        }
+
+    finally:
+        if os.path.exists(temp_path):
+            os.remove(temp_path)
+
 @app.get("/health")
 async def health_check():
     """Health check endpoint"""
@@ -283,7 +444,8 @@ async def model_info():
         "expected_input_dim": 1293,  # 512 + 13 + 768
         "preprocessing_pipeline": "ResNet18 + MFCC + BERT (exactly matching training)",
         "model_source": "Local pkl file",
-        "model_path": LOCAL_MODEL_PATH
+        "model_path": LOCAL_MODEL_PATH,
+        "model_version": model_version
     }
 
 if __name__ == "__main__":
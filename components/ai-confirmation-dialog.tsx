@@ -21,6 +21,7 @@ import {
   Eye, 
   Brain,
   CheckCircle,
+  Fingerprint,
   Info 
 } from 'lucide-react'
 
@@ -36,6 +37,12 @@ interface AnalysisResult {
     artifactDetection: number
     lightingAnalysis?: number
   }
+  // Set when the upload is a near-duplicate of media a moderator confirmed as manipulated
+  knownFakeMatch?: {
+    contentType: 'post' | 'story'
+    matchedFrames: number
+    distance: number
+  }
 }
 
 interface AIConfirmationDialogProps {
@@ -99,6 +106,17 @@ export function AIConfirmationDialog({
         </AlertDialogHeader>
 
         <div className="space-y-6">
+          {analysis.knownFakeMatch && (
+            <Alert variant="destructive">
+              <Fingerprint className="h-4 w-4" />
+              <AlertDescription>
+                <strong>Matches known manipulated media.</strong> This file is a near-identical copy of a{' '}
+                {analysis.knownFakeMatch.contentType} our moderators confirmed as a deepfake, even if it has
+                been re-encoded or cropped.
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Analysis Overview */}
           <div className="p-4 border rounded-lg bg-muted/30 space-y-4">
             <div className="flex items-center justify-between">
@@ -0,0 +1,164 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Scale, Paperclip } from 'lucide-react'
+import { toast } from '@/hooks/use-toast'
+
+export interface AppealTarget {
+  contentType: 'post' | 'story'
+  id: string
+  deepfakeScore?: number
+}
+
+interface AppealDialogProps {
+  target: AppealTarget | null
+  onClose: () => void
+  onSubmitted?: (target: AppealTarget) => void
+}
+
+export function AppealDialog({ target, onClose, onSubmitted }: AppealDialogProps) {
+  const [explanation, setExplanation] = useState('')
+  const [evidenceUrl, setEvidenceUrl] = useState('')
+  const [isUploading, setIsUploading] = useState(false)
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (target) {
+      setExplanation('')
+      setEvidenceUrl('')
+      setError(null)
+    }
+  }, [target])
+
+  // Evidence files (the original capture, a provenance manifest) go through
+  // the regular upload route and are attached by URL
+  const handleEvidenceFile = async (file: File | undefined) => {
+    if (!file) return
+
+    setIsUploading(true)
+    setError(null)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      const response = await fetch('/api/upload', { method: 'POST', body: formData })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || `Status ${response.status}`)
+
+      setEvidenceUrl(data.fileUrl)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Upload failed')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!target || !explanation.trim()) return
+
+    setIsPending(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/appeals', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contentType: target.contentType,
+          contentId: target.id,
+          explanation,
+          evidenceUrl: evidenceUrl || null
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || `Status ${response.status}`)
+
+      toast({
+        title: 'Appeal sent',
+        description: "A moderator will review it. You'll be notified of the outcome."
+      })
+      onSubmitted?.(target)
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Appeal the AI flag
+          </DialogTitle>
+          <DialogDescription>
+            {target?.deepfakeScore !== undefined
+              ? `Our detector scored this ${target.contentType} ${target.deepfakeScore}% likely to be manipulated. `
+              : ''}
+            A moderator will look at your explanation and evidence. You can appeal each {target?.contentType} once.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="appeal-explanation">Why is this flag wrong?</Label>
+            <Textarea
+              id="appeal-explanation"
+              placeholder="e.g. I took this photo myself on my phone; it hasn't been edited"
+              value={explanation}
+              maxLength={1000}
+              onChange={(event) => setExplanation(event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="appeal-evidence">Provenance evidence (optional)</Label>
+            <Input
+              id="appeal-evidence"
+              placeholder="Link to the original, or attach a file"
+              value={evidenceUrl}
+              maxLength={500}
+              onChange={(event) => setEvidenceUrl(event.target.value)}
+            />
+            <Label
+              htmlFor="appeal-evidence-file"
+              className="flex items-center gap-2 text-sm font-normal text-muted-foreground cursor-pointer hover:text-foreground"
+            >
+              <Paperclip className="h-4 w-4" />
+              {isUploading ? 'Uploading...' : 'Attach the original file or a provenance manifest'}
+            </Label>
+            <input
+              id="appeal-evidence-file"
+              type="file"
+              className="hidden"
+              disabled={isUploading}
+              onChange={(event) => handleEvidenceFile(event.target.files?.[0])}
+            />
+          </div>
+
+          <Button
+            className="w-full"
+            disabled={!explanation.trim() || isPending || isUploading}
+            onClick={handleSubmit}
+          >
+            {isPending ? 'Sending...' : 'Send appeal'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -26,6 +26,7 @@ export function CameraModal({ isOpen, onClose, onPhotoTaken }: CameraModalProps)
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('user')
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [analysisResult, setAnalysisResult] = useState<MediaAnalysisResult | null>(null)
+  const [analysisError, setAnalysisError] = useState<string | null>(null)
   const [showAuthDialog, setShowAuthDialog] = useState(false)
   const [authDecision, setAuthDecision] = useState<'pending' | 'approved' | 'rejected'>('pending')
 
@@ -90,12 +91,15 @@ export function CameraModal({ isOpen, onClose, onPhotoTaken }: CameraModalProps)
       
       // Start AI analysis
       setIsAnalyzing(true)
+      setAnalysisError(null)
       try {
         const analysis = await MediaAnalysisService.analyzeMedia(file)
         setAnalysisResult(analysis)
         
-        // Check if content needs authorization
-        if (analysis.isDeepfake || analysis.score > 30 || analysis.riskLevel === 'high' || analysis.riskLevel === 'medium') {
+        // Check if content needs authorization. riskLevel follows the model's
+        // confidence in either label, so a confidently real photo is "high" too;
+        // score is the manipulation likelihood.
+        if (analysis.isDeepfake || analysis.score > 30) {
           setShowAuthDialog(true)
         } else {
           // Auto-approve low-risk content
@@ -103,8 +107,8 @@ export function CameraModal({ isOpen, onClose, onPhotoTaken }: CameraModalProps)
         }
       } catch (error) {
         console.error('Analysis failed:', error)
-        // On analysis failure, still allow upload but with warning
-        setAuthDecision('approved')
+        // Unanalyzed photos can't be used; the user can retake or save it
+        setAnalysisError(error instanceof Error ? error.message : 'Analysis failed')
       } finally {
         setIsAnalyzing(false)
       }
@@ -115,6 +119,7 @@ export function CameraModal({ isOpen, onClose, onPhotoTaken }: CameraModalProps)
     setCapturedImage(null)
     setCapturedFile(null)
     setAnalysisResult(null)
+    setAnalysisError(null)
     setShowAuthDialog(false)
     setAuthDecision('pending')
     if (capturedImage) {
@@ -268,6 +273,15 @@ export function CameraModal({ isOpen, onClose, onPhotoTaken }: CameraModalProps)
                 </Card>
               )}
 
+              {analysisError && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    This photo couldn't be analyzed: {analysisError}
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {analysisResult && (
                 <Card>
                   <CardContent className="p-4 space-y-3">
@@ -295,9 +309,9 @@ export function CameraModal({ isOpen, onClose, onPhotoTaken }: CameraModalProps)
                     {analysisResult.details && (
                       <div className="grid grid-cols-2 gap-2 text-xs">
                         <div>Face: {analysisResult.details.faceConsistency || 0}%</div>
-                        <div>Temporal: {analysisResult.details.temporalConsistency || 0}%</div>
                         <div>Artifacts: {analysisResult.details.artifactDetection || 0}%</div>
-                        <div>Lighting: {analysisResult.details.lightingAnalysis || 0}%</div>
+                        <div>Compression: {analysisResult.details.compressionArtifacts || 0}%</div>
+                        <div>Pixel patterns: {analysisResult.details.pixelPatterns || 0}%</div>
                       </div>
                     )}
                   </CardContent>
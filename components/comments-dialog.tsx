@@ -0,0 +1,274 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Flag, MessageCircle, Pencil, Trash2, X } from 'lucide-react'
+import { ReportDialog, type ReportTarget } from '@/components/report-dialog'
+
+interface CommentItem {
+  id: string
+  postId: string
+  parentId: string | null
+  user: {
+    id: string
+    username: string
+    profilePic: string
+  }
+  content: string
+  createdAt: string
+  editedAt: string | null
+  replies?: CommentItem[]
+}
+
+interface CommentsDialogProps {
+  postId: string | null
+  postOwnerId?: string
+  currentUserId?: string
+  onClose: () => void
+  // Called with how many comments were added (positive) or removed (negative)
+  onCountChange?: (postId: string, delta: number) => void
+}
+
+const PAGE_SIZE = 20
+
+export function CommentsDialog({ postId, postOwnerId, currentUserId, onClose, onCountChange }: CommentsDialogProps) {
+  const [comments, setComments] = useState<CommentItem[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [draft, setDraft] = useState('')
+  const [replyTo, setReplyTo] = useState<CommentItem | null>(null)
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null)
+
+  const loadPage = useCallback(async (cursor: string | null) => {
+    if (!postId) return
+
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) })
+      if (cursor) params.set('cursor', cursor)
+
+      const response = await fetch(`/api/posts/${postId}/comments?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setComments(prev => cursor ? [...prev, ...data.comments] : data.comments)
+        setNextCursor(data.nextCursor)
+      }
+    } catch (error) {
+      console.error('Error loading comments:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [postId])
+
+  useEffect(() => {
+    if (postId) {
+      setComments([])
+      setDraft('')
+      setReplyTo(null)
+      setEditing(null)
+      setError(null)
+      loadPage(null)
+    }
+  }, [postId, loadPage])
+
+  const handleSubmit = async () => {
+    if (!postId || !draft.trim()) return
+
+    setError(null)
+    try {
+      const response = await fetch(`/api/posts/${postId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: draft, parentId: replyTo?.id ?? null })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to add comment')
+        return
+      }
+
+      const comment: CommentItem = data.comment
+      setComments(prev => comment.parentId
+        ? prev.map(c => c.id === comment.parentId ? { ...c, replies: [...(c.replies || []), comment] } : c)
+        : [...prev, comment]
+      )
+      setDraft('')
+      setReplyTo(null)
+      onCountChange?.(postId, 1)
+    } catch (error) {
+      console.error('Error adding comment:', error)
+      setError('Network error: failed to add comment')
+    }
+  }
+
+  const handleSaveEdit = async () => {
+    if (!postId || !editing || !editing.content.trim()) return
+
+    try {
+      const response = await fetch(`/api/posts/${postId}/comments/${editing.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: editing.content })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to update comment')
+        return
+      }
+
+      const updated: CommentItem = data.comment
+      const apply = (c: CommentItem) => c.id === updated.id ? { ...c, content: updated.content, editedAt: updated.editedAt } : c
+      setComments(prev => prev.map(c => ({ ...apply(c), replies: c.replies?.map(apply) })))
+      setEditing(null)
+    } catch (error) {
+      console.error('Error updating comment:', error)
+    }
+  }
+
+  const handleDelete = async (comment: CommentItem) => {
+    if (!postId || !confirm('Delete this comment?')) return
+
+    try {
+      const response = await fetch(`/api/posts/${postId}/comments/${comment.id}`, {
+        method: 'DELETE'
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to delete comment')
+        return
+      }
+
+      setComments(prev => comment.parentId
+        ? prev.map(c => c.id === comment.parentId ? { ...c, replies: c.replies?.filter(r => r.id !== comment.id) } : c)
+        : prev.filter(c => c.id !== comment.id)
+      )
+      onCountChange?.(postId, -data.removed)
+    } catch (error) {
+      console.error('Error deleting comment:', error)
+    }
+  }
+
+  const renderComment = (comment: CommentItem, isReply: boolean) => {
+    const isAuthor = comment.user.id === currentUserId
+    const canDelete = isAuthor || postOwnerId === currentUserId
+
+    return (
+      <div key={comment.id} className={isReply ? "ml-10 mt-2" : ""}>
+        <div className="flex gap-2">
+          <Avatar className={isReply ? "h-6 w-6" : "h-8 w-8"}>
+            <AvatarImage src={comment.user.profilePic || "/placeholder.svg"} />
+            <AvatarFallback>{comment.user.username[0].toUpperCase()}</AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0">
+            {editing?.id === comment.id ? (
+              <div className="flex gap-2">
+                <Input
+                  value={editing.content}
+                  onChange={(e) => setEditing({ id: comment.id, content: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSaveEdit()}
+                  autoFocus
+                />
+                <Button size="sm" onClick={handleSaveEdit}>Save</Button>
+                <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>Cancel</Button>
+              </div>
+            ) : (
+              <p className="text-sm text-foreground break-words">
+                <span className="font-semibold mr-2">{comment.user.username}</span>
+                {comment.content}
+              </p>
+            )}
+            <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
+              <span>{new Date(comment.createdAt).toLocaleString()}</span>
+              {comment.editedAt && <span>(edited)</span>}
+              {!isReply && currentUserId && (
+                <button className="hover:text-foreground" onClick={() => setReplyTo(comment)}>Reply</button>
+              )}
+              {isAuthor && (
+                <button className="hover:text-foreground" onClick={() => setEditing({ id: comment.id, content: comment.content })}>
+                  <Pencil className="h-3 w-3" />
+                </button>
+              )}
+              {canDelete && (
+                <button className="hover:text-destructive" onClick={() => handleDelete(comment)}>
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              )}
+              {currentUserId && !isAuthor && (
+                <button
+                  className="hover:text-destructive"
+                  title="Report comment"
+                  onClick={() => setReportTarget({ type: 'comment', id: comment.id, label: `comment by ${comment.user.username}` })}
+                >
+                  <Flag className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+        {comment.replies?.map(reply => renderComment(reply, true))}
+      </div>
+    )
+  }
+
+  return (
+    <Dialog open={postId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageCircle className="h-5 w-5" />
+            Comments
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+          {comments.map(comment => renderComment(comment, false))}
+
+          {!isLoading && comments.length === 0 && (
+            <p className="text-center text-muted-foreground py-6">No comments yet</p>
+          )}
+
+          {nextCursor && (
+            <Button variant="ghost" className="w-full" disabled={isLoading} onClick={() => loadPage(nextCursor)}>
+              {isLoading ? "Loading..." : "Load more comments"}
+            </Button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {currentUserId ? (
+          <div className="space-y-2 border-t pt-3">
+            {replyTo && (
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>Replying to {replyTo.user.username}</span>
+                <button onClick={() => setReplyTo(null)}>
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Input
+                placeholder={replyTo ? "Write a reply..." : "Add a comment..."}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+              />
+              <Button onClick={handleSubmit} disabled={!draft.trim()}>Post</Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-center text-sm text-muted-foreground border-t pt-3">Log in to comment</p>
+        )}
+      </DialogContent>
+      <ReportDialog target={reportTarget} onClose={() => setReportTarget(null)} />
+    </Dialog>
+  )
+}
@@ -35,6 +35,8 @@ import {
 } from '@/components/ui/dialog'
 import { AIConfirmationDialog } from '@/components/ai-confirmation-dialog'
 import { cn } from '@/lib/utils'
+import { MediaAnalysisService } from '@/lib/media-analysis'
+import { SUPPORTED_IMAGE_TYPES, SUPPORTED_VIDEO_TYPES } from '@/lib/deepfake-detection'
 
 interface AnalysisResult {
   confidence: number
@@ -47,6 +49,7 @@ interface AnalysisResult {
     compressionArtifacts?: number
     motionAnalysis?: number
     audioVisualSync?: number
+    pixelPatterns?: number
   }
   processingTime: string
   modelVersion: string
@@ -55,6 +58,11 @@ interface AnalysisResult {
   filename?: string
   filesize?: string
   filetype?: string
+  knownFakeMatch?: {
+    contentType: 'post' | 'story'
+    matchedFrames: number
+    distance: number
+  }
   // Backend information from FastAPI
   backendInfo?: {
     prediction: string
@@ -64,6 +72,8 @@ interface AnalysisResult {
     text_importance: number
     transcript: string
   }
+  // The server-side analysis job this result came from
+  jobId?: string
 }
 
 interface FileAnalysis {
@@ -71,6 +81,8 @@ interface FileAnalysis {
   preview: string
   analysis?: AnalysisResult
   status: 'pending' | 'analyzing' | 'completed' | 'error'
+  // Job progress from the analysis queue, 0-100
+  progress?: number
   error?: string
 }
 
@@ -93,14 +105,20 @@ const DetailedAnalysisDialog = ({ fileAnalysis, isOpen, onClose }: DetailedAnaly
 
   const detailsArray = [
     { label: 'Face Consistency', value: analysis.details.faceConsistency, description: 'Consistency of facial features and expressions' },
-    { label: 'Temporal Consistency', value: analysis.details.temporalConsistency, description: 'Frame-to-frame consistency (video only)' },
     { label: 'Artifact Detection', value: analysis.details.artifactDetection, description: 'Digital manipulation artifacts' },
     { label: 'Lighting Analysis', value: analysis.details.lightingAnalysis, description: 'Natural lighting patterns' },
     { label: 'Compression Artifacts', value: analysis.details.compressionArtifacts, description: 'Unusual compression patterns' },
   ]
 
+  if (analysis.filetype === 'image') {
+    detailsArray.push(
+      { label: 'Pixel Patterns', value: analysis.details.pixelPatterns || 0, description: 'Consistency of sensor noise across the image' }
+    )
+  }
+
   if (analysis.filetype === 'video') {
     detailsArray.push(
+      { label: 'Temporal Consistency', value: analysis.details.temporalConsistency, description: 'Frame-to-frame consistency' },
       { label: 'Motion Analysis', value: analysis.details.motionAnalysis || 0, description: 'Natural motion patterns' },
       { label: 'Audio-Visual Sync', value: analysis.details.audioVisualSync || 0, description: 'Synchronization between audio and video' }
     )
@@ -253,9 +271,10 @@ const DetailedAnalysisDialog = ({ fileAnalysis, isOpen, onClose }: DetailedAnaly
   )
 }
 
+// What the deepfake backend can analyze
 const SUPPORTED_TYPES = {
-  image: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
-  video: ['video/mp4', 'video/webm', 'video/quicktime', 'video/avi']
+  image: SUPPORTED_IMAGE_TYPES,
+  video: SUPPORTED_VIDEO_TYPES
 }
 
 export function CreatePostModal({ isOpen, onClose, onPostCreated }: CreatePostModalProps) {
@@ -298,66 +317,30 @@ export function CreatePostModal({ isOpen, onClose, onPostCreated }: CreatePostMo
     })
   }
 
-  const analyzeFileContent = async (file: File): Promise<AnalysisResult> => {
-    const formData = new FormData()
-    formData.append('file', file)
-    
-    try {
-      const response = await fetch('/api/deepfake/analyze', {
-        method: 'POST',
-        body: formData
-      })
-      
-      if (!response.ok) {
-        throw new Error('Analysis failed')
-      }
-      
-      const data = await response.json()
-      
-      if (!data.success) {
-        throw new Error(data.error || 'Analysis failed')
-      }
+  // Throws when the backend rejects the file or is unreachable, so a failed
+  // analysis never looks like a clean result
+  const analyzeFileContent = async (file: File, onProgress?: (progress: number) => void): Promise<AnalysisResult> => {
+    // Long videos take minutes, so the server queues them and we poll the job
+    const data = await MediaAnalysisService.runAnalysisJob(file, onProgress)
 
-      // USE THE ACTUAL BACKEND RESPONSE - NO MORE FAKE DATA!
-      // The API response includes both 'analysis' (converted format) and 'backend' (raw FastAPI response)
-      const result = data.analysis
-      
-      // Add the raw backend information for detailed display
-      if (data.backend) {
-        result.backendInfo = {
-          prediction: data.backend.prediction,
-          confidence: data.backend.confidence,
-          image_importance: data.backend.image_importance,
-          audio_importance: data.backend.audio_importance,
-          text_importance: data.backend.text_importance,
-          transcript: data.backend.transcript
-        }
-      }
-      
-      return result
-    } catch (error) {
-      console.error('Backend analysis failed:', error)
-      
-      // Only return an error result, don't generate fake data
-      return {
-        confidence: 0,
-        isDeepfake: false,
-        details: {
-          faceConsistency: 0,
-          temporalConsistency: 0,
-          artifactDetection: 0,
-          lightingAnalysis: 0,
-          compressionArtifacts: 0,
-        },
-        processingTime: '0s',
-        modelVersion: "Backend Unavailable",
-        riskLevel: 'low' as const,
-        recommendation: 'Backend analysis failed. Please ensure the FastAPI server is running on localhost:8000',
-        filename: file.name,
-        filesize: formatFileSize(file.size),
-        filetype: getFileType(file)
+    // USE THE ACTUAL BACKEND RESPONSE - NO MORE FAKE DATA!
+    // The job result includes both 'analysis' (converted format) and 'backend' (raw FastAPI response)
+    const result = data.analysis
+    result.jobId = data.jobId
+    
+    // Add the raw backend information for detailed display
+    if (data.backend) {
+      result.backendInfo = {
+        prediction: data.backend.prediction,
+        confidence: data.backend.confidence,
+        image_importance: data.backend.image_importance,
+        audio_importance: data.backend.audio_importance,
+        text_importance: data.backend.text_importance,
+        transcript: data.backend.transcript
       }
     }
+    
+    return result
   }
 
   const handleFiles = async (fileList: FileList) => {
@@ -387,7 +370,9 @@ export function CreatePostModal({ isOpen, onClose, onPostCreated }: CreatePostMo
     ))
 
     try {
-      const analysis = await analyzeFileContent(files[fileIndex].file)
+      const analysis = await analyzeFileContent(files[fileIndex].file, (progress) => {
+        setFiles(prev => prev.map((f, i) => i === fileIndex ? { ...f, progress } : f))
+      })
       
       setFiles(prev => prev.map((f, i) => 
         i === fileIndex ? { 
@@ -403,11 +388,12 @@ export function CreatePostModal({ isOpen, onClose, onPostCreated }: CreatePostMo
         setShowAuthDialog(true)
       }
     } catch (error) {
+      console.error('Backend analysis failed:', error)
       setFiles(prev => prev.map((f, i) => 
         i === fileIndex ? { 
           ...f, 
           status: 'error', 
-          error: 'Analysis failed' 
+          error: error instanceof Error ? error.message : 'Analysis failed' 
         } : f
       ))
     }
@@ -527,22 +513,19 @@ export function CreatePostModal({ isOpen, onClose, onPostCreated }: CreatePostMo
       }
       
       // Save to database via API call
-      const token = localStorage.getItem('authToken') || 'demo-token-1'
       const currentUser = JSON.parse(localStorage.getItem("currentUser") || '{}')
       
       const response = await fetch('/api/posts', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           mediaUrl: mediaUrl,
           mediaType: fileAnalysis.file.type.startsWith('video') ? 'video' : 'image',
           caption: postCaption,
-          analysisResult: fileAnalysis.analysis,
-          aiConfirmed,
-          userId: currentUser.id || "1"
+          analysisJobId: fileAnalysis.analysis?.jobId,
+          aiConfirmed
         })
       })
 
@@ -582,7 +565,8 @@ export function CreatePostModal({ isOpen, onClose, onPostCreated }: CreatePostMo
           timestamp: "Just now",
           isLiked: false,
           riskLevel: fileAnalysis.analysis?.riskLevel || 'low',
-          aiConfirmed
+          aiConfirmed,
+          moderationStatus: result.post?.moderationStatus
         }
 
         // Add to the UI immediately
@@ -712,7 +696,7 @@ export function CreatePostModal({ isOpen, onClose, onPostCreated }: CreatePostMo
                   <div>
                     <p className="text-lg font-medium">Drop files here or click to upload</p>
                     <p className="text-sm text-muted-foreground mt-1">
-                      Supports images (JPG, PNG, WebP) and videos (MP4, WebM, MOV)
+                      Supports images (JPG, PNG, WebP, BMP) and videos (MP4, AVI, MOV)
                     </p>
                   </div>
                   
@@ -773,7 +757,9 @@ export function CreatePostModal({ isOpen, onClose, onPostCreated }: CreatePostMo
                       <div className="absolute inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center">
                         <div className="text-center space-y-2">
                           <div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full mx-auto" />
-                          <p className="text-sm font-medium">Analyzing...</p>
+                          <p className="text-sm font-medium">
+                            {fileAnalysis.progress ? `Analyzing... ${fileAnalysis.progress}%` : 'Analyzing...'}
+                          </p>
                         </div>
                       </div>
                     )}
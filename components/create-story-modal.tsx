@@ -19,12 +19,13 @@ export function CreateStoryModal({ isOpen, onClose, onStoryCreated }: CreateStor
   const [selectedFiles, setSelectedFiles] = useState<File[]>([])
   const [isUploading, setIsUploading] = useState(false)
   const [showWarning, setShowWarning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
 
   const handleFilesAnalyzed = useCallback((results: MediaAnalysisResult[]) => {
     setAnalysisResults(results)
     
     // Check if any files have high risk - with safety check
-    const hasHighRisk = results.some(r => r && r.riskLevel === 'high')
+    const hasHighRisk = results.some(r => r && r.isDeepfake && r.riskLevel === 'high')
     setShowWarning(hasHighRisk)
   }, [])
 
@@ -38,27 +39,31 @@ export function CreateStoryModal({ isOpen, onClose, onStoryCreated }: CreateStor
     }
 
     setIsUploading(true)
+    setError(null)
 
     try {
-      // Simulate story creation
-      const newStory = {
-        id: `story_${Math.random().toString(36).substr(2, 9)}`,
-        user: {
-          id: "current_user",
-          username: JSON.parse(localStorage.getItem("currentUser") || "{}").username || "demo_user",
-          profilePic: "/placeholder.svg?height=40&width=40",
-        },
-        mediaUrl: URL.createObjectURL(selectedFiles[0]),
-        timestamp: "now",
-        viewed: false,
-        deepfakeScore: analysisResults[0]?.score || 0,
-        riskLevel: analysisResults[0]?.riskLevel || 'low'
+      const formData = new FormData()
+      formData.append('file', selectedFiles[0])
+      if (analysisResults[0]?.jobId) {
+        formData.append('analysisJobId', analysisResults[0].jobId)
       }
 
-      onStoryCreated(newStory)
+      const response = await fetch('/api/stories', {
+        method: 'POST',
+        body: formData
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to share story')
+        return
+      }
+
+      onStoryCreated(data.story)
       handleClose()
     } catch (error) {
       console.error("Error creating story:", error)
+      setError('Network error: failed to share story')
     } finally {
       setIsUploading(false)
     }
@@ -68,11 +73,12 @@ export function CreateStoryModal({ isOpen, onClose, onStoryCreated }: CreateStor
     setAnalysisResults([])
     setSelectedFiles([])
     setShowWarning(false)
+    setError(null)
     onClose()
   }
 
-  const canPost = selectedFiles.length > 0 && !isUploading
-  const hasHighRiskContent = analysisResults.some(r => r && r.riskLevel === 'high')
+  const canPost = selectedFiles.length > 0 && analysisResults.length > 0 && !isUploading
+  const hasHighRiskContent = analysisResults.some(r => r && r.isDeepfake && r.riskLevel === 'high')
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
@@ -145,6 +151,13 @@ export function CreateStoryModal({ isOpen, onClose, onStoryCreated }: CreateStor
             </div>
           )}
 
+          {error && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
           {/* Action Buttons */}
           <div className="flex justify-end gap-3 pt-4 border-t">
             <Button variant="outline" onClick={handleClose}>
@@ -0,0 +1,150 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Users } from 'lucide-react'
+
+interface FollowListUser {
+  id: string
+  username: string
+  profilePic: string
+  bio?: string
+  followedAt: string
+  isFollowing: boolean
+  followsYou: boolean
+  isMutual: boolean
+}
+
+interface FollowListDialogProps {
+  userId: string | null
+  type: 'followers' | 'following'
+  currentUserId?: string
+  onClose: () => void
+  onFollowChange?: () => void
+}
+
+const PAGE_SIZE = 20
+
+export function FollowListDialog({ userId, type, currentUserId, onClose, onFollowChange }: FollowListDialogProps) {
+  const [users, setUsers] = useState<FollowListUser[]>([])
+  const [nextOffset, setNextOffset] = useState<number | null>(0)
+  const [isLoading, setIsLoading] = useState(false)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+
+  const loadPage = useCallback(async (offset: number, replace: boolean) => {
+    if (!userId) return
+
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/users/${userId}/${type}?limit=${PAGE_SIZE}&offset=${offset}`)
+
+      if (response.ok) {
+        const data = await response.json()
+        setUsers(prev => replace ? data.users : [...prev, ...data.users])
+        setNextOffset(data.nextOffset)
+      }
+    } catch (error) {
+      console.error(`Error loading ${type}:`, error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [userId, type])
+
+  useEffect(() => {
+    if (userId) {
+      setUsers([])
+      loadPage(0, true)
+    }
+  }, [userId, loadPage])
+
+  const handleToggleFollow = async (user: FollowListUser) => {
+    setPendingId(user.id)
+    try {
+      const response = await fetch(`/api/users/${user.id}/follow`, {
+        method: user.isFollowing ? 'DELETE' : 'POST'
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setUsers(prev => prev.map(u =>
+          u.id === user.id
+            ? { ...u, isFollowing: data.relationship.isFollowing, isMutual: data.relationship.isMutual }
+            : u
+        ))
+        onFollowChange?.()
+      }
+    } catch (error) {
+      console.error('Error updating follow:', error)
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <Dialog open={userId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 capitalize">
+            <Users className="h-5 w-5" />
+            {type}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {users.map((user) => (
+            <div key={user.id} className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3 min-w-0">
+                <Avatar className="h-10 w-10">
+                  <AvatarImage src={user.profilePic || "/placeholder.svg"} />
+                  <AvatarFallback>{user.username[0].toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-foreground truncate">{user.username}</p>
+                    {user.isMutual ? (
+                      <Badge variant="secondary" className="text-xs">Mutual</Badge>
+                    ) : user.followsYou && (
+                      <Badge variant="outline" className="text-xs">Follows you</Badge>
+                    )}
+                  </div>
+                  {user.bio && <p className="text-sm text-muted-foreground truncate">{user.bio}</p>}
+                </div>
+              </div>
+
+              {user.id !== currentUserId && (
+                <Button
+                  size="sm"
+                  variant={user.isFollowing ? "outline" : "default"}
+                  disabled={pendingId === user.id}
+                  onClick={() => handleToggleFollow(user)}
+                >
+                  {user.isFollowing ? "Unfollow" : "Follow"}
+                </Button>
+              )}
+            </div>
+          ))}
+
+          {!isLoading && users.length === 0 && (
+            <p className="text-center text-muted-foreground py-6">
+              {type === 'followers' ? 'No followers yet' : 'Not following anyone yet'}
+            </p>
+          )}
+
+          {nextOffset !== null && users.length > 0 && (
+            <Button
+              variant="ghost"
+              className="w-full"
+              disabled={isLoading}
+              onClick={() => loadPage(nextOffset, false)}
+            >
+              {isLoading ? "Loading..." : "Load more"}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -40,6 +40,8 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ThemeSwitcher } from '@/components/theme-switcher'
 import { cn } from '@/lib/utils'
+import { MediaAnalysisService } from '@/lib/media-analysis'
+import { SUPPORTED_IMAGE_TYPES, SUPPORTED_VIDEO_TYPES } from '@/lib/deepfake-detection'
 
 interface AnalysisResult {
   confidence: number
@@ -52,6 +54,7 @@ interface AnalysisResult {
     compressionArtifacts?: number
     motionAnalysis?: number
     audioVisualSync?: number
+    pixelPatterns?: number
   }
   processingTime: string
   modelVersion: string
@@ -60,6 +63,9 @@ interface AnalysisResult {
   filename?: string
   filesize?: string
   filetype?: string
+  cached?: boolean
+  // Third-party detectors in the ensemble, 0-100 by provider name
+  externalAPIs?: Record<string, number | undefined>
 }
 
 interface FileAnalysis {
@@ -67,6 +73,8 @@ interface FileAnalysis {
   preview: string
   analysis?: AnalysisResult
   status: 'pending' | 'analyzing' | 'completed' | 'error'
+  // Job progress from the analysis queue, 0-100
+  progress?: number
   error?: string
 }
 
@@ -83,14 +91,20 @@ const DetailedAnalysisDialog = ({ fileAnalysis, isOpen, onClose }: DetailedAnaly
 
   const detailsArray = [
     { label: 'Face Consistency', value: analysis.details.faceConsistency, description: 'Consistency of facial features and expressions' },
-    { label: 'Temporal Consistency', value: analysis.details.temporalConsistency, description: 'Frame-to-frame consistency (video only)' },
     { label: 'Artifact Detection', value: analysis.details.artifactDetection, description: 'Digital manipulation artifacts' },
     { label: 'Lighting Analysis', value: analysis.details.lightingAnalysis, description: 'Natural lighting patterns' },
     { label: 'Compression Artifacts', value: analysis.details.compressionArtifacts, description: 'Unusual compression patterns' },
   ]
 
+  if (analysis.filetype === 'image') {
+    detailsArray.push(
+      { label: 'Pixel Patterns', value: analysis.details.pixelPatterns || 0, description: 'Consistency of sensor noise across the image' }
+    )
+  }
+
   if (analysis.filetype === 'video') {
     detailsArray.push(
+      { label: 'Temporal Consistency', value: analysis.details.temporalConsistency, description: 'Frame-to-frame consistency' },
       { label: 'Motion Analysis', value: analysis.details.motionAnalysis || 0, description: 'Natural motion patterns' },
       { label: 'Audio-Visual Sync', value: analysis.details.audioVisualSync || 0, description: 'Synchronization between audio and video' }
     )
@@ -159,7 +173,10 @@ const DetailedAnalysisDialog = ({ fileAnalysis, isOpen, onClose }: DetailedAnaly
                 </div>
                 <div>
                   <span className="text-muted-foreground">Model Version:</span>
-                  <div className="font-medium">{analysis.modelVersion}</div>
+                  <div className="font-medium">
+                    {analysis.modelVersion}
+                    {analysis.cached && <span className="text-muted-foreground font-normal"> (cached result)</span>}
+                  </div>
                 </div>
               </div>
             </CardContent>
@@ -186,6 +203,28 @@ const DetailedAnalysisDialog = ({ fileAnalysis, isOpen, onClose }: DetailedAnaly
             </CardContent>
           </Card>
 
+          {/* Third-party detectors, when the ensemble has any */}
+          {analysis.externalAPIs && Object.keys(analysis.externalAPIs).length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Other Detectors</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {Object.entries(analysis.externalAPIs).map(([provider, score]) => (
+                    <div key={provider} className="space-y-2">
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm font-medium capitalize">{provider}</span>
+                        <span className="text-sm font-bold">{score ?? 0}% likely manipulated</span>
+                      </div>
+                      <Progress value={score ?? 0} className="h-2" />
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Recommendation */}
           <Alert>
             <Info className="h-4 w-4" />
@@ -213,9 +252,10 @@ const DetailedAnalysisDialog = ({ fileAnalysis, isOpen, onClose }: DetailedAnaly
   )
 }
 
+// What the deepfake backend can analyze
 const SUPPORTED_TYPES = {
-  image: [],
-  video: ['video/mp4', 'video/webm', 'video/quicktime', 'video/avi', 'video/ogg']
+  image: SUPPORTED_IMAGE_TYPES,
+  video: SUPPORTED_VIDEO_TYPES
 }
 
 export default function MediaAnalyzer() {
@@ -229,10 +269,11 @@ export default function MediaAnalyzer() {
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const isSupported = (file: File) => {
-    return SUPPORTED_TYPES.video.includes(file.type)
+    return [...SUPPORTED_TYPES.image, ...SUPPORTED_TYPES.video].includes(file.type)
   }
 
   const getFileType = (file: File): 'image' | 'video' | 'unknown' => {
+    if (SUPPORTED_TYPES.image.includes(file.type)) return 'image'
     if (SUPPORTED_TYPES.video.includes(file.type)) return 'video'
     return 'unknown'
   }
@@ -253,59 +294,14 @@ export default function MediaAnalyzer() {
     })
   }
 
-  const analyzeFileContent = async (file: File): Promise<AnalysisResult> => {
-    const formData = new FormData()
-    formData.append('file', file)
+  // Throws when the backend rejects the file or is unreachable, so a failed
+  // analysis never looks like a clean result
+  const analyzeFileContent = async (file: File, onProgress?: (progress: number) => void): Promise<AnalysisResult> => {
+    // Long videos take minutes, so the server queues them and we poll the job
+    const data = await MediaAnalysisService.runAnalysisJob(file, onProgress)
     
-    try {
-      const response = await fetch('/api/deepfake/analyze', {
-        method: 'POST',
-        body: formData
-      })
-      
-      if (!response.ok) {
-        throw new Error('Analysis failed')
-      }
-      
-      const data = await response.json()
-      
-      if (!data.success) {
-        throw new Error(data.error || 'Analysis failed')
-      }
-      
-      // USE THE ACTUAL BACKEND RESPONSE - NO MORE RANDOM DATA!
-      return data.analysis
-    } catch (error) {
-      console.error('Backend analysis failed:', error)
-      
-      // Only support video files for deepfake detection
-      const filetype = getFileType(file)
-      if (filetype !== 'video') {
-        throw new Error('Only video files are supported for deepfake detection')
-      }
-      
-      // Return error state instead of fake data
-      return {
-        confidence: 0,
-        isDeepfake: false,
-        details: {
-          faceConsistency: 0,
-          temporalConsistency: 0,
-          artifactDetection: 0,
-          lightingAnalysis: 0,
-          compressionArtifacts: 0,
-          motionAnalysis: 0,
-          audioVisualSync: 0
-        },
-        processingTime: '0s',
-        modelVersion: 'Backend Unavailable',
-        riskLevel: 'low' as const,
-        recommendation: 'Backend analysis failed. Please ensure FastAPI server is running on localhost:8000',
-        filename: file.name,
-        filesize: formatFileSize(file.size),
-        filetype
-      }
-    }
+    // USE THE ACTUAL BACKEND RESPONSE - NO MORE RANDOM DATA!
+    return data.analysis
   }
 
   const handleFiles = async (fileList: FileList) => {
@@ -335,7 +331,9 @@ export default function MediaAnalyzer() {
     ))
 
     try {
-      const analysis = await analyzeFileContent(files[fileIndex].file)
+      const analysis = await analyzeFileContent(files[fileIndex].file, (progress) => {
+        setFiles(prev => prev.map((f, i) => i === fileIndex ? { ...f, progress } : f))
+      })
       
       setFiles(prev => prev.map((f, i) => 
         i === fileIndex ? { 
@@ -351,11 +349,12 @@ export default function MediaAnalyzer() {
         setShowAuthDialog(true)
       }
     } catch (error) {
+      console.error('Backend analysis failed:', error)
       setFiles(prev => prev.map((f, i) => 
         i === fileIndex ? { 
           ...f, 
           status: 'error', 
-          error: 'Analysis failed' 
+          error: error instanceof Error ? error.message : 'Analysis failed' 
         } : f
       ))
     }
@@ -452,7 +451,7 @@ export default function MediaAnalyzer() {
           <CardHeader>
                          <CardTitle className="flex items-center space-x-2">
                <Upload className="h-5 w-5" />
-               <span>Upload Videos for Deepfake Detection</span>
+               <span>Upload Videos or Images for Deepfake Detection</span>
              </CardTitle>
           </CardHeader>
           <CardContent>
@@ -474,7 +473,7 @@ export default function MediaAnalyzer() {
                  ref={fileInputRef}
                  type="file"
                  multiple
-                 accept="video/*"
+                 accept="video/*,image/*"
                  onChange={(e) => e.target.files && handleFiles(e.target.files)}
                  className="hidden"
                />
@@ -485,16 +484,20 @@ export default function MediaAnalyzer() {
                 </div>
                 
                                  <div>
-                   <p className="text-lg font-medium">Drop video files here or click to upload</p>
+                   <p className="text-lg font-medium">Drop videos or images here or click to upload</p>
                    <p className="text-sm text-muted-foreground mt-1">
-                     Supports videos (MP4, WebM, AVI, MOV, OGG) for deepfake detection
+                     Supports videos (MP4, AVI, MOV) and images (JPEG, PNG, WebP, BMP) for deepfake detection
                    </p>
                  </div>
                  
                  <div className="flex items-center justify-center space-x-4 text-xs text-muted-foreground">
                    <div className="flex items-center space-x-1">
                      <FileVideo className="h-3 w-3" />
-                     <span>Videos Only</span>
+                     <span>Videos</span>
+                   </div>
+                   <div className="flex items-center space-x-1">
+                     <FileImage className="h-3 w-3" />
+                     <span>Images</span>
                    </div>
                  </div>
               </div>
@@ -544,7 +547,9 @@ export default function MediaAnalyzer() {
                     <div className="absolute inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center">
                       <div className="text-center space-y-2">
                         <div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full mx-auto" />
-                        <p className="text-sm font-medium">Analyzing...</p>
+                        <p className="text-sm font-medium">
+                          {fileAnalysis.progress ? `Analyzing... ${fileAnalysis.progress}%` : 'Analyzing...'}
+                        </p>
                       </div>
                     </div>
                   )}
@@ -0,0 +1,78 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, Eye, Shield, ShieldQuestion } from "lucide-react"
+
+export interface AttachmentAnalysis {
+  status: 'pending' | 'completed' | 'unsupported' | 'failed'
+  deepfakeScore: number
+  riskLevel: 'low' | 'medium' | 'high'
+}
+
+interface MessageAttachmentProps {
+  mediaUrl: string
+  mediaType: 'image' | 'video' | null
+  analysis: AttachmentAnalysis | null
+  // Only recipients get the blur; senders already saw the verdict when sending
+  isOwnMessage: boolean
+}
+
+export function MessageAttachment({ mediaUrl, mediaType, analysis, isOwnMessage }: MessageAttachmentProps) {
+  const [revealed, setRevealed] = useState(false)
+
+  const isHighRisk = analysis?.status === 'completed' && analysis.riskLevel === 'high'
+  const isHidden = isHighRisk && !isOwnMessage && !revealed
+
+  return (
+    <div className="relative mb-1 overflow-hidden rounded-md">
+      <div className={isHidden ? "blur-xl pointer-events-none select-none" : ""}>
+        {mediaType === 'video' ? (
+          <video src={mediaUrl} className="max-h-64 w-full object-cover" controls={!isHidden} muted playsInline />
+        ) : (
+          <img src={mediaUrl} alt="Attachment" className="max-h-64 w-full object-cover" />
+        )}
+      </div>
+
+      {isHidden && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/60 p-3 text-center text-white">
+          <AlertTriangle className="h-6 w-6 text-red-400" />
+          <p className="text-sm font-medium">Likely manipulated media</p>
+          <p className="text-xs text-gray-200">
+            SocialGuard rated this {analysis!.deepfakeScore}% likely to be a deepfake.
+          </p>
+          <Button size="sm" variant="secondary" onClick={() => setRevealed(true)}>
+            <Eye className="h-3 w-3 mr-1" />
+            Reveal anyway
+          </Button>
+        </div>
+      )}
+
+      {!isHidden && analysis && (
+        <div className="absolute top-1 right-1">
+          {analysis.status !== 'completed' ? (
+            <span className="flex items-center gap-1 rounded-full bg-gray-700/80 px-2 py-0.5 text-[10px] text-white">
+              <ShieldQuestion className="h-3 w-3" />
+              Not verified
+            </span>
+          ) : analysis.riskLevel === 'high' ? (
+            <span className="flex items-center gap-1 rounded-full bg-red-500 px-2 py-0.5 text-[10px] text-white">
+              <AlertTriangle className="h-3 w-3" />
+              AI Detected: {analysis.deepfakeScore}%
+            </span>
+          ) : analysis.riskLevel === 'medium' ? (
+            <span className="flex items-center gap-1 rounded-full bg-yellow-500 px-2 py-0.5 text-[10px] text-white">
+              <AlertTriangle className="h-3 w-3" />
+              Caution: {analysis.deepfakeScore}%
+            </span>
+          ) : (
+            <span className="flex items-center gap-1 rounded-full bg-green-600/90 px-2 py-0.5 text-[10px] text-white">
+              <Shield className="h-3 w-3" />
+              Verified
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,143 +6,252 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { Send, Search } from "lucide-react"
+import { Send, Search, Paperclip, X, Loader2 } from "lucide-react"
+import { MessageAttachment, type AttachmentAnalysis } from "@/components/message-attachment"
+import { useRealtime } from "@/hooks/use-realtime"
 
 interface Message {
   id: string
+  conversationId: string
   senderId: string
   receiverId: string
   content: string
-  timestamp: string
+  mediaUrl: string | null
+  mediaType: 'image' | 'video' | null
+  attachmentAnalysis: AttachmentAnalysis | null
+  createdAt: string
   isRead: boolean
 }
 
+// Adds a message, or replaces the copy we have. An attachment awaiting its
+// verdict is replaced once it's delivered, never the other way round.
+function mergeMessage(messages: Message[], message: Message): Message[] {
+  const existing = messages.find((m) => m.id === message.id)
+  if (!existing) return [...messages, message]
+  if (message.attachmentAnalysis?.status === "pending" && existing.attachmentAnalysis?.status !== "pending") {
+    return messages
+  }
+  return messages.map((m) => (m.id === message.id ? message : m))
+}
+
 interface Conversation {
-  id: string
+  // null until the first message of a new conversation is sent
+  id: string | null
   user: {
     id: string
     username: string
     profilePic: string
-    isOnline: boolean
   }
   lastMessage: string
-  timestamp: string
+  updatedAt: string
   unreadCount: number
 }
 
 interface MessagingPanelProps {
   onClose: () => void
+  onUnreadCountChange?: (count: number) => void
+}
+
+const formatConversationTime = (iso: string) => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000)
+  if (minutes < 1) return "now"
+  if (minutes < 60) return `${minutes}m`
+  if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h`
+  return `${Math.floor(minutes / (60 * 24))}d`
 }
 
-export function MessagingPanel({ onClose }: MessagingPanelProps) {
+const formatMessageTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+
+export function MessagingPanel({ onClose, onUnreadCountChange }: MessagingPanelProps) {
   const [conversations, setConversations] = useState<Conversation[]>([])
+  const [contacts, setContacts] = useState<Conversation["user"][]>([])
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null)
   const [messages, setMessages] = useState<Message[]>([])
+  const [olderCursor, setOlderCursor] = useState<string | null>(null)
   const [newMessage, setNewMessage] = useState("")
+  const [attachment, setAttachment] = useState<File | null>(null)
+  const [isSending, setIsSending] = useState(false)
   const [searchQuery, setSearchQuery] = useState("")
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
 
   useEffect(() => {
+    const user = JSON.parse(localStorage.getItem("currentUser") || "{}")
+    setCurrentUserId(user.id ? String(user.id) : null)
     loadConversations()
+    if (user.id) loadContacts(String(user.id))
   }, [])
 
   useEffect(() => {
-    if (selectedConversation) {
+    if (selectedConversation?.id) {
       loadMessages(selectedConversation.id)
+      markAsRead(selectedConversation.id)
+    } else {
+      setMessages([])
+      setOlderCursor(null)
     }
-  }, [selectedConversation])
+  }, [selectedConversation?.id])
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
   }, [messages])
 
-  const loadConversations = () => {
-    const mockConversations: Conversation[] = [
-      {
-        id: "1",
-        user: {
-          id: "1",
-          username: "alice_doe",
-          profilePic: "/placeholder.svg?height=40&width=40",
-          isOnline: true,
-        },
-        lastMessage: "Hey! How are you doing?",
-        timestamp: "2m",
-        unreadCount: 2,
-      },
-      {
-        id: "2",
-        user: {
-          id: "2",
-          username: "john_smith",
-          profilePic: "/placeholder.svg?height=40&width=40",
-          isOnline: false,
-        },
-        lastMessage: "Thanks for sharing that recipe!",
-        timestamp: "1h",
-        unreadCount: 0,
-      },
-    ]
-    setConversations(mockConversations)
+  useRealtime((event) => {
+    if (event.type === "message") {
+      handleIncomingMessage(event.message as Message)
+    } else if (event.type === "messages_read" && event.conversationId === selectedConversation?.id) {
+      setMessages(prev => prev.map((m) => (m.senderId === currentUserId ? { ...m, isRead: true } : m)))
+    }
+  }, ["message", "messages_read"])
+
+  const handleIncomingMessage = (message: Message) => {
+    const isViewing = selectedConversation?.id === message.conversationId
+    const isIncoming = message.senderId !== currentUserId
+
+    if (isViewing) {
+      setMessages(prev => mergeMessage(prev, message))
+      if (isIncoming) markAsRead(message.conversationId)
+    }
+
+    const existing = conversations.find((conv) => conv.id === message.conversationId)
+    if (!existing) {
+      // First message of a conversation this panel hasn't seen yet
+      loadConversations()
+      return
+    }
+
+    const updated: Conversation = {
+      ...existing,
+      lastMessage: message.content || "Sent an attachment",
+      updatedAt: message.createdAt,
+      unreadCount: isIncoming && !isViewing ? existing.unreadCount + 1 : existing.unreadCount,
+    }
+    setConversations(prev => [updated, ...prev.filter((conv) => conv.id !== updated.id)])
+  }
+
+  const loadConversations = async () => {
+    try {
+      const response = await fetch("/api/messages")
+      if (response.ok) {
+        const data = await response.json()
+        setConversations(data.conversations)
+        onUnreadCountChange?.(data.unreadCount)
+      }
+    } catch (error) {
+      console.error("Error loading conversations:", error)
+    }
   }
 
-  const loadMessages = (conversationId: string) => {
-    const mockMessages: Message[] = [
-      {
-        id: "1",
-        senderId: "1",
-        receiverId: "current",
-        content: "Hey! How are you doing?",
-        timestamp: "10:30 AM",
-        isRead: true,
-      },
-      {
-        id: "2",
-        senderId: "current",
-        receiverId: "1",
-        content: "I'm doing great! Just posted a new photo.",
-        timestamp: "10:32 AM",
-        isRead: true,
-      },
-      {
-        id: "3",
-        senderId: "1",
-        receiverId: "current",
-        content: "I saw it! Beautiful sunset 🌅",
-        timestamp: "10:33 AM",
-        isRead: false,
-      },
-    ]
-    setMessages(mockMessages)
+  // People you follow, so new conversations can be started from the search box
+  const loadContacts = async (userId: string) => {
+    try {
+      const response = await fetch(`/api/users/${userId}/following?limit=50`)
+      if (response.ok) {
+        const data = await response.json()
+        setContacts(data.users.map((u: any) => ({ id: u.id, username: u.username, profilePic: u.profilePic })))
+      }
+    } catch (error) {
+      console.error("Error loading contacts:", error)
+    }
   }
 
-  const sendMessage = () => {
-    if (!newMessage.trim() || !selectedConversation) return
+  const loadMessages = async (conversationId: string, cursor?: string) => {
+    try {
+      const params = cursor ? `?cursor=${cursor}` : ""
+      const response = await fetch(`/api/messages/${conversationId}${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setMessages(prev => cursor ? [...data.messages, ...prev] : data.messages)
+        setOlderCursor(data.nextCursor)
+      }
+    } catch (error) {
+      console.error("Error loading messages:", error)
+    }
+  }
 
-    const message: Message = {
-      id: `msg_${Math.random().toString(36).substr(2, 9)}`,
-      senderId: "current",
-      receiverId: selectedConversation.user.id,
-      content: newMessage,
-      timestamp: new Date().toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
-      isRead: false,
+  const markAsRead = async (conversationId: string) => {
+    try {
+      const response = await fetch(`/api/messages/${conversationId}/read`, {
+        method: "POST",
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setConversations(prev =>
+          prev.map((conv) => (conv.id === conversationId ? { ...conv, unreadCount: 0 } : conv)),
+        )
+        onUnreadCountChange?.(data.unreadCount)
+      }
+    } catch (error) {
+      console.error("Error marking conversation read:", error)
     }
+  }
+
+  const sendMessage = async () => {
+    if ((!newMessage.trim() && !attachment) || !selectedConversation || isSending) return
+
+    setIsSending(true)
+    try {
+      // Attachments go up as multipart so the server can scan them before delivery
+      let body: BodyInit
+      const headers: Record<string, string> = {}
+      if (attachment) {
+        const formData = new FormData()
+        formData.append("recipientId", selectedConversation.user.id)
+        formData.append("content", newMessage)
+        formData.append("file", attachment)
+        body = formData
+      } else {
+        headers["Content-Type"] = "application/json"
+        body = JSON.stringify({ recipientId: selectedConversation.user.id, content: newMessage })
+      }
 
-    setMessages([...messages, message])
-    setNewMessage("")
+      const response = await fetch("/api/messages", { method: "POST", headers, body })
 
-    // Update conversation
-    setConversations(
-      conversations.map((conv) =>
-        conv.id === selectedConversation.id ? { ...conv, lastMessage: newMessage, timestamp: "now" } : conv,
-      ),
-    )
+      if (!response.ok) {
+        const error = await response.json()
+        console.error("Error sending message:", error)
+        return
+      }
+
+      const data = await response.json()
+      setMessages(prev => mergeMessage(prev, data.message))
+      setNewMessage("")
+      setAttachment(null)
+
+      const updated: Conversation = {
+        ...selectedConversation,
+        id: data.message.conversationId,
+        lastMessage: data.message.content || "Sent an attachment",
+        updatedAt: data.message.createdAt,
+      }
+      setSelectedConversation(updated)
+      setConversations(prev => [updated, ...prev.filter((conv) => conv.id !== updated.id)])
+    } catch (error) {
+      console.error("Error sending message:", error)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const startConversation = (user: Conversation["user"]) => {
+    const existing = conversations.find((conv) => conv.user.id === user.id)
+    setSelectedConversation(existing || { id: null, user, lastMessage: "", updatedAt: new Date().toISOString(), unreadCount: 0 })
+    setSearchQuery("")
   }
 
   const filteredConversations = conversations.filter((conv) =>
     conv.user.username.toLowerCase().includes(searchQuery.toLowerCase()),
   )
 
+  const suggestedContacts = searchQuery
+    ? contacts.filter((user) =>
+        user.username.toLowerCase().includes(searchQuery.toLowerCase()) &&
+        !conversations.some((conv) => conv.user.id === user.id),
+      )
+    : []
+
   return (
     <Dialog open={true} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl h-[600px] p-0">
@@ -157,7 +266,7 @@ export function MessagingPanel({ onClose }: MessagingPanelProps) {
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
                 <Input
-                  placeholder="Search conversations..."
+                  placeholder="Search or start a conversation..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="pl-10"
@@ -168,26 +277,21 @@ export function MessagingPanel({ onClose }: MessagingPanelProps) {
             <ScrollArea className="flex-1">
               {filteredConversations.map((conversation) => (
                 <div
-                  key={conversation.id}
+                  key={conversation.id ?? `new-${conversation.user.id}`}
                   className={`p-4 cursor-pointer hover:bg-gray-50 border-b ${
-                    selectedConversation?.id === conversation.id ? "bg-blue-50" : ""
+                    selectedConversation?.user.id === conversation.user.id ? "bg-blue-50" : ""
                   }`}
                   onClick={() => setSelectedConversation(conversation)}
                 >
                   <div className="flex items-center gap-3">
-                    <div className="relative">
-                      <Avatar>
-                        <AvatarImage src={conversation.user.profilePic || "/placeholder.svg"} />
-                        <AvatarFallback>{conversation.user.username[0].toUpperCase()}</AvatarFallback>
-                      </Avatar>
-                      {conversation.user.isOnline && (
-                        <div className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 rounded-full border-2 border-white" />
-                      )}
-                    </div>
+                    <Avatar>
+                      <AvatarImage src={conversation.user.profilePic || "/placeholder.svg"} />
+                      <AvatarFallback>{conversation.user.username[0].toUpperCase()}</AvatarFallback>
+                    </Avatar>
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center justify-between">
                         <p className="font-semibold truncate">{conversation.user.username}</p>
-                        <span className="text-xs text-gray-500">{conversation.timestamp}</span>
+                        <span className="text-xs text-gray-500">{formatConversationTime(conversation.updatedAt)}</span>
                       </div>
                       <p className="text-sm text-gray-600 truncate">{conversation.lastMessage}</p>
                     </div>
@@ -199,6 +303,23 @@ export function MessagingPanel({ onClose }: MessagingPanelProps) {
                   </div>
                 </div>
               ))}
+
+              {suggestedContacts.length > 0 && (
+                <div className="px-4 pt-4 pb-2 text-xs font-medium uppercase text-gray-500">Start a conversation</div>
+              )}
+              {suggestedContacts.map((user) => (
+                <div
+                  key={`contact-${user.id}`}
+                  className="p-4 cursor-pointer hover:bg-gray-50 border-b flex items-center gap-3"
+                  onClick={() => startConversation(user)}
+                >
+                  <Avatar>
+                    <AvatarImage src={user.profilePic || "/placeholder.svg"} />
+                    <AvatarFallback>{user.username[0].toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                  <p className="font-semibold truncate">{user.username}</p>
+                </div>
+              ))}
             </ScrollArea>
           </div>
 
@@ -212,34 +333,54 @@ export function MessagingPanel({ onClose }: MessagingPanelProps) {
                     <AvatarImage src={selectedConversation.user.profilePic || "/placeholder.svg"} />
                     <AvatarFallback>{selectedConversation.user.username[0].toUpperCase()}</AvatarFallback>
                   </Avatar>
-                  <div>
-                    <p className="font-semibold">{selectedConversation.user.username}</p>
-                    <p className="text-sm text-gray-500">
-                      {selectedConversation.user.isOnline ? "Active now" : "Last seen recently"}
-                    </p>
-                  </div>
+                  <p className="font-semibold">{selectedConversation.user.username}</p>
                 </div>
 
                 {/* Messages */}
                 <ScrollArea className="flex-1 p-4">
                   <div className="space-y-4">
+                    {olderCursor && selectedConversation.id && (
+                      <div className="text-center">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => loadMessages(selectedConversation.id!, olderCursor)}
+                        >
+                          Load earlier messages
+                        </Button>
+                      </div>
+                    )}
                     {messages.map((message) => (
                       <div
                         key={message.id}
-                        className={`flex ${message.senderId === "current" ? "justify-end" : "justify-start"}`}
+                        className={`flex ${message.senderId === currentUserId ? "justify-end" : "justify-start"}`}
                       >
                         <div
                           className={`max-w-xs px-4 py-2 rounded-lg ${
-                            message.senderId === "current" ? "bg-blue-500 text-white" : "bg-gray-200 text-gray-900"
+                            message.senderId === currentUserId ? "bg-blue-500 text-white" : "bg-gray-200 text-gray-900"
                           }`}
                         >
-                          <p>{message.content}</p>
+                          {message.attachmentAnalysis?.status === "pending" && (
+                            <div className="mb-1 flex items-center gap-2 rounded-md bg-black/10 px-3 py-2 text-xs">
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                              Checking attachment before it's delivered...
+                            </div>
+                          )}
+                          {message.mediaUrl && (
+                            <MessageAttachment
+                              mediaUrl={message.mediaUrl}
+                              mediaType={message.mediaType}
+                              analysis={message.attachmentAnalysis}
+                              isOwnMessage={message.senderId === currentUserId}
+                            />
+                          )}
+                          {message.content && <p>{message.content}</p>}
                           <p
                             className={`text-xs mt-1 ${
-                              message.senderId === "current" ? "text-blue-100" : "text-gray-500"
+                              message.senderId === currentUserId ? "text-blue-100" : "text-gray-500"
                             }`}
                           >
-                            {message.timestamp}
+                            {formatMessageTime(message.createdAt)}
                           </p>
                         </div>
                       </div>
@@ -250,7 +391,34 @@ export function MessagingPanel({ onClose }: MessagingPanelProps) {
 
                 {/* Message Input */}
                 <div className="p-4 border-t">
+                  {attachment && (
+                    <div className="mb-2 flex items-center justify-between rounded-md bg-muted px-3 py-2 text-sm">
+                      <span className="truncate">{attachment.name}</span>
+                      <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setAttachment(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
                   <div className="flex gap-2">
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="image/*,video/*"
+                      className="hidden"
+                      onChange={(e) => {
+                        setAttachment(e.target.files?.[0] || null)
+                        e.target.value = ""
+                      }}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={isSending}
+                      title="Attach photo or video"
+                    >
+                      <Paperclip className="h-4 w-4" />
+                    </Button>
                     <Input
                       placeholder="Type a message..."
                       value={newMessage}
@@ -258,8 +426,12 @@ export function MessagingPanel({ onClose }: MessagingPanelProps) {
                       onKeyPress={(e) => e.key === "Enter" && sendMessage()}
                       className="flex-1"
                     />
-                    <Button onClick={sendMessage} disabled={!newMessage.trim()}>
-                      <Send className="h-4 w-4" />
+                    <Button onClick={sendMessage} disabled={(!newMessage.trim() && !attachment) || isSending}>
+                      {isSending && attachment ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Send className="h-4 w-4" />
+                      )}
                     </Button>
                   </div>
                 </div>
@@ -0,0 +1,124 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Textarea } from '@/components/ui/textarea'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Flag } from 'lucide-react'
+import { toast } from '@/hooks/use-toast'
+
+export type ReportTargetType = 'post' | 'story' | 'comment' | 'user'
+
+export interface ReportTarget {
+  type: ReportTargetType
+  id: string
+  // Shown in the title, e.g. "post by alice" or "@alice"
+  label: string
+}
+
+interface ReportDialogProps {
+  target: ReportTarget | null
+  onClose: () => void
+}
+
+const REASONS = [
+  { value: 'deepfake', label: 'Deepfake or manipulated media', description: 'Faked or AI-altered images, video or audio' },
+  { value: 'impersonation', label: 'Impersonation', description: 'Pretending to be someone else' },
+  { value: 'harassment', label: 'Harassment', description: 'Bullying, threats or targeted abuse' },
+  { value: 'spam', label: 'Spam', description: 'Scams, repetitive or misleading content' },
+]
+
+export function ReportDialog({ target, onClose }: ReportDialogProps) {
+  const [reason, setReason] = useState('')
+  const [details, setDetails] = useState('')
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (target) {
+      setReason('')
+      setDetails('')
+      setError(null)
+    }
+  }, [target])
+
+  const handleSubmit = async () => {
+    if (!target || !reason) return
+
+    setIsPending(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targetType: target.type, targetId: target.id, reason, details })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || `Status ${response.status}`)
+
+      toast({
+        title: data.alreadyReported ? 'Already reported' : 'Report sent',
+        description: data.alreadyReported
+          ? "You've reported this before. Moderators will see it if others report it too."
+          : 'Thanks for letting us know. Moderators review content once several people report it.'
+      })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5" />
+            Report {target?.label}
+          </DialogTitle>
+          <DialogDescription>Reports are anonymous to the person you report.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <RadioGroup value={reason} onValueChange={setReason}>
+            {REASONS.map(option => (
+              <Label
+                key={option.value}
+                htmlFor={`report-${option.value}`}
+                className="flex items-start gap-3 rounded-lg border p-3 cursor-pointer hover:bg-muted/50"
+              >
+                <RadioGroupItem value={option.value} id={`report-${option.value}`} className="mt-0.5" />
+                <span>
+                  <span className="block font-medium">{option.label}</span>
+                  <span className="block text-xs font-normal text-muted-foreground">{option.description}</span>
+                </span>
+              </Label>
+            ))}
+          </RadioGroup>
+
+          <Textarea
+            placeholder="Anything moderators should know? (optional)"
+            value={details}
+            maxLength={500}
+            onChange={(event) => setDetails(event.target.value)}
+          />
+
+          <Button className="w-full" variant="destructive" disabled={!reason || isPending} onClick={handleSubmit}>
+            {isPending ? 'Sending...' : 'Send report'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,134 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Monitor } from 'lucide-react'
+
+interface ActiveSession {
+  id: string
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: string
+  lastSeenAt: string | null
+  expiresAt: string
+  current: boolean
+}
+
+interface SessionsDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  // Called once this browser's own session has ended
+  onSignedOut: () => void
+}
+
+export function SessionsDialog({ isOpen, onClose, onSignedOut }: SessionsDialogProps) {
+  const [sessions, setSessions] = useState<ActiveSession[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/auth/sessions')
+
+      if (response.ok) {
+        const data = await response.json()
+        setSessions(data.sessions)
+      }
+    } catch (error) {
+      console.error('Error loading sessions:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isOpen) loadSessions()
+  }, [isOpen, loadSessions])
+
+  const handleRevoke = async (session: ActiveSession) => {
+    setPendingId(session.id)
+    try {
+      const response = await fetch(`/api/auth/sessions/${session.id}`, { method: 'DELETE' })
+
+      if (response.ok) {
+        if (session.current) {
+          onSignedOut()
+          return
+        }
+        setSessions(prev => prev.filter(s => s.id !== session.id))
+      }
+    } catch (error) {
+      console.error('Error ending session:', error)
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleRevokeAll = async () => {
+    setPendingId('all')
+    try {
+      const response = await fetch('/api/auth/sessions', { method: 'DELETE' })
+      if (response.ok) onSignedOut()
+    } catch (error) {
+      console.error('Error ending sessions:', error)
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Monitor className="h-5 w-5" />
+            Active sessions
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {sessions.map((session) => (
+            <div key={session.id} className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium text-foreground truncate">{session.userAgent || 'Unknown device'}</p>
+                  {session.current && <Badge variant="secondary" className="text-xs">This device</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground truncate">
+                  {session.ipAddress || 'Unknown IP'} · Last active {new Date(session.lastSeenAt || session.createdAt).toLocaleString()}
+                </p>
+              </div>
+
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={pendingId !== null}
+                onClick={() => handleRevoke(session)}
+              >
+                {session.current ? "Log out" : "Revoke"}
+              </Button>
+            </div>
+          ))}
+
+          {!isLoading && sessions.length === 0 && (
+            <p className="text-center text-muted-foreground py-6">No active sessions</p>
+          )}
+
+          {sessions.length > 0 && (
+            <Button
+              variant="destructive"
+              className="w-full"
+              disabled={pendingId !== null}
+              onClick={handleRevokeAll}
+            >
+              Log out everywhere
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
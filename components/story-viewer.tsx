@@ -1,10 +1,12 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Dialog, DialogContent } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
-import { X, Heart, Send } from "lucide-react"
+import { X, Heart, Send, Eye, Pause, Shield, AlertTriangle, Flag, Scale, BadgeCheck } from "lucide-react"
+import { ReportDialog, type ReportTarget } from "@/components/report-dialog"
+import { AppealDialog, type AppealTarget } from "@/components/appeal-dialog"
 
 interface Story {
   id: string
@@ -14,55 +16,257 @@ interface Story {
     profilePic: string
   }
   mediaUrl: string
+  mediaType?: string
   timestamp: string
   viewed: boolean
+  isOwn?: boolean
+  deepfakeScore?: number
+  riskLevel?: 'low' | 'medium' | 'high'
+  moderationStatus?: 'published' | 'pending_review' | 'approved' | 'rejected'
+  verdict?: 'authentic' | 'manipulated' | null
+  appealStatus?: 'pending' | 'accepted' | 'denied' | null
+}
+
+export interface StoryGroup {
+  user: Story['user']
+  stories: Story[]
+}
+
+interface StoryViewerEntry {
+  id: string
+  username: string
+  profilePic: string
+  viewedAt: string
 }
 
 interface StoryViewerProps {
-  story: Story
+  groups: StoryGroup[]
+  initialGroupIndex: number
+  onStoryViewed?: (story: Story) => void
   onClose: () => void
 }
 
-export function StoryViewer({ story, onClose }: StoryViewerProps) {
+const IMAGE_DURATION_MS = 5000
+const TICK_MS = 50
+// Presses shorter than this are taps (navigate); longer ones are holds (pause)
+const HOLD_THRESHOLD_MS = 250
+
+// Resume a user's stories where the viewer left off
+function firstUnviewedIndex(group: StoryGroup): number {
+  const index = group.stories.findIndex(story => !story.viewed)
+  return index === -1 ? 0 : index
+}
+
+function RiskBadge({ story }: { story: Story }) {
+  const score = story.deepfakeScore || 0
+
+  // A moderator's verdict overrides the detector's score
+  if (story.verdict === 'authentic') {
+    return (
+      <span
+        className="flex items-center gap-1 rounded-full bg-green-600/90 px-2 py-0.5 text-[10px] font-medium text-white"
+        title={`Verified by a moderator. Detector score: ${score}%`}
+      >
+        <BadgeCheck className="h-3 w-3" />
+        Verified authentic
+      </span>
+    )
+  }
+  if (story.verdict === 'manipulated') {
+    return (
+      <span
+        className="flex items-center gap-1 rounded-full bg-red-500 px-2 py-0.5 text-[10px] font-medium text-white"
+        title={`Confirmed by a moderator. Detector score: ${score}%`}
+      >
+        <AlertTriangle className="h-3 w-3" />
+        Confirmed manipulated
+      </span>
+    )
+  }
+  if (story.riskLevel === 'high') {
+    return (
+      <span className="flex items-center gap-1 rounded-full bg-red-500 px-2 py-0.5 text-[10px] font-medium text-white">
+        <AlertTriangle className="h-3 w-3" />
+        AI Detected: {score}%
+      </span>
+    )
+  }
+  if (story.riskLevel === 'medium') {
+    return (
+      <span className="flex items-center gap-1 rounded-full bg-yellow-500 px-2 py-0.5 text-[10px] font-medium text-white">
+        <AlertTriangle className="h-3 w-3" />
+        Caution: {score}%
+      </span>
+    )
+  }
+  return (
+    <span className="flex items-center gap-1 rounded-full bg-green-600/90 px-2 py-0.5 text-[10px] font-medium text-white">
+      <Shield className="h-3 w-3" />
+      Low risk
+    </span>
+  )
+}
+
+export function StoryViewer({ groups, initialGroupIndex, onStoryViewed, onClose }: StoryViewerProps) {
+  const [groupIndex, setGroupIndex] = useState(initialGroupIndex)
+  const [itemIndex, setItemIndex] = useState(() => firstUnviewedIndex(groups[initialGroupIndex]))
   const [progress, setProgress] = useState(0)
+  const [isHeld, setIsHeld] = useState(false)
+  const [isKeyboardPaused, setIsKeyboardPaused] = useState(false)
+  const [viewers, setViewers] = useState<StoryViewerEntry[] | null>(null)
+  const [showViewers, setShowViewers] = useState(false)
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null)
+  const [appealTarget, setAppealTarget] = useState<AppealTarget | null>(null)
+  // Groups are a snapshot, so appeals sent from here are tracked locally
+  const [appealedIds, setAppealedIds] = useState<Set<string>>(() => new Set())
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const pressStartRef = useRef(0)
+
+  const group = groups[groupIndex]
+  const story = group.stories[itemIndex]
+  const isVideo = story.mediaType === 'video'
+  const isPaused = isHeld || isKeyboardPaused || showViewers || reportTarget !== null || appealTarget !== null
+  const isFlagged = (story.deepfakeScore || 0) > 20 || story.riskLevel === 'medium' || story.riskLevel === 'high' ||
+    story.moderationStatus === 'pending_review' || story.moderationStatus === 'rejected'
+  const canAppeal = story.isOwn && isFlagged && !story.verdict && !story.appealStatus && !appealedIds.has(story.id)
+
+  const goNext = () => {
+    if (itemIndex < group.stories.length - 1) {
+      setItemIndex(itemIndex + 1)
+    } else if (groupIndex < groups.length - 1) {
+      setGroupIndex(groupIndex + 1)
+      setItemIndex(firstUnviewedIndex(groups[groupIndex + 1]))
+    } else {
+      onClose()
+    }
+  }
+
+  const goPrevious = () => {
+    if (itemIndex > 0) {
+      setItemIndex(itemIndex - 1)
+    } else if (groupIndex > 0) {
+      setGroupIndex(groupIndex - 1)
+      setItemIndex(groups[groupIndex - 1].stories.length - 1)
+    } else {
+      // Already at the very first story: just restart it
+      setProgress(0)
+      if (videoRef.current) videoRef.current.currentTime = 0
+    }
+  }
+
+  // Each item starts from zero and counts as seen once it's on screen
+  useEffect(() => {
+    setProgress(0)
+    setShowViewers(false)
+    onStoryViewed?.(story)
+  }, [story.id])
+
+  useEffect(() => {
+    setViewers(null)
+    if (!story.isOwn) return
 
+    fetch(`/api/stories/${story.id}/viewers`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => data && setViewers(data.viewers))
+      .catch(error => console.warn('Failed to load story viewers:', error))
+  }, [story.id, story.isOwn])
+
+  // Images run on a fixed timer; videos report their own progress below
   useEffect(() => {
+    if (isVideo || isPaused) return
+
     const timer = setInterval(() => {
-      setProgress((prev) => {
-        if (prev >= 100) {
-          onClose()
-          return 0
-        }
-        return prev + 1
-      })
-    }, 50) // 5 second story duration
+      setProgress(prev => Math.min(prev + (TICK_MS / IMAGE_DURATION_MS) * 100, 100))
+    }, TICK_MS)
 
     return () => clearInterval(timer)
-  }, [onClose])
+  }, [story.id, isVideo, isPaused])
+
+  useEffect(() => {
+    if (!isVideo && progress >= 100) goNext()
+  }, [progress, isVideo])
+
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) return
+
+    if (isPaused) {
+      video.pause()
+    } else {
+      video.play().catch(() => {
+        // Autoplay with sound can be blocked; fall back to muted playback
+        video.muted = true
+        video.play().catch(() => {})
+      })
+    }
+  }, [story.id, isPaused])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'ArrowRight') {
+        goNext()
+      } else if (event.key === 'ArrowLeft') {
+        goPrevious()
+      } else if (event.key === ' ') {
+        event.preventDefault()
+        setIsKeyboardPaused(paused => !paused)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
+  const handlePointerDown = () => {
+    pressStartRef.current = Date.now()
+    setIsHeld(true)
+  }
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    setIsHeld(false)
+    if (Date.now() - pressStartRef.current >= HOLD_THRESHOLD_MS) return
+
+    // Tap the left third to go back, anywhere else to go forward
+    const rect = event.currentTarget.getBoundingClientRect()
+    if (event.clientX - rect.left < rect.width / 3) {
+      goPrevious()
+    } else {
+      goNext()
+    }
+  }
 
   return (
     <Dialog open={true} onOpenChange={onClose}>
       <DialogContent className="max-w-sm p-0 bg-black">
-        <div className="relative h-[600px] w-full">
-          {/* Progress Bar */}
-          <div className="absolute top-2 left-2 right-2 z-10">
-            <div className="w-full bg-gray-600 rounded-full h-1">
-              <div
-                className="bg-white h-1 rounded-full transition-all duration-100"
-                style={{ width: `${progress}%` }}
-              />
-            </div>
+        <div className="relative h-[600px] w-full select-none">
+          {/* Progress Bars, one per story in this user's sequence */}
+          <div className="absolute top-2 left-2 right-2 z-10 flex gap-1">
+            {group.stories.map((item, index) => (
+              <div key={item.id} className="flex-1 bg-gray-600 rounded-full h-1 overflow-hidden">
+                <div
+                  className="bg-white h-1 rounded-full"
+                  style={{ width: `${index < itemIndex ? 100 : index === itemIndex ? progress : 0}%` }}
+                />
+              </div>
+            ))}
           </div>
 
           {/* Header */}
           <div className="absolute top-6 left-4 right-4 z-10 flex items-center justify-between">
-            <div className="flex items-center gap-2">
+            <div className="flex items-center gap-2 min-w-0">
               <Avatar className="h-8 w-8">
-                <AvatarImage src={story.user.profilePic || "/placeholder.svg"} />
-                <AvatarFallback>{story.user.username[0].toUpperCase()}</AvatarFallback>
+                <AvatarImage src={group.user.profilePic || "/placeholder.svg"} />
+                <AvatarFallback>{group.user.username[0].toUpperCase()}</AvatarFallback>
               </Avatar>
-              <span className="text-white font-semibold">{story.user.username}</span>
+              <span className="text-white font-semibold truncate">{group.user.username}</span>
               <span className="text-gray-300 text-sm">{story.timestamp}</span>
+              <RiskBadge story={story} />
+              {(story.moderationStatus === 'pending_review' || story.moderationStatus === 'rejected') && (
+                <span className="rounded-full bg-black/60 px-2 py-0.5 text-[10px] font-medium text-white">
+                  {story.moderationStatus === 'rejected' ? 'Removed · only you' : 'In review · only you'}
+                </span>
+              )}
+              {isPaused && <Pause className="h-4 w-4 text-white" />}
             </div>
             <Button variant="ghost" size="icon" onClick={onClose}>
               <X className="h-5 w-5 text-white" />
@@ -70,19 +274,104 @@ export function StoryViewer({ story, onClose }: StoryViewerProps) {
           </div>
 
           {/* Story Content */}
-          <img src={story.mediaUrl || "/placeholder.svg"} alt="Story content" className="w-full h-full object-cover" />
+          {isVideo ? (
+            <video
+              key={story.id}
+              ref={videoRef}
+              src={story.mediaUrl}
+              className="w-full h-full object-cover"
+              autoPlay
+              playsInline
+              onTimeUpdate={(event) => {
+                const { currentTime, duration } = event.currentTarget
+                if (duration) setProgress((currentTime / duration) * 100)
+              }}
+              onEnded={goNext}
+            />
+          ) : (
+            <img src={story.mediaUrl || "/placeholder.svg"} alt="Story content" className="w-full h-full object-cover" />
+          )}
+
+          {/* Tap / hold area */}
+          <div
+            className="absolute inset-0 top-16 bottom-16"
+            onPointerDown={handlePointerDown}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={() => setIsHeld(false)}
+            onContextMenu={(event) => event.preventDefault()}
+          />
 
           {/* Bottom Actions */}
-          <div className="absolute bottom-4 left-4 right-4 z-10 flex items-center gap-4">
-            <Button variant="ghost" size="icon">
-              <Heart className="h-6 w-6 text-white" />
-            </Button>
-            <Button variant="ghost" size="icon">
-              <Send className="h-6 w-6 text-white" />
-            </Button>
-          </div>
+          {story.isOwn ? (
+            <div className="absolute bottom-4 left-4 right-4 z-10 flex items-center">
+              <Button
+                variant="ghost"
+                className="text-white"
+                onClick={() => setShowViewers(!showViewers)}
+              >
+                <Eye className="h-5 w-5 mr-2" />
+                {viewers === null ? "Seen by..." : `Seen by ${viewers.length}`}
+              </Button>
+              {canAppeal && (
+                <Button
+                  variant="ghost"
+                  className="ml-auto text-white"
+                  onClick={() => setAppealTarget({ contentType: 'story', id: story.id, deepfakeScore: story.deepfakeScore })}
+                >
+                  <Scale className="h-5 w-5 mr-2" />
+                  Appeal
+                </Button>
+              )}
+            </div>
+          ) : (
+            <div className="absolute bottom-4 left-4 right-4 z-10 flex items-center gap-4">
+              <Button variant="ghost" size="icon">
+                <Heart className="h-6 w-6 text-white" />
+              </Button>
+              <Button variant="ghost" size="icon">
+                <Send className="h-6 w-6 text-white" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="ml-auto"
+                title="Report story"
+                onClick={() => setReportTarget({ type: 'story', id: story.id, label: `story by ${group.user.username}` })}
+              >
+                <Flag className="h-5 w-5 text-white" />
+              </Button>
+            </div>
+          )}
+
+          {/* Viewers List (author only) */}
+          {showViewers && (
+            <div className="absolute bottom-16 left-2 right-2 z-20 max-h-64 overflow-y-auto rounded-lg bg-background p-3 space-y-3">
+              {viewers && viewers.length > 0 ? (
+                viewers.map((viewer) => (
+                  <div key={viewer.id} className="flex items-center gap-2">
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage src={viewer.profilePic || "/placeholder.svg"} />
+                      <AvatarFallback>{viewer.username[0].toUpperCase()}</AvatarFallback>
+                    </Avatar>
+                    <span className="text-sm font-medium text-foreground">{viewer.username}</span>
+                    <span className="ml-auto text-xs text-muted-foreground">
+                      {new Date(viewer.viewedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                  </div>
+                ))
+              ) : (
+                <p className="text-center text-sm text-muted-foreground py-2">No views yet</p>
+              )}
+            </div>
+          )}
         </div>
       </DialogContent>
+      <ReportDialog target={reportTarget} onClose={() => setReportTarget(null)} />
+      <AppealDialog
+        target={appealTarget}
+        onClose={() => setAppealTarget(null)}
+        onSubmitted={(target) => setAppealedIds(ids => new Set(ids).add(target.id))}
+      />
     </Dialog>
   )
 }
@@ -0,0 +1,216 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp'
+import { ShieldCheck } from 'lucide-react'
+
+interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+interface Enrollment {
+  secret: string
+  qrCode: string
+}
+
+interface TwoFactorDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  // Called after 2FA is switched on or off
+  onChange?: (enabled: boolean) => void
+}
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <div className="flex justify-center">
+      <InputOTP maxLength={6} value={value} onChange={onChange}>
+        <InputOTPGroup>
+          {[0, 1, 2, 3, 4, 5].map(index => (
+            <InputOTPSlot key={index} index={index} />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+    </div>
+  )
+}
+
+export function TwoFactorDialog({ isOpen, onClose, onChange }: TwoFactorDialogProps) {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState('')
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/2fa')
+      if (response.ok) {
+        setStatus(await response.json())
+      }
+    } catch (error) {
+      console.error('Error loading two-factor status:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isOpen) {
+      setEnrollment(null)
+      setRecoveryCodes(null)
+      setCode('')
+      setError(null)
+      loadStatus()
+    }
+  }, [isOpen, loadStatus])
+
+  // Every action here posts JSON and either succeeds or shows the server's error
+  const post = async (url: string, body?: object) => {
+    setIsPending(true)
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body ?? {})
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || `Status ${response.status}`)
+      return data
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+      return null
+    } finally {
+      setIsPending(false)
+      setCode('')
+    }
+  }
+
+  const handleStartSetup = async () => {
+    const data = await post('/api/auth/2fa/setup')
+    if (data) setEnrollment({ secret: data.secret, qrCode: data.qrCode })
+  }
+
+  const handleConfirmSetup = async () => {
+    const data = await post('/api/auth/2fa/enable', { code })
+    if (data) {
+      setEnrollment(null)
+      setRecoveryCodes(data.recoveryCodes)
+      await loadStatus()
+      onChange?.(true)
+    }
+  }
+
+  const handleRegenerateCodes = async () => {
+    const data = await post('/api/auth/2fa/recovery-codes', { code })
+    if (data) {
+      setRecoveryCodes(data.recoveryCodes)
+      await loadStatus()
+    }
+  }
+
+  const handleDisable = async () => {
+    const data = await post('/api/auth/2fa/disable', { code })
+    if (data) {
+      await loadStatus()
+      onChange?.(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Two-factor authentication
+            {status && (
+              <Badge variant={status.enabled ? 'secondary' : 'outline'} className="text-xs">
+                {status.enabled ? 'On' : 'Off'}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {status?.required && !status.enabled
+              ? 'Your account role requires two-factor authentication. Set it up to continue using SocialGuard.'
+              : 'Sign-in asks for a code from your authenticator app after your password.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {recoveryCodes ? (
+            <div className="space-y-3">
+              <p className="text-sm text-foreground">
+                Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+                authenticator. They won't be shown again.
+              </p>
+              <div className="grid grid-cols-2 gap-2 rounded-lg bg-muted p-3 font-mono text-sm">
+                {recoveryCodes.map(recoveryCode => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+              <Button className="w-full" onClick={() => setRecoveryCodes(null)}>
+                I've saved them
+              </Button>
+            </div>
+          ) : enrollment ? (
+            <div className="space-y-3">
+              <p className="text-sm text-foreground">
+                Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+              </p>
+              <img src={enrollment.qrCode} alt="Two-factor QR code" className="mx-auto h-48 w-48 rounded bg-white p-2" />
+              <p className="text-center text-xs text-muted-foreground break-all">
+                Can't scan it? Enter this key instead: <span className="font-mono">{enrollment.secret}</span>
+              </p>
+              <CodeInput value={code} onChange={setCode} />
+              <Button className="w-full" disabled={isPending || code.length < 6} onClick={handleConfirmSetup}>
+                {isPending ? 'Verifying...' : 'Turn on two-factor authentication'}
+              </Button>
+            </div>
+          ) : status?.enabled ? (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+                Enter a current code to manage two-factor authentication.
+              </p>
+              <CodeInput value={code} onChange={setCode} />
+              <Button
+                variant="outline"
+                className="w-full"
+                disabled={isPending || code.length < 6}
+                onClick={handleRegenerateCodes}
+              >
+                Generate new recovery codes
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="destructive"
+                  className="w-full"
+                  disabled={isPending || code.length < 6}
+                  onClick={handleDisable}
+                >
+                  Turn off two-factor authentication
+                </Button>
+              )}
+            </div>
+          ) : status && (
+            <Button className="w-full" disabled={isPending} onClick={handleStartSetup}>
+              {isPending ? 'Preparing...' : 'Set up two-factor authentication'}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,81 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+
+export type RealtimeEventType = 'message' | 'messages_read' | 'like' | 'comment' | 'analysis_complete' | 'analysis_job' | 'moderation_decision' | 'appeal_decision'
+
+export interface RealtimeEventPayload {
+  type: RealtimeEventType
+  [key: string]: any
+}
+
+type Handler = (event: RealtimeEventPayload) => void
+
+const EVENT_TYPES: RealtimeEventType[] = ['message', 'messages_read', 'like', 'comment', 'analysis_complete', 'analysis_job', 'moderation_decision', 'appeal_decision']
+
+// One EventSource per tab, shared by every component that subscribes
+let source: EventSource | null = null
+const handlers = new Set<Handler>()
+
+function dispatch(raw: MessageEvent) {
+  let event: RealtimeEventPayload
+  try {
+    event = JSON.parse(raw.data)
+  } catch {
+    return
+  }
+  handlers.forEach(handler => handler(event))
+}
+
+// Same-origin, so the stream is authenticated by the session cookie
+function connect() {
+  if (source) return
+
+  source = new EventSource('/api/events')
+  EVENT_TYPES.forEach(type => source!.addEventListener(type, dispatch as EventListener))
+
+  // After sign-out or a revoked session the server ends the stream and the
+  // reconnect is refused; let the next subscriber open a fresh one
+  const current = source
+  current.addEventListener('error', () => {
+    if (current.readyState === EventSource.CLOSED && source === current) {
+      source = null
+    }
+  })
+}
+
+function disconnectIfIdle() {
+  if (handlers.size === 0 && source) {
+    source.close()
+    source = null
+  }
+}
+
+/**
+ * Subscribes to server-pushed events for the signed-in user. Pass `types` to
+ * only receive some of them. The handler may change between renders without
+ * resubscribing.
+ */
+export function useRealtime(handler: Handler, types?: RealtimeEventType[]) {
+  const handlerRef = useRef(handler)
+  handlerRef.current = handler
+
+  const typesKey = types?.join(',') ?? ''
+
+  useEffect(() => {
+    const wanted = typesKey ? new Set(typesKey.split(',')) : null
+    const subscriber: Handler = (event) => {
+      if (!wanted || wanted.has(event.type)) {
+        handlerRef.current(event)
+      }
+    }
+
+    handlers.add(subscriber)
+    connect()
+
+    return () => {
+      handlers.delete(subscriber)
+      disconnectIfIdle()
+    }
+  }, [typesKey])
+}
@@ -0,0 +1,47 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Refuse to start with missing or placeholder JWT secrets in production
+    const { getSigningKeys } = await import('./lib/auth')
+    getSigningKeys()
+
+    // Emailed links must not be built from the request's Host header
+    const { getConfiguredAppUrl } = await import('./lib/request-auth')
+    getConfiguredAppUrl()
+    // or printed to the server log by the default console mail transport
+    const { getMailTransportName } = await import('./lib/mailer')
+    getMailTransportName()
+
+    // Apply pending migrations now rather than on the first request, and
+    // refuse to start (SchemaVersionError) against a schema newer than this build
+    const { getDatabase } = await import('./lib/database')
+    await getDatabase()
+
+    const { schedulePeriodicJob } = await import('./lib/jobs')
+    const { sweepExpiredStories, STORY_SWEEP_INTERVAL_MS } = await import('./lib/story-expiry')
+    const { reconcileCounters, COUNTER_RECONCILE_INTERVAL_MS } = await import('./lib/counter-reconciliation')
+    const { deleteExpiredSessions, SESSION_CLEANUP_INTERVAL_MS } = await import('./lib/sessions')
+    const { deleteExpiredRefreshTokens, REFRESH_TOKEN_CLEANUP_INTERVAL_MS } = await import('./lib/refresh-tokens')
+    const { deleteExpiredEmailTokens, EMAIL_TOKEN_CLEANUP_INTERVAL_MS } = await import('./lib/email-tokens')
+    const { deleteOldLoginAttempts, LOGIN_ATTEMPT_CLEANUP_INTERVAL_MS } = await import('./lib/login-throttle')
+    const {
+      requeueInterruptedJobs,
+      drainAnalysisQueue,
+      deleteOldAnalysisJobs,
+      ANALYSIS_QUEUE_INTERVAL_MS,
+      ANALYSIS_JOB_CLEANUP_INTERVAL_MS
+    } = await import('./lib/analysis-jobs')
+
+    schedulePeriodicJob('story-expiry-sweep', STORY_SWEEP_INTERVAL_MS, sweepExpiredStories)
+    schedulePeriodicJob('counter-reconciliation', COUNTER_RECONCILE_INTERVAL_MS, reconcileCounters)
+    schedulePeriodicJob('expired-session-cleanup', SESSION_CLEANUP_INTERVAL_MS, deleteExpiredSessions)
+    schedulePeriodicJob('expired-refresh-token-cleanup', REFRESH_TOKEN_CLEANUP_INTERVAL_MS, deleteExpiredRefreshTokens)
+    schedulePeriodicJob('expired-email-token-cleanup', EMAIL_TOKEN_CLEANUP_INTERVAL_MS, deleteExpiredEmailTokens)
+    schedulePeriodicJob('login-attempt-cleanup', LOGIN_ATTEMPT_CLEANUP_INTERVAL_MS, deleteOldLoginAttempts)
+
+    // Jobs a restart cut off go back in the queue before the worker starts
+    await requeueInterruptedJobs()
+    schedulePeriodicJob('analysis-queue', ANALYSIS_QUEUE_INTERVAL_MS, drainAnalysisQueue)
+    schedulePeriodicJob('analysis-job-cleanup', ANALYSIS_JOB_CLEANUP_INTERVAL_MS, deleteOldAnalysisJobs)
+  }
+}
@@ -0,0 +1,177 @@
+import { createHash } from 'crypto'
+import { getDatabase } from './database'
+import { fetchModelVersion, type DetectionOutcome } from './deepfake-detection'
+import { getDetectorSignature } from './detectors'
+
+// How long to trust the last /model-info answer before asking again
+const MODEL_VERSION_CHECK_INTERVAL_MS = 60 * 1000
+
+// Perceptual hashes at most this many bits apart (of 64) show the same
+// picture. Uploads match known fakes by it, and confirming a fake forgets the
+// cached verdicts this close to it, so nothing that would match is left cached.
+// A verdict itself is only ever reused for the exact same bytes.
+export const PERCEPTUAL_MATCH_MAX_DISTANCE = 10
+
+// Kept on globalThis so dev-mode module reloads share one answer
+const globalForAnalysisCache = globalThis as unknown as {
+  analysisModelVersion?: {
+    version: string | null
+    checkedAt: number
+    pending: Promise<string | null> | null
+  }
+}
+
+const modelState = globalForAnalysisCache.analysisModelVersion ??= {
+  version: null,
+  checkedAt: 0,
+  pending: null
+}
+
+// What a cached verdict is valid for: the backend's model plus the detectors
+// and ensemble that produced it. Stored as analysis_cache.model_version.
+function cacheVersion(modelVersion: string): string {
+  return `${modelVersion}|${getDetectorSignature()}`
+}
+
+export function hashContent(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`)
+  let distance = 0
+  while (diff) {
+    distance += Number(diff & BigInt(1))
+    diff >>= BigInt(1)
+  }
+  return distance
+}
+
+/**
+ * The model version the backend currently reports. When it changes, verdicts
+ * from the previous model are dropped. Falls back to the last known version
+ * while the backend is unreachable; null means caching is off.
+ */
+export async function getCurrentModelVersion(): Promise<string | null> {
+  if (Date.now() - modelState.checkedAt < MODEL_VERSION_CHECK_INTERVAL_MS) {
+    return modelState.version
+  }
+
+  modelState.pending ??= (async () => {
+    const version = await fetchModelVersion()
+    modelState.checkedAt = Date.now()
+
+    if (version && version !== modelState.version) {
+      const dropped = await invalidateAnalysisCache(version)
+      if (dropped) {
+        console.log(`Backend now runs model ${version}; dropped ${dropped} cached verdicts from older models`)
+      }
+      modelState.version = version
+    }
+    return modelState.version
+  })().finally(() => {
+    modelState.pending = null
+  })
+
+  return modelState.pending
+}
+
+// Deletes every verdict not produced by the given model and the current detectors
+export async function invalidateAnalysisCache(currentModelVersion: string): Promise<number> {
+  try {
+    const db = await getDatabase()
+    const result = await db.run('DELETE FROM analysis_cache WHERE model_version != ?', [cacheVersion(currentModelVersion)])
+    return result.changes || 0
+  } catch (error) {
+    console.error('Error invalidating analysis cache:', error)
+    return 0
+  }
+}
+
+async function recordHit(contentHash: string, modelVersion: string) {
+  const db = await getDatabase()
+  await db.run(
+    `UPDATE analysis_cache SET hits = hits + 1, last_hit_at = CURRENT_TIMESTAMP
+     WHERE content_hash = ? AND model_version = ?`,
+    [contentHash, cacheVersion(modelVersion)]
+  )
+}
+
+export async function getCachedAnalysis(contentHash: string, modelVersion: string): Promise<DetectionOutcome | null> {
+  try {
+    const db = await getDatabase()
+    const row = await db.get(
+      'SELECT result FROM analysis_cache WHERE content_hash = ? AND model_version = ?',
+      [contentHash, cacheVersion(modelVersion)]
+    )
+    if (!row) return null
+
+    await recordHit(contentHash, modelVersion)
+    return JSON.parse(row.result)
+  } catch (error) {
+    console.error('Error reading analysis cache:', error)
+    return null
+  }
+}
+
+// Forgets verdicts for a clip and its near-duplicates, e.g. once a moderator
+// has confirmed it's manipulated and a cached "Real" would be wrong
+export async function purgeCachedAnalyses(contentHash: string, perceptualHash: string | null): Promise<number> {
+  try {
+    const db = await getDatabase()
+    const rows = await db.all('SELECT content_hash, model_version, perceptual_hash FROM analysis_cache')
+    const stale = rows.filter((row: any) =>
+      row.content_hash === contentHash ||
+      (perceptualHash && row.perceptual_hash &&
+        hammingDistance(perceptualHash, row.perceptual_hash) <= PERCEPTUAL_MATCH_MAX_DISTANCE)
+    )
+
+    for (const row of stale) {
+      await db.run(
+        'DELETE FROM analysis_cache WHERE content_hash = ? AND model_version = ?',
+        [row.content_hash, row.model_version]
+      )
+    }
+    return stale.length
+  } catch (error) {
+    console.error('Error purging analysis cache:', error)
+    return 0
+  }
+}
+
+export async function cacheAnalysis(
+  contentHash: string,
+  perceptualHash: string | null,
+  modelVersion: string,
+  outcome: DetectionOutcome
+): Promise<boolean> {
+  try {
+    const db = await getDatabase()
+    await db.run(
+      `INSERT INTO analysis_cache (content_hash, model_version, perceptual_hash, result)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (content_hash, model_version) DO UPDATE SET
+         perceptual_hash = COALESCE(excluded.perceptual_hash, perceptual_hash),
+         result = excluded.result`,
+      [contentHash, cacheVersion(modelVersion), perceptualHash, JSON.stringify({ ...outcome, modelVersion })]
+    )
+    return true
+  } catch (error) {
+    console.error('Error caching analysis:', error)
+    return false
+  }
+}
+
+// A cached verdict dressed up for the upload that asked: its own filename and
+// size, marked as cached
+export function toCachedOutcome(outcome: DetectionOutcome, file: { name: string, size: number }): DetectionOutcome {
+  return {
+    ...outcome,
+    analysis: {
+      ...outcome.analysis,
+      filename: file.name,
+      filesize: `${(file.size / 1024 / 1024).toFixed(2)} MB`,
+      cached: true
+    }
+  }
+}
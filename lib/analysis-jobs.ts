@@ -0,0 +1,474 @@
+import { randomUUID } from 'crypto'
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises'
+import path from 'path'
+import {
+  cacheAnalysis,
+  getCachedAnalysis,
+  getCurrentModelVersion,
+  hashContent,
+  purgeCachedAnalyses,
+  toCachedOutcome
+} from './analysis-cache'
+import { getDatabase, withTransaction } from './database'
+import {
+  DeepfakeBackendError,
+  fetchFingerprint,
+  type DetectionOutcome,
+  type MediaFingerprint
+} from './deepfake-detection'
+import { detectDeepfake, isCompleteVerdict } from './detectors'
+import { findKnownFakeMatch, toKnownFakeOutcome } from './known-fakes'
+import { settleMessageAttachments } from './messaging'
+import { publishToUser } from './realtime'
+
+// queued: waiting for a worker slot (or a retry). running: sent to the
+// backend. completed/failed: final.
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed'
+
+// At most this many analyses run against the backend at once; the rest wait
+export const ANALYSIS_CONCURRENCY = Math.max(parseInt(process.env.ANALYSIS_CONCURRENCY || '2') || 2, 1)
+
+// Including the first try. Only backend outages and 5xx responses are retried.
+export const MAX_ANALYSIS_ATTEMPTS = 3
+
+// Wait before retry n is n times this
+const RETRY_DELAY_SECONDS = 15
+
+// Picks up retries that came due and anything a restart left behind
+export const ANALYSIS_QUEUE_INTERVAL_MS = 5 * 1000
+
+export const ANALYSIS_JOB_CLEANUP_INTERVAL_MS = 60 * 60 * 1000
+
+// Finished jobs (and their results) can be fetched for this long
+const ANALYSIS_JOB_RETENTION_HOURS = 24
+
+// Uploads wait here between submission and the worker sending them on
+const ANALYSIS_JOB_DIR = process.env.ANALYSIS_JOB_DIR || path.join(process.cwd(), '.analysis-jobs')
+
+export interface AnalysisJob {
+  id: string
+  user_id: number | null
+  status: AnalysisJobStatus
+  progress: number
+  attempts: number
+  file_path: string | null
+  filename: string
+  file_type: string
+  file_size: number
+  content_hash: string | null
+  result: DetectionOutcome | null
+  error: string | null
+  created_at: string
+  started_at: string | null
+  completed_at: string | null
+}
+
+// Kept on globalThis so dev-mode module reloads share one worker pool
+const globalForAnalysisJobs = globalThis as unknown as {
+  analysisWorkers?: { active: number }
+}
+
+const workers = globalForAnalysisJobs.analysisWorkers ??= { active: 0 }
+
+function formatJobRow(row: any): AnalysisJob {
+  return {
+    ...row,
+    result: row.result ? JSON.parse(row.result) : null
+  }
+}
+
+/**
+ * Stores the upload and queues it for analysis. Returns the queued job right
+ * away; the worker picks it up as soon as a slot is free. An upload the
+ * current model has already seen comes back as a completed job with the cached
+ * verdict (or flagged, if it matches a known fake), and one identical to a job
+ * the same uploader still has queued or running shares that job. Returns null
+ * if the upload couldn't be stored.
+ */
+export async function enqueueAnalysisJob(file: File, userId?: number | null): Promise<AnalysisJob | null> {
+  const id = randomUUID()
+  const filePath = path.join(ANALYSIS_JOB_DIR, `${id}${path.extname(file.name)}`)
+
+  try {
+    const content = Buffer.from(await file.arrayBuffer())
+    const contentHash = hashContent(content)
+
+    const modelVersion = await getCurrentModelVersion()
+    const cached = modelVersion ? await getCachedAnalysis(contentHash, modelVersion) : null
+    if (cached) {
+      // Known fakes come first, as in runJob: the clip may have been
+      // confirmed as fake after its verdict was cached
+      const fingerprint = await getFingerprint(file)
+      const knownFake = fingerprint ? await findKnownFakeMatch(fingerprint.frameHashes) : null
+      if (knownFake) {
+        await purgeCachedAnalyses(contentHash, null)
+        return insertCompletedJob(id, file, userId, contentHash, toKnownFakeOutcome(knownFake, file, modelVersion))
+      }
+      return insertCompletedJob(id, file, userId, contentHash, toCachedOutcome(cached, file))
+    }
+
+    const inFlight = await findInFlightJob(contentHash, userId)
+    if (inFlight) return inFlight
+
+    await mkdir(ANALYSIS_JOB_DIR, { recursive: true })
+    await writeFile(filePath, content)
+
+    const db = await getDatabase()
+    await db.run(
+      `INSERT INTO analysis_jobs (id, user_id, file_path, filename, file_type, file_size, content_hash)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, userId || null, filePath, file.name, file.type, file.size, contentHash]
+    )
+  } catch (error) {
+    console.error('Error queueing analysis job:', error)
+    await removeJobFile(filePath)
+    return null
+  }
+
+  void drainAnalysisQueue()
+  return getAnalysisJob(id)
+}
+
+// Recorded as a job so clients read verdicts reached without a worker the
+// same way as fresh ones
+async function insertCompletedJob(
+  id: string,
+  file: File,
+  userId: number | null | undefined,
+  contentHash: string,
+  outcome: DetectionOutcome
+): Promise<AnalysisJob | null> {
+  const db = await getDatabase()
+  await db.run(
+    `INSERT INTO analysis_jobs
+       (id, user_id, status, progress, filename, file_type, file_size, content_hash, result, started_at, completed_at)
+     VALUES (?, ?, 'completed', 100, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+    [id, userId || null, file.name, file.type, file.size, contentHash, JSON.stringify(outcome)]
+  )
+  return getAnalysisJob(id)
+}
+
+// Clients analyzing several files at once (MediaAnalysisService.analyzeMultipleFiles)
+// often submit the same clip twice; the second submission rides along
+async function findInFlightJob(contentHash: string, userId?: number | null): Promise<AnalysisJob | null> {
+  const db = await getDatabase()
+  const row = await db.get(
+    `SELECT * FROM analysis_jobs
+     WHERE content_hash = ? AND user_id IS ? AND status IN ('queued', 'running')
+     ORDER BY created_at ASC
+     LIMIT 1`,
+    [contentHash, userId || null]
+  )
+  return row ? formatJobRow(row) : null
+}
+
+export async function getAnalysisJob(jobId: string): Promise<AnalysisJob | null> {
+  try {
+    const db = await getDatabase()
+    const row = await db.get('SELECT * FROM analysis_jobs WHERE id = ?', [jobId])
+    return row ? formatJobRow(row) : null
+  } catch (error) {
+    console.error('Error getting analysis job:', error)
+    return null
+  }
+}
+
+/**
+ * The verdict a finished job reached, for publishing the same media as a post
+ * or story. Null unless the job is the caller's, completed, and analyzed
+ * exactly these bytes, so a client can't pair an upload with a verdict it
+ * picked itself or got for a different file.
+ */
+export async function getVerdictForUpload(jobId: string, userId: number, content: Buffer): Promise<DetectionOutcome | null> {
+  const job = await getAnalysisJob(jobId)
+  if (!job || job.user_id !== userId || job.status !== 'completed' || !job.result) return null
+
+  return job.content_hash === hashContent(content) ? job.result : null
+}
+
+// Marks the oldest due job as running and hands it to the caller. A job whose
+// upload is identical to one already running waits for that one to finish and
+// then picks up its verdict from the cache.
+async function claimNextJob(): Promise<AnalysisJob | null> {
+  return withTransaction(async (db) => {
+    const row = await db.get(`
+      SELECT id FROM analysis_jobs
+      WHERE status = 'queued' AND next_attempt_at <= CURRENT_TIMESTAMP
+        AND (content_hash IS NULL OR content_hash NOT IN (
+          SELECT content_hash FROM analysis_jobs WHERE status = 'running' AND content_hash IS NOT NULL
+        ))
+      ORDER BY created_at ASC
+      LIMIT 1
+    `)
+    if (!row) return null
+
+    await db.run(
+      `UPDATE analysis_jobs
+       SET status = 'running', progress = 10, attempts = attempts + 1, started_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [row.id]
+    )
+    const job = await db.get('SELECT * FROM analysis_jobs WHERE id = ?', [row.id])
+    return formatJobRow(job)
+  })
+}
+
+/**
+ * Starts queued jobs until every worker slot is busy. Safe to call any time:
+ * after a submission, when a job finishes, and on a timer for retries.
+ */
+export async function drainAnalysisQueue(): Promise<number> {
+  let started = 0
+
+  while (workers.active < ANALYSIS_CONCURRENCY) {
+    // Reserve the slot before awaiting so concurrent drains can't overfill
+    workers.active++
+    let job: AnalysisJob | null = null
+    try {
+      job = await claimNextJob()
+    } catch (error) {
+      console.error('Error claiming analysis job:', error)
+    }
+    if (!job) {
+      workers.active--
+      break
+    }
+
+    started++
+    runJob(job).finally(() => {
+      workers.active--
+      void drainAnalysisQueue()
+    })
+  }
+
+  return started
+}
+
+async function runJob(job: AnalysisJob) {
+  publishJobUpdate(job, 'running', 10)
+
+  try {
+    if (!job.file_path) throw new Error('Upload is missing')
+    const buffer = await readFile(job.file_path)
+    const file = new File([buffer], job.filename, { type: job.file_type })
+    const contentHash = job.content_hash || hashContent(buffer)
+    const modelVersion = await getCurrentModelVersion()
+
+    // Re-uploads of media a moderator confirmed as fake, even re-encoded or
+    // cropped, are flagged without running the models
+    const fingerprint = await getFingerprint(file)
+    const perceptualHash = fingerprint?.perceptualHash || null
+    const knownFake = fingerprint ? await findKnownFakeMatch(fingerprint.frameHashes) : null
+    if (knownFake) {
+      await completeJob(job, toKnownFakeOutcome(knownFake, file, modelVersion))
+      return
+    }
+
+    // An identical upload may have finished while this one waited. Only the
+    // exact bytes reuse a verdict: a near-duplicate of an authentic clip can
+    // be a face-swapped copy of it, so it always goes through the models.
+    const cached = modelVersion ? await getCachedAnalysis(contentHash, modelVersion) : null
+    if (cached) {
+      await completeJob(job, toCachedOutcome(cached, file))
+      return
+    }
+
+    await updateProgress(job, 20)
+    const outcome = await detectDeepfake(file, modelVersion)
+    // A verdict reached while a detector was down isn't reused for later uploads
+    if (modelVersion && isCompleteVerdict(outcome)) {
+      await cacheAnalysis(contentHash, perceptualHash, modelVersion, outcome)
+    }
+    await completeJob(job, outcome)
+  } catch (error) {
+    await failOrRetryJob(job, error)
+  }
+}
+
+// Known-fake matching is best effort; without hashes the job just runs
+async function getFingerprint(file: File): Promise<MediaFingerprint | null> {
+  try {
+    return await fetchFingerprint(file)
+  } catch (error) {
+    console.warn('Could not fingerprint upload:', error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+async function updateProgress(job: AnalysisJob, progress: number) {
+  const db = await getDatabase()
+  await db.run('UPDATE analysis_jobs SET progress = ? WHERE id = ?', [progress, job.id])
+  publishJobUpdate(job, 'running', progress)
+}
+
+async function completeJob(job: AnalysisJob, outcome: DetectionOutcome) {
+  const db = await getDatabase()
+  await db.run(
+    `UPDATE analysis_jobs
+     SET status = 'completed', progress = 100, result = ?, error = NULL, file_path = NULL, completed_at = CURRENT_TIMESTAMP
+     WHERE id = ?`,
+    [JSON.stringify(outcome), job.id]
+  )
+  await removeJobFile(job.file_path)
+
+  publishJobUpdate(job, 'completed', 100)
+  // Let the uploader's other views (e.g. a tab they switched away from) know it's done
+  if (job.user_id) {
+    publishToUser(job.user_id, {
+      type: 'analysis_complete',
+      filename: outcome.analysis.filename,
+      riskLevel: outcome.analysis.riskLevel,
+      confidence: outcome.analysis.confidence,
+      isDeepfake: outcome.analysis.isDeepfake
+    })
+  }
+  // DM attachments waiting on this verdict
+  await settleMessageAttachments({ ...job, status: 'completed', result: outcome })
+}
+
+// Outages and 5xx are worth another try; a 4xx means the backend rejected
+// this file and will do so again
+function isRetryable(error: unknown): boolean {
+  if (error instanceof DeepfakeBackendError) {
+    return error.status >= 500 || error.status === 429
+  }
+  return error instanceof TypeError
+}
+
+async function failOrRetryJob(job: AnalysisJob, error: unknown) {
+  const message = error instanceof DeepfakeBackendError
+    ? `${error.message}${error.details ? `: ${error.details}` : ''}`
+    : error instanceof Error ? error.message : 'Unknown error'
+  const db = await getDatabase()
+
+  if (isRetryable(error) && job.attempts < MAX_ANALYSIS_ATTEMPTS) {
+    const delaySeconds = RETRY_DELAY_SECONDS * job.attempts
+    console.warn(`Analysis job ${job.id} attempt ${job.attempts} failed, retrying in ${delaySeconds}s: ${message}`)
+    await db.run(
+      `UPDATE analysis_jobs
+       SET status = 'queued', progress = 0, error = ?, next_attempt_at = datetime('now', ?)
+       WHERE id = ?`,
+      [message, `+${delaySeconds} seconds`, job.id]
+    )
+    publishJobUpdate(job, 'queued', 0)
+    return
+  }
+
+  await failJob(job, message)
+}
+
+async function failJob(job: AnalysisJob, message: string) {
+  console.error(`Analysis job ${job.id} failed after ${job.attempts} attempt(s): ${message}`)
+  const db = await getDatabase()
+  await db.run(
+    `UPDATE analysis_jobs
+     SET status = 'failed', error = ?, file_path = NULL, completed_at = CURRENT_TIMESTAMP
+     WHERE id = ?`,
+    [message, job.id]
+  )
+  await removeJobFile(job.file_path)
+  publishJobUpdate(job, 'failed', job.progress)
+  // DM attachments waiting on it go out anyway, marked as unverified
+  await settleMessageAttachments({ ...job, status: 'failed', error: message })
+}
+
+function publishJobUpdate(job: AnalysisJob, status: AnalysisJobStatus, progress: number) {
+  if (!job.user_id) return
+
+  publishToUser(job.user_id, { type: 'analysis_job', jobId: job.id, status, progress })
+}
+
+async function removeJobFile(filePath: string | null) {
+  if (!filePath) return
+
+  try {
+    await unlink(filePath)
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.error('Error deleting analysis upload:', error)
+    }
+  }
+}
+
+// A job that was running when the server stopped never finished; put it
+// back in the queue, unless that was its last attempt (an upload that brings
+// the server down would otherwise do so forever). Call once at startup,
+// before the worker starts.
+export async function requeueInterruptedJobs(): Promise<number> {
+  try {
+    const db = await getDatabase()
+    const exhausted = await db.all(
+      "SELECT * FROM analysis_jobs WHERE status = 'running' AND attempts >= ?",
+      [MAX_ANALYSIS_ATTEMPTS]
+    )
+    for (const row of exhausted) {
+      await failJob(formatJobRow(row), 'Interrupted by a server restart')
+    }
+
+    const result = await db.run(
+      "UPDATE analysis_jobs SET status = 'queued', progress = 0 WHERE status = 'running'"
+    )
+    if (result.changes) {
+      console.log(`Requeued ${result.changes} interrupted analysis jobs`)
+    }
+    return result.changes || 0
+  } catch (error) {
+    console.error('Error requeueing analysis jobs:', error)
+    return 0
+  }
+}
+
+export async function deleteOldAnalysisJobs(): Promise<number> {
+  try {
+    const db = await getDatabase()
+    const result = await db.run(
+      `DELETE FROM analysis_jobs
+       WHERE status IN ('completed', 'failed') AND completed_at <= datetime('now', ?)`,
+      [`-${ANALYSIS_JOB_RETENTION_HOURS} hours`]
+    )
+    return result.changes || 0
+  } catch (error) {
+    console.error('Error deleting old analysis jobs:', error)
+    return 0
+  }
+}
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+function toIsoTimestamp(timestamp: string | null): string | null {
+  if (!timestamp) return null
+  return new Date(timestamp.includes('T') ? timestamp : `${timestamp.replace(' ', 'T')}Z`).toISOString()
+}
+
+// The result carries the same analysis/backend pair the analyze route used
+// to return inline, plus whether it came from the cache, which model made it
+// and what each detector in the ensemble said
+export function serializeAnalysisJob(job: AnalysisJob) {
+  const { backend } = job.result || {}
+
+  return {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    attempts: job.attempts,
+    filename: job.filename,
+    error: job.status === 'completed' ? null : job.error,
+    createdAt: toIsoTimestamp(job.created_at),
+    startedAt: toIsoTimestamp(job.started_at),
+    completedAt: toIsoTimestamp(job.completed_at),
+    result: job.result && backend ? {
+      analysis: job.result.analysis,
+      backend: {
+        prediction: backend.prediction,
+        confidence: backend.confidence,
+        image_importance: backend.image_importance,
+        audio_importance: backend.audio_importance,
+        text_importance: backend.text_importance,
+        transcript: backend.transcript
+      },
+      cached: Boolean(job.result.analysis.cached),
+      modelVersion: job.result.modelVersion || null,
+      detectors: job.result.detectors || [],
+      ensemble: job.result.ensemble || null
+    } : null
+  }
+}
@@ -0,0 +1,346 @@
+import type { AuthUser } from './auth'
+import { getDatabase, withTransaction } from './database'
+import { forgetKnownFake, recordKnownFake } from './known-fakes'
+import { sendMail } from './mailer'
+import {
+  applyModerationDecision,
+  type ModerationContentType,
+  type ModerationStatus,
+  type ReviewVerdict
+} from './moderation'
+import { publishToUser } from './realtime'
+
+// pending: waiting for a moderator. accepted: the creator was right and the
+// media is marked authentic. denied: the flag stands and it's marked manipulated.
+export type AppealStatus = 'pending' | 'accepted' | 'denied'
+
+export type AppealDecision = 'accepted' | 'denied'
+
+export const MAX_APPEAL_EXPLANATION_LENGTH = 1000
+
+export const MAX_APPEAL_EVIDENCE_URL_LENGTH = 500
+
+const CONTENT_TABLES: Record<ModerationContentType, string> = {
+  post: 'posts',
+  story: 'stories',
+}
+
+// Content carries a flag worth contesting when the feed shows a warning badge
+// on it or it's held back by moderation
+const FLAGGED_CONTENT = `(
+  c.risk_level IN ('medium', 'high')
+  OR c.deepfake_score > 20
+  OR c.moderation_status IN ('pending_review', 'rejected')
+)`
+
+export interface Appeal {
+  id: number
+  content_type: ModerationContentType
+  content_id: number
+  user_id: number
+  username: string
+  profile_pic?: string | null
+  explanation: string
+  evidence_url: string | null
+  status: AppealStatus
+  decision_note: string | null
+  decided_at: string | null
+  moderator_username: string | null
+  created_at: string
+  // The content as the model saw it, kept for the moderator to compare
+  media_url: string
+  media_type: string
+  caption: string | null
+  deepfake_score: number
+  risk_level: 'low' | 'medium' | 'high'
+  analysis_result: any
+  moderation_status: ModerationStatus
+  review_verdict: ReviewVerdict | null
+}
+
+// Evidence is either a file the creator uploaded here (the original capture,
+// a provenance manifest) or a link to where the media was first published
+export function isValidEvidenceUrl(value: string): boolean {
+  if (value.startsWith('/uploads/')) return !value.includes('..')
+
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+// Why an appeal can't be filed, or null when it can
+export type AppealBlocker = 'not_found' | 'not_owner' | 'not_flagged' | 'already_appealed'
+
+function appealSelect(contentType: ModerationContentType): string {
+  const caption = contentType === 'post' ? 'c.caption' : 'NULL'
+
+  return `
+    SELECT
+      a.id, a.content_type, a.content_id, a.user_id, u.username, u.profile_pic,
+      a.explanation, a.evidence_url, a.status, a.decision_note, a.decided_at,
+      m.username AS moderator_username, a.created_at,
+      c.media_url, c.media_type, ${caption} AS caption, c.deepfake_score, c.risk_level,
+      c.analysis_result, c.moderation_status, c.review_verdict
+    FROM appeals a
+    JOIN ${CONTENT_TABLES[contentType]} c ON c.id = a.content_id
+    JOIN users u ON u.id = a.user_id
+    LEFT JOIN users m ON m.id = a.moderator_id
+    WHERE a.content_type = '${contentType}'
+  `
+}
+
+function formatAppealRow(row: any): Appeal {
+  return {
+    ...row,
+    analysis_result: row.analysis_result ? JSON.parse(row.analysis_result) : null
+  }
+}
+
+export async function getAppealBlocker(
+  userId: number,
+  contentType: ModerationContentType,
+  contentId: number
+): Promise<AppealBlocker | null> {
+  try {
+    const db = await getDatabase()
+    const row = await db.get(`
+      SELECT
+        c.user_id,
+        ${FLAGGED_CONTENT} AS flagged,
+        EXISTS(SELECT 1 FROM appeals WHERE content_type = ? AND content_id = c.id) AS appealed
+      FROM ${CONTENT_TABLES[contentType]} c
+      WHERE c.id = ?
+    `, [contentType, contentId])
+
+    if (!row) return 'not_found'
+    if (row.user_id !== userId) return 'not_owner'
+    if (row.appealed) return 'already_appealed'
+    if (!row.flagged) return 'not_flagged'
+    return null
+  } catch (error) {
+    console.error('Error checking appeal eligibility:', error)
+    return 'not_found'
+  }
+}
+
+/**
+ * Files the creator's appeal against a flag. One appeal per item; callers
+ * check getAppealBlocker first. Returns null on failure, including a second
+ * appeal racing the first.
+ */
+export async function createAppeal(
+  userId: number,
+  contentType: ModerationContentType,
+  contentId: number,
+  explanation: string,
+  evidenceUrl?: string | null
+): Promise<Appeal | null> {
+  try {
+    const db = await getDatabase()
+    const result = await db.run(
+      `INSERT INTO appeals (content_type, content_id, user_id, explanation, evidence_url)
+       VALUES (?, ?, ?, ?, ?)`,
+      [contentType, contentId, userId, explanation, evidenceUrl || null]
+    )
+
+    return result.lastID ? await getAppeal(result.lastID) : null
+  } catch (error) {
+    console.error('Error creating appeal:', error)
+    return null
+  }
+}
+
+export async function getAppeal(appealId: number): Promise<Appeal | null> {
+  try {
+    const db = await getDatabase()
+    const appeal = await db.get('SELECT content_type FROM appeals WHERE id = ?', [appealId])
+    if (!appeal) return null
+
+    const row = await db.get(`${appealSelect(appeal.content_type)} AND a.id = ?`, [appealId])
+    return row ? formatAppealRow(row) : null
+  } catch (error) {
+    console.error('Error getting appeal:', error)
+    return null
+  }
+}
+
+/**
+ * Lists appeals with the given status across posts and stories. Pending
+ * appeals are oldest first; decided ones most recently decided first.
+ */
+export async function getAppeals(
+  status: AppealStatus = 'pending',
+  options: { limit?: number; offset?: number } = {}
+): Promise<Appeal[]> {
+  const { limit = 20, offset = 0 } = options
+
+  try {
+    const db = await getDatabase()
+    const union = (Object.keys(CONTENT_TABLES) as ModerationContentType[])
+      .map(type => `${appealSelect(type)} AND a.status = ?`)
+      .join(' UNION ALL ')
+    const order = status === 'pending' ? 'created_at ASC, id ASC' : 'decided_at DESC, id DESC'
+
+    const rows = await db.all(
+      `SELECT * FROM (${union}) ORDER BY ${order} LIMIT ? OFFSET ?`,
+      [status, status, limit, offset]
+    )
+    return rows.map(formatAppealRow)
+  } catch (error) {
+    console.error('Error getting appeals:', error)
+    return []
+  }
+}
+
+export async function countPendingAppeals(): Promise<number> {
+  try {
+    const db = await getDatabase()
+    const row = await db.get("SELECT COUNT(*) AS pending FROM appeals WHERE status = 'pending'")
+    return row?.pending || 0
+  } catch (error) {
+    console.error('Error counting pending appeals:', error)
+    return 0
+  }
+}
+
+/**
+ * Settles a pending appeal. Accepting marks the media authentic and publishes
+ * it if moderation was holding it back; denying marks it manipulated and
+ * rejects it if it was still waiting for review. Either way the model's score
+ * and analysis stay as recorded. The creator is told in-app and by email.
+ * Returns null if the appeal doesn't exist or was already decided.
+ */
+export async function decideAppeal(
+  appealId: number,
+  moderatorId: number,
+  decision: AppealDecision,
+  note?: string | null
+): Promise<Appeal | null> {
+  try {
+    const decided = await withTransaction(async (db) => {
+      const appeal = await db.get(
+        "SELECT content_type, content_id FROM appeals WHERE id = ? AND status = 'pending'",
+        [appealId]
+      )
+      if (!appeal) return false
+
+      const contentType = appeal.content_type as ModerationContentType
+      const table = CONTENT_TABLES[contentType]
+      const verdict: ReviewVerdict = decision === 'accepted' ? 'authentic' : 'manipulated'
+
+      await db.run(
+        `UPDATE appeals
+         SET status = ?, moderator_id = ?, decision_note = ?, decided_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [decision, moderatorId, note || null, appealId]
+      )
+      await db.run(
+        `UPDATE ${table} SET review_verdict = ?, review_verdict_at = CURRENT_TIMESTAMP WHERE id = ?`,
+        [verdict, appeal.content_id]
+      )
+
+      const content = await db.get(
+        `SELECT moderation_status, moderation_reason FROM ${table} WHERE id = ?`,
+        [appeal.content_id]
+      )
+      const held = content.moderation_status === 'pending_review' || content.moderation_status === 'rejected'
+      if (decision === 'accepted' && held) {
+        await applyModerationDecision(
+          db, contentType, appeal.content_id, moderatorId, 'approved', content.moderation_reason, note
+        )
+      } else if (decision === 'denied' && content.moderation_status === 'pending_review') {
+        await applyModerationDecision(
+          db, contentType, appeal.content_id, moderatorId, 'rejected', content.moderation_reason, note
+        )
+      }
+      return true
+    })
+    if (!decided) return null
+
+    const appeal = await getAppeal(appealId)
+    if (appeal) {
+      await notifyAppealDecision(appeal)
+      // Re-uploads of media confirmed as manipulated are caught before analysis
+      if (appeal.review_verdict === 'manipulated') {
+        void recordKnownFake(appeal.content_type, appeal.content_id)
+      } else {
+        await forgetKnownFake(appeal.content_type, appeal.content_id)
+      }
+    }
+    return appeal
+  } catch (error) {
+    console.error('Error deciding appeal:', error)
+    return null
+  }
+}
+
+async function notifyAppealDecision(appeal: Appeal) {
+  publishToUser(appeal.user_id, {
+    type: 'appeal_decision',
+    appealId: appeal.id.toString(),
+    contentType: appeal.content_type,
+    contentId: appeal.content_id.toString(),
+    decision: appeal.status as AppealDecision,
+    verdict: appeal.review_verdict as ReviewVerdict,
+    moderationStatus: appeal.moderation_status
+  })
+
+  const db = await getDatabase()
+  const author: Pick<AuthUser, 'email' | 'username'> | undefined = await db.get(
+    'SELECT email, username FROM users WHERE id = ?',
+    [appeal.user_id]
+  )
+  if (!author) return
+
+  const outcome = appeal.status === 'accepted'
+    ? `A moderator accepted your appeal. Your ${appeal.content_type} is now marked as authentic.`
+    : `A moderator reviewed your appeal and upheld the flag. Your ${appeal.content_type} is now marked as manipulated media.`
+  const note = appeal.decision_note ? `\n\nModerator's note: ${appeal.decision_note}` : ''
+
+  await sendMail({
+    to: author.email,
+    subject: `Your SocialGuard appeal was ${appeal.status}`,
+    text: `Hi ${author.username},\n\n${outcome}${note}\n\nThe original detection result stays on record alongside this decision.`,
+  })
+}
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+function toIsoTimestamp(timestamp: string | null): string | null {
+  if (!timestamp) return null
+  return new Date(timestamp.includes('T') ? timestamp : `${timestamp.replace(' ', 'T')}Z`).toISOString()
+}
+
+export function serializeAppeal(appeal: Appeal) {
+  return {
+    id: appeal.id.toString(),
+    contentType: appeal.content_type,
+    contentId: appeal.content_id.toString(),
+    user: {
+      id: appeal.user_id.toString(),
+      username: appeal.username,
+      profilePic: appeal.profile_pic || '/placeholder.svg'
+    },
+    explanation: appeal.explanation,
+    evidenceUrl: appeal.evidence_url,
+    status: appeal.status,
+    createdAt: toIsoTimestamp(appeal.created_at),
+    decision: appeal.decided_at ? {
+      decidedAt: toIsoTimestamp(appeal.decided_at),
+      moderator: appeal.moderator_username,
+      note: appeal.decision_note
+    } : null,
+    content: {
+      mediaUrl: appeal.media_url,
+      mediaType: appeal.media_type,
+      caption: appeal.caption,
+      deepfakeScore: appeal.deepfake_score,
+      riskLevel: appeal.risk_level,
+      analysisResult: appeal.analysis_result,
+      moderationStatus: appeal.moderation_status,
+      verdict: appeal.review_verdict
+    }
+  }
+}
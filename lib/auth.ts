@@ -1,8 +1,83 @@
+import { randomBytes } from 'crypto'
 import bcrypt from 'bcryptjs'
 import jwt from 'jsonwebtoken'
 import { getDatabase } from './database'
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
+// Access tokens are short-lived; clients renew them with a refresh token
+// (see lib/refresh-tokens.ts) instead of holding a long-lived JWT.
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60
+
+// Only ever used outside production, when no secret is configured
+const DEV_FALLBACK_SECRET = 'your-secret-key-change-in-production'
+const MIN_PRODUCTION_SECRET_LENGTH = 32
+
+export interface SigningKey {
+  kid: string
+  secret: string
+}
+
+export class AuthConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AuthConfigError'
+  }
+}
+
+let signingKeys: SigningKey[] | null = null
+
+function parseSigningKeys(): SigningKey[] {
+  // JWT_SIGNING_KEYS="<kid>:<secret>,<kid>:<secret>". The first key signs new
+  // tokens; the rest still verify, so a secret can be rotated out without
+  // invalidating tokens issued just before the switch.
+  if (process.env.JWT_SIGNING_KEYS) {
+    return process.env.JWT_SIGNING_KEYS.split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const separator = entry.indexOf(':')
+        if (separator <= 0) {
+          throw new AuthConfigError('JWT_SIGNING_KEYS entries must look like <kid>:<secret>')
+        }
+        return { kid: entry.slice(0, separator), secret: entry.slice(separator + 1) }
+      })
+  }
+
+  if (process.env.JWT_SECRET) {
+    return [{ kid: 'default', secret: process.env.JWT_SECRET }]
+  }
+
+  return []
+}
+
+// Throws AuthConfigError in production unless real secrets are configured.
+// Called at server startup so a misconfigured deploy fails immediately.
+export function getSigningKeys(): SigningKey[] {
+  if (signingKeys) return signingKeys
+
+  const keys = parseSigningKeys()
+
+  if (process.env.NODE_ENV === 'production') {
+    if (keys.length === 0) {
+      throw new AuthConfigError('JWT_SIGNING_KEYS or JWT_SECRET must be set in production')
+    }
+    const weak = keys.find(key => key.secret === DEV_FALLBACK_SECRET || key.secret.length < MIN_PRODUCTION_SECRET_LENGTH)
+    if (weak) {
+      throw new AuthConfigError(`JWT signing key "${weak.kid}" must be a random secret of at least ${MIN_PRODUCTION_SECRET_LENGTH} characters`)
+    }
+  } else if (keys.length === 0) {
+    keys.push({ kid: 'dev', secret: DEV_FALLBACK_SECRET })
+  }
+
+  const kids = new Set(keys.map(key => key.kid))
+  if (kids.size !== keys.length) {
+    throw new AuthConfigError('JWT signing key ids must be unique')
+  }
+
+  signingKeys = keys
+  return keys
+}
+
+export type UserRole = 'user' | 'moderator' | 'admin'
 
 export interface AuthUser {
   id: number
@@ -10,6 +85,57 @@ export interface AuthUser {
   email: string
   profile_pic?: string
   bio?: string
+  email_verified_at?: string | null
+  role: UserRole
+  totp_enabled_at?: string | null
+}
+
+// Everything AuthUser needs, for queries that load a signed-in user
+export const AUTH_USER_COLUMNS = 'id, username, email, profile_pic, bio, email_verified_at, role, totp_enabled_at'
+
+// Shared by registration and password reset. Length and a blocklist rather
+// than composition rules: long passphrases beat "Passw0rd!".
+export const MIN_PASSWORD_LENGTH = 10
+// bcrypt ignores everything past 72 bytes
+const MAX_PASSWORD_BYTES = 72
+
+const COMMON_PASSWORDS = new Set([
+  '1234567890', '0123456789', '1234512345', '1111111111', '0000000000',
+  'qwertyuiop', 'asdfghjkl;', '1q2w3e4r5t', 'q1w2e3r4t5', 'zaq12wsxcde',
+  'password', 'password1', 'password12', 'password123', 'password1234',
+  'passw0rd', 'p@ssw0rd', 'p@ssword', 'iloveyou', 'iloveyou1',
+  'letmein', 'letmein123', 'welcome', 'welcome1', 'welcome123',
+  'qwerty123', 'qwerty1234', 'abc1234567', 'abcdefghij', 'admin12345',
+  'football', 'baseball', 'sunshine', 'princess', 'superman',
+  'trustno1', 'changeme', 'changeme123', 'socialguard', 'socialguard1',
+])
+
+export interface PasswordContext {
+  username?: string
+  email?: string
+}
+
+export function validatePassword(password: unknown, context: PasswordContext = {}): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`
+  }
+  if (Buffer.byteLength(password, 'utf8') > MAX_PASSWORD_BYTES) {
+    return `Password must be at most ${MAX_PASSWORD_BYTES} bytes long`
+  }
+
+  const lower = password.toLowerCase()
+  if (COMMON_PASSWORDS.has(lower) || /^(.)\1+$/.test(password)) {
+    return 'That password is too common. Choose something harder to guess.'
+  }
+
+  const personal = [context.username, context.email?.split('@')[0]]
+    .filter((value): value is string => !!value && value.length >= 3)
+    .map(value => value.toLowerCase())
+  if (personal.some(value => lower.includes(value))) {
+    return "Password can't contain your username or email"
+  }
+
+  return null
 }
 
 export async function hashPassword(password: string): Promise<string> {
@@ -20,19 +146,51 @@ export async function comparePassword(password: string, hash: string): Promise<b
   return await bcrypt.compare(password, hash)
 }
 
-export function generateToken(userId: number): string {
-  return jwt.sign({ userId }, JWT_SECRET, { expiresIn: '7d' })
+// Compared against when the account doesn't exist, so unknown and known
+// usernames take the same time to reject
+let dummyPasswordHash: string | null = null
+async function getDummyPasswordHash(): Promise<string> {
+  dummyPasswordHash ??= await hashPassword(randomBytes(16).toString('hex'))
+  return dummyPasswordHash
 }
 
-export function verifyToken(token: string): { userId: number } | null {
+// Signs with the active key and records its id in the kid header
+export function signToken(payload: object, expiresInSeconds: number): string {
+  const [activeKey] = getSigningKeys()
+  return jwt.sign(payload, activeKey.secret, {
+    algorithm: 'HS256',
+    expiresIn: expiresInSeconds,
+    keyid: activeKey.kid
+  })
+}
+
+// Tokens are matched to their key by the kid header; tokens without one, or
+// signed by a key that has been retired, are rejected
+export function verifySignedToken<T extends object>(token: string): T | null {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: number }
-    return decoded
+    const kid = jwt.decode(token, { complete: true })?.header.kid
+    const key = kid ? getSigningKeys().find(k => k.kid === kid) : undefined
+    if (!key) return null
+
+    return jwt.verify(token, key.secret, { algorithms: ['HS256'] }) as T
   } catch (error) {
+    if (error instanceof AuthConfigError) throw error
     return null
   }
 }
 
+export function generateToken(userId: number): string {
+  return signToken({ userId, type: 'access' }, ACCESS_TOKEN_TTL_SECONDS)
+}
+
+// Other signed tokens (email links) share the keys, so the type is checked
+export function verifyToken(token: string): { userId: number } | null {
+  const decoded = verifySignedToken<{ userId: number; type?: string }>(token)
+  if (!decoded || decoded.type !== 'access') return null
+
+  return { userId: decoded.userId }
+}
+
 export async function createUser(
   username: string, 
   email: string, 
@@ -49,7 +207,7 @@ export async function createUser(
     
     if (result.lastID) {
       const user = await db.get(
-        'SELECT id, username, email, profile_pic, bio FROM users WHERE id = ?',
+        `SELECT ${AUTH_USER_COLUMNS} FROM users WHERE id = ?`,
         [result.lastID]
       )
       return user as AuthUser
@@ -62,18 +220,39 @@ export async function createUser(
   }
 }
 
+// Sign-in accepts either the email address (any case) or the username
+export async function findUserIdByLogin(login: string): Promise<number | null> {
+  try {
+    const db = await getDatabase()
+    const row = await db.get(
+      `SELECT id FROM users WHERE email = ? COLLATE NOCASE OR username = ?
+       ORDER BY email = ? COLLATE NOCASE DESC LIMIT 1`,
+      [login, login, login]
+    )
+    return row?.id ?? null
+  } catch (error) {
+    console.error('Error finding user by login:', error)
+    return null
+  }
+}
+
 export async function authenticateUser(
-  email: string, 
+  login: string, 
   password: string
 ): Promise<AuthUser | null> {
   try {
     const db = await getDatabase()
     const user = await db.get(
-      'SELECT id, username, email, password_hash, profile_pic, bio FROM users WHERE email = ?',
-      [email]
+      `SELECT ${AUTH_USER_COLUMNS}, password_hash FROM users
+       WHERE email = ? COLLATE NOCASE OR username = ?
+       ORDER BY email = ? COLLATE NOCASE DESC LIMIT 1`,
+      [login, login, login]
     )
     
-    if (!user) return null
+    if (!user) {
+      await comparePassword(password, await getDummyPasswordHash())
+      return null
+    }
     
     const isValid = await comparePassword(password, user.password_hash)
     if (!isValid) return null
@@ -83,7 +262,10 @@ export async function authenticateUser(
       username: user.username,
       email: user.email,
       profile_pic: user.profile_pic,
-      bio: user.bio
+      bio: user.bio,
+      email_verified_at: user.email_verified_at,
+      role: user.role,
+      totp_enabled_at: user.totp_enabled_at
     }
   } catch (error) {
     console.error('Error authenticating user:', error)
@@ -95,7 +277,7 @@ export async function getUserById(id: number): Promise<AuthUser | null> {
   try {
     const db = await getDatabase()
     const user = await db.get(
-      'SELECT id, username, email, profile_pic, bio FROM users WHERE id = ?',
+      `SELECT ${AUTH_USER_COLUMNS} FROM users WHERE id = ?`,
       [id]
     )
     return user as AuthUser || null
@@ -105,6 +287,37 @@ export async function getUserById(id: number): Promise<AuthUser | null> {
   }
 }
 
+export async function getUserByEmail(email: string): Promise<AuthUser | null> {
+  try {
+    const db = await getDatabase()
+    const user = await db.get(
+      `SELECT ${AUTH_USER_COLUMNS} FROM users WHERE email = ?`,
+      [email]
+    )
+    return user as AuthUser || null
+  } catch (error) {
+    console.error('Error getting user by email:', error)
+    return null
+  }
+}
+
+// Returns the updated user, or null if there's no such user
+export async function setUserRole(userId: number, role: UserRole): Promise<AuthUser | null> {
+  try {
+    const db = await getDatabase()
+    const result = await db.run(
+      'UPDATE users SET role = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [role, userId]
+    )
+    if (!result.changes) return null
+
+    return getUserById(userId)
+  } catch (error) {
+    console.error('Error setting user role:', error)
+    return null
+  }
+}
+
 export async function updateUserProfile(
   userId: number,
   updates: { username?: string; bio?: string; profile_pic?: string }
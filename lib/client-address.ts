@@ -0,0 +1,40 @@
+import type { IncomingMessage } from 'http'
+import type { NextRequest } from 'next/server'
+
+/**
+ * How many reverse proxies of ours sit in front of the server, from
+ * TRUSTED_PROXY_HOPS. Each one appends the address it saw to
+ * x-forwarded-for, so the client is that many entries from the right;
+ * anything further left came from the client and can be forged. 0 (the
+ * default) means nothing is in front and forwarding headers aren't trusted.
+ */
+export function getTrustedProxyHops(): number {
+  const hops = parseInt(process.env.TRUSTED_PROXY_HOPS || '0', 10)
+  return Number.isInteger(hops) && hops > 0 ? hops : 0
+}
+
+/**
+ * Route handlers never see the connection itself. Next.js fills in
+ * x-forwarded-for from the socket, but only when the request doesn't carry
+ * one already. With no trusted proxy, this overwrites whatever the client
+ * sent with the socket address. server.ts calls it on every request before
+ * handing it to Next.js.
+ */
+export function applyPeerAddress(request: IncomingMessage) {
+  if (getTrustedProxyHops() > 0) return
+
+  request.headers['x-forwarded-for'] = request.socket.remoteAddress || ''
+  delete request.headers['x-real-ip']
+}
+
+// The address to throttle and audit by: the socket's, or the one our
+// outermost trusted proxy saw
+export function getClientIp(request: NextRequest): string | null {
+  const forwarded = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+
+  const hops = Math.max(getTrustedProxyHops(), 1)
+  return forwarded[Math.max(forwarded.length - hops, 0)] || null
+}
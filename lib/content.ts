@@ -1,4 +1,7 @@
-import { getDatabase } from './database'
+import { getDatabase, withTransaction } from './database'
+import { deepfakeScoreFromBackend, riskLevelFromScore, type DetectionOutcome } from './deepfake-detection'
+import { getInitialModeration, type ModerationStatus, type ReviewVerdict } from './moderation'
+import { publishToUser, type RealtimeEvent } from './realtime'
 
 export interface PostWithUser {
   id: number
@@ -12,12 +15,23 @@ export interface PostWithUser {
   analysis_result?: string
   risk_level: 'low' | 'medium' | 'high'
   ai_confirmed: boolean
+  moderation_status: ModerationStatus
+  review_verdict: ReviewVerdict | null
+  // Only filled in for the author's own posts
+  appeal_status: 'pending' | 'accepted' | 'denied' | null
   likes_count: number
   comments_count: number
   is_liked: boolean
   created_at: string
 }
 
+export type FeedMode = 'global' | 'following' | 'ranked'
+
+export interface FeedPage {
+  posts: PostWithUser[]
+  nextCursor: string | null
+}
+
 export interface StoryWithUser {
   id: number
   user_id: number
@@ -29,48 +43,107 @@ export interface StoryWithUser {
   analysis_result?: string
   risk_level: 'low' | 'medium' | 'high'
   ai_confirmed: boolean
+  moderation_status: ModerationStatus
+  review_verdict: ReviewVerdict | null
+  // Only filled in for the author's own stories
+  appeal_status: 'pending' | 'accepted' | 'denied' | null
   viewed: boolean
   created_at: string
   expires_at: string
 }
 
+export interface LikeResult {
+  liked: boolean
+  likes: number
+}
+
+export interface CommentWithUser {
+  id: number
+  post_id: number
+  user_id: number
+  parent_id?: number
+  username: string
+  profile_pic?: string
+  content: string
+  created_at: string
+  updated_at?: string
+  replies?: CommentWithUser[]
+}
+
+export interface CommentWithPost extends CommentWithUser {
+  post_owner_id: number
+}
+
+export interface CommentPage {
+  comments: CommentWithUser[]
+  nextCursor: number | null
+}
+
+export interface StoryViewer {
+  id: number
+  username: string
+  profile_pic?: string
+  viewed_at: string
+}
+
+export interface FollowListUser {
+  id: number
+  username: string
+  profile_pic?: string
+  bio?: string
+  followed_at: string
+  is_following: boolean
+  follows_viewer: boolean
+  is_mutual: boolean
+}
+
+export interface FollowRelationship {
+  is_following: boolean
+  is_followed_by: boolean
+  is_mutual: boolean
+}
+
+export interface UserStats {
+  posts: number
+  followers: number
+  following: number
+}
+
+// What posts and stories keep from the verdict of the upload's analysis job:
+// the analysis the uploader was shown, with the backend's raw answer as
+// backendInfo, and a score and risk level derived from the prediction
+function toStoredAnalysis(verdict: DetectionOutcome) {
+  const deepfakeScore = deepfakeScoreFromBackend(verdict.backend)
+
+  return {
+    deepfakeScore,
+    riskLevel: riskLevelFromScore(deepfakeScore),
+    analysisJson: JSON.stringify({ ...verdict.analysis, backendInfo: verdict.backend }),
+    moderation: getInitialModeration(deepfakeScore)
+  }
+}
+
+// verdict is the result of the analysis job the server ran on this media
+// (getVerdictForUpload), never an analysis the client sent
 export async function createPost(
   userId: number,
   mediaUrl: string,
   mediaType: string,
-  caption?: string,
-  analysisResult?: any,
+  caption: string | undefined,
+  verdict: DetectionOutcome,
   aiConfirmed: boolean = false
 ): Promise<number | null> {
   try {
     const db = await getDatabase()
-    
-    // Calculate the correct deepfake score based on backend prediction
-    let deepfakeScore = 0
-    if (analysisResult?.backendInfo) {
-      const confidence = analysisResult.backendInfo.confidence
-      const prediction = analysisResult.backendInfo.prediction
-      
-      // If backend says "Real", then deepfake score is (1 - confidence)
-      // If backend says "Deepfake", then deepfake score is confidence
-      if (prediction === "Real") {
-        deepfakeScore = Math.round((1 - confidence) * 100)
-      } else {
-        deepfakeScore = Math.round(confidence * 100)
-      }
-    } else {
-      // Fallback to analysis confidence (already in percentage)
-      deepfakeScore = analysisResult?.confidence || 0
-    }
-    
-    const riskLevel = analysisResult?.riskLevel || 'low'
-    const analysisJson = analysisResult ? JSON.stringify(analysisResult) : null
+    const { deepfakeScore, riskLevel, analysisJson, moderation } = toStoredAnalysis(verdict)
     
     const result = await db.run(
       `INSERT INTO posts 
-       (user_id, media_url, media_type, caption, deepfake_score, analysis_result, risk_level, ai_confirmed) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-      [userId, mediaUrl, mediaType, caption, deepfakeScore, analysisJson, riskLevel, aiConfirmed]
+       (user_id, media_url, media_type, caption, deepfake_score, analysis_result, risk_level, ai_confirmed,
+        moderation_status, moderation_reason, flagged_at) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CASE WHEN ? IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END)`,
+      [userId, mediaUrl, mediaType, caption, deepfakeScore, analysisJson, riskLevel, aiConfirmed,
+       moderation.status, moderation.reason, moderation.reason]
     )
     
     return result.lastID || null
@@ -84,25 +157,25 @@ export async function createStory(
   userId: number,
   mediaUrl: string,
   mediaType: string,
-  analysisResult?: any,
+  verdict: DetectionOutcome,
   aiConfirmed: boolean = false
 ): Promise<number | null> {
   try {
     const db = await getDatabase()
+    const { deepfakeScore, riskLevel, analysisJson, moderation } = toStoredAnalysis(verdict)
     
-    const deepfakeScore = analysisResult?.confidence || 0
-    const riskLevel = analysisResult?.riskLevel || 'low'
-    const analysisJson = analysisResult ? JSON.stringify(analysisResult) : null
-    
-    // Stories expire after 24 hours
+    // Stories expire after 24 hours. Stored in SQLite's own format so it
+    // compares correctly against datetime('now').
     const expiresAt = new Date()
     expiresAt.setHours(expiresAt.getHours() + 24)
     
     const result = await db.run(
       `INSERT INTO stories 
-       (user_id, media_url, media_type, deepfake_score, analysis_result, risk_level, ai_confirmed, expires_at) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-      [userId, mediaUrl, mediaType, deepfakeScore, analysisJson, riskLevel, aiConfirmed, expiresAt.toISOString()]
+       (user_id, media_url, media_type, deepfake_score, analysis_result, risk_level, ai_confirmed, expires_at,
+        moderation_status, moderation_reason, flagged_at) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CASE WHEN ? IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END)`,
+      [userId, mediaUrl, mediaType, deepfakeScore, analysisJson, riskLevel, aiConfirmed, toSqliteTimestamp(expiresAt),
+       moderation.status, moderation.reason, moderation.reason]
     )
     
     return result.lastID || null
@@ -112,33 +185,206 @@ export async function createStory(
   }
 }
 
-export async function getPosts(userId?: number, limit: number = 20, offset: number = 0): Promise<PostWithUser[]> {
+export const MAX_COMMENT_LENGTH = 1000
+
+const COMMENT_COLUMNS = `
+  c.id, c.post_id, c.user_id, c.parent_id, c.content, c.created_at, c.updated_at,
+  u.username, u.profile_pic
+`
+
+// The author's appeal against a flag, if any. Takes the viewer's id so other
+// people never learn a post or story was appealed.
+const POST_APPEAL_STATUS = `
+  (SELECT a.status FROM appeals a WHERE a.content_type = 'post' AND a.content_id = p.id AND p.user_id = ?) as appeal_status
+`
+const STORY_APPEAL_STATUS = `
+  (SELECT a.status FROM appeals a WHERE a.content_type = 'story' AND a.content_id = s.id AND s.user_id = ?) as appeal_status
+`
+
+// Tuning knobs for the ranked feed. Scores are relative, so only the ratios
+// between these values matter.
+const FEED_RANKING = {
+  followedAuthorBoost: 1.5,
+  ownPostBoost: 0.5,
+  engagementWeight: 1.0,
+  // Engagement saturates: a post with this many weighted interactions gets half the weight
+  engagementHalfPoint: 20,
+  // Score halves after this many hours
+  recencyHalfLifeHours: 24,
+  // Multipliers for suspected manipulated media the uploader didn't confirm
+  // and a moderator hasn't verified as authentic. They go by deepfake_score,
+  // not risk_level, which also runs high for confidently authentic media.
+  // highRiskPenalty also covers media a moderator confirmed as manipulated.
+  highRiskPenalty: 0.2,
+  highScorePenalty: 0.4,
+  mediumScorePenalty: 0.7,
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid feed cursor')
+    this.name = 'InvalidCursorError'
+  }
+}
+
+interface FeedCursor {
+  id: number
+  createdAt?: string
+  score?: number
+  // Reference time the ranked scores were computed against, so later pages
+  // are ordered consistently with the first one
+  anchor?: string
+}
+
+function encodeCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+function decodeCursor(value: string): FeedCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+    if (typeof cursor?.id !== 'number') throw new Error('missing id')
+    return cursor
+  } catch {
+    throw new InvalidCursorError()
+  }
+}
+
+function toSqliteTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19)
+}
+
+export async function getPosts(
+  userId?: number,
+  options: { feed?: FeedMode; limit?: number; cursor?: string | null } = {}
+): Promise<FeedPage> {
+  const { feed = 'global', limit = 20 } = options
+  const cursor = options.cursor ? decodeCursor(options.cursor) : null
+
   try {
     const db = await getDatabase()
-    
-    // Optimized query with proper indexing
+    const viewerId = userId || null
+
+    if (feed === 'ranked') {
+      const anchor = cursor?.anchor || toSqliteTimestamp(new Date())
+      const r = FEED_RANKING
+
+      // Score = (1 + affinity + engagement) * recency decay * authenticity penalty
+      const posts = await db.all(`
+        SELECT * FROM (
+          SELECT 
+            p.id, p.user_id, p.media_url, p.media_type, p.caption,
+            p.deepfake_score, p.analysis_result, p.risk_level, p.ai_confirmed, p.moderation_status,
+            p.review_verdict, ${POST_APPEAL_STATUS},
+            p.likes_count, p.comments_count, p.created_at,
+            u.username, u.profile_pic,
+            CASE WHEN l.id IS NOT NULL THEN 1 ELSE 0 END as is_liked,
+            (
+              1.0
+              + CASE WHEN f.id IS NOT NULL THEN ? WHEN p.user_id = ? THEN ? ELSE 0 END
+              + ? * (p.likes_count + 2.0 * p.comments_count) / (p.likes_count + 2.0 * p.comments_count + ?)
+            )
+            / (1.0 + (julianday(?) - julianday(p.created_at)) * 24.0 / ?)
+            * CASE
+                WHEN p.ai_confirmed OR p.review_verdict = 'authentic' THEN 1.0
+                WHEN p.review_verdict = 'manipulated' OR p.deepfake_score >= 85 THEN ?
+                WHEN p.deepfake_score >= 70 THEN ?
+                WHEN p.deepfake_score > 50 THEN ?
+                ELSE 1.0
+              END as score
+          FROM posts p
+          INNER JOIN users u ON p.user_id = u.id
+          LEFT JOIN likes l ON p.id = l.post_id AND l.user_id = ?
+          LEFT JOIN follows f ON f.following_id = p.user_id AND f.follower_id = ?
+          WHERE p.created_at <= ?
+            AND (p.moderation_status IN ('published', 'approved') OR p.user_id = ?)
+        )
+        WHERE ? IS NULL OR score < ? OR (score = ? AND id < ?)
+        ORDER BY score DESC, id DESC
+        LIMIT ?
+      `, [
+        viewerId,
+        r.followedAuthorBoost, viewerId, r.ownPostBoost,
+        r.engagementWeight, r.engagementHalfPoint,
+        anchor, r.recencyHalfLifeHours,
+        r.highRiskPenalty, r.highScorePenalty, r.mediumScorePenalty,
+        viewerId, viewerId, anchor, viewerId,
+        cursor?.score ?? null, cursor?.score ?? null, cursor?.score ?? null, cursor?.id ?? null,
+        limit
+      ])
+
+      const last = posts[posts.length - 1]
+      return {
+        posts: posts.map(formatPostRow),
+        nextCursor: posts.length === limit ? encodeCursor({ id: last.id, score: last.score, anchor }) : null
+      }
+    }
+
+    if (feed === 'following' && !viewerId) {
+      return { posts: [], nextCursor: null }
+    }
+
+    // Global and following feeds are chronological with (created_at, id) keyset paging
     const posts = await db.all(`
       SELECT 
         p.id, p.user_id, p.media_url, p.media_type, p.caption,
-        p.deepfake_score, p.analysis_result, p.risk_level, p.ai_confirmed,
+        p.deepfake_score, p.analysis_result, p.risk_level, p.ai_confirmed, p.moderation_status,
+        p.review_verdict, ${POST_APPEAL_STATUS},
         p.likes_count, p.comments_count, p.created_at,
         u.username, u.profile_pic,
         CASE WHEN l.id IS NOT NULL THEN 1 ELSE 0 END as is_liked
       FROM posts p
       INNER JOIN users u ON p.user_id = u.id
       LEFT JOIN likes l ON p.id = l.post_id AND l.user_id = ?
-      ORDER BY p.created_at DESC
-      LIMIT ? OFFSET ?
-    `, [userId || null, limit, offset])
-    
-    return posts.map(post => ({
-      ...post,
-      is_liked: Boolean(post.is_liked),
-      analysis_result: post.analysis_result ? JSON.parse(post.analysis_result) : null
-    }))
+      WHERE (? = 0 OR p.user_id = ? OR p.user_id IN (SELECT following_id FROM follows WHERE follower_id = ?))
+        AND (? IS NULL OR p.created_at < ? OR (p.created_at = ? AND p.id < ?))
+        AND (p.moderation_status IN ('published', 'approved') OR p.user_id = ?)
+      ORDER BY p.created_at DESC, p.id DESC
+      LIMIT ?
+    `, [
+      viewerId, viewerId,
+      feed === 'following' ? 1 : 0, viewerId, viewerId,
+      cursor?.createdAt ?? null, cursor?.createdAt ?? null, cursor?.createdAt ?? null, cursor?.id ?? null,
+      viewerId,
+      limit
+    ])
+
+    const last = posts[posts.length - 1]
+    return {
+      posts: posts.map(formatPostRow),
+      nextCursor: posts.length === limit ? encodeCursor({ id: last.id, createdAt: last.created_at }) : null
+    }
   } catch (error) {
     console.error('Error getting posts:', error)
-    return []
+    return { posts: [], nextCursor: null }
+  }
+}
+
+function formatPostRow(post: any): PostWithUser {
+  const { score, ...rest } = post
+  return {
+    ...rest,
+    is_liked: Boolean(post.is_liked),
+    analysis_result: post.analysis_result ? JSON.parse(post.analysis_result) : null
+  }
+}
+
+// Whether the viewer may see a post at all: the feeds' rule, so held or
+// rejected posts only for their author
+export async function isPostVisible(postId: number, viewerId?: number): Promise<boolean> {
+  if (isNaN(postId)) return false
+
+  try {
+    const db = await getDatabase()
+    const post = await db.get(
+      `SELECT id FROM posts
+       WHERE id = ? AND (moderation_status IN ('published', 'approved') OR user_id = ?)`,
+      [postId, viewerId || null]
+    )
+    return Boolean(post)
+  } catch (error) {
+    console.error('Error checking post visibility:', error)
+    return false
   }
 }
 
@@ -151,69 +397,410 @@ export async function getStories(userId?: number): Promise<StoryWithUser[]> {
         s.*,
         u.username,
         u.profile_pic,
-        CASE WHEN sv.id IS NOT NULL THEN 1 ELSE 0 END as viewed
+        CASE WHEN sv.id IS NOT NULL THEN 1 ELSE 0 END as viewed,
+        ${STORY_APPEAL_STATUS}
       FROM stories s
       JOIN users u ON s.user_id = u.id
       LEFT JOIN story_views sv ON s.id = sv.story_id AND sv.user_id = ?
-      WHERE s.expires_at > datetime('now')
+      WHERE datetime(s.expires_at) > datetime('now')
+        AND (s.moderation_status IN ('published', 'approved') OR s.user_id = ?)
       ORDER BY s.created_at DESC
-    `, [userId])
+    `, [userId, userId, userId])
     
-    return stories.map(story => ({
-      ...story,
-      viewed: Boolean(story.viewed),
-      analysis_result: story.analysis_result ? JSON.parse(story.analysis_result) : null
-    }))
+    return stories.map(formatStoryRow)
   } catch (error) {
     console.error('Error getting stories:', error)
     return []
   }
 }
 
-export async function likePost(postId: number, userId: number): Promise<boolean> {
+// Returns an unexpired story the viewer may see (held or rejected stories
+// only for their author), or null once it has expired or been swept
+export async function getStory(storyId: number, userId?: number): Promise<StoryWithUser | null> {
   try {
     const db = await getDatabase()
+
+    const story = await db.get(`
+      SELECT 
+        s.*,
+        u.username,
+        u.profile_pic,
+        CASE WHEN sv.id IS NOT NULL THEN 1 ELSE 0 END as viewed,
+        ${STORY_APPEAL_STATUS}
+      FROM stories s
+      JOIN users u ON s.user_id = u.id
+      LEFT JOIN story_views sv ON s.id = sv.story_id AND sv.user_id = ?
+      WHERE s.id = ? AND datetime(s.expires_at) > datetime('now')
+        AND (s.moderation_status IN ('published', 'approved') OR s.user_id = ?)
+    `, [userId, userId, storyId, userId])
+
+    return story ? formatStoryRow(story) : null
+  } catch (error) {
+    console.error('Error getting story:', error)
+    return null
+  }
+}
+
+function formatStoryRow(story: any): StoryWithUser {
+  return {
+    ...story,
+    viewed: Boolean(story.viewed),
+    ai_confirmed: Boolean(story.ai_confirmed),
+    analysis_result: story.analysis_result ? JSON.parse(story.analysis_result) : null
+  }
+}
+
+// Flips the user's like inside one transaction, so concurrent toggles can't
+// double-count. Returns the new state, or null if the post doesn't exist.
+export async function likePost(postId: number, userId: number): Promise<LikeResult | null> {
+  try {
+    const result = await withTransaction(async (db) => {
+      const post = await db.get('SELECT id FROM posts WHERE id = ?', [postId])
+      if (!post) return null
+
+      const removed = await db.run('DELETE FROM likes WHERE post_id = ? AND user_id = ?', [postId, userId])
+      const liked = !removed.changes
+
+      if (liked) {
+        await db.run('INSERT INTO likes (post_id, user_id) VALUES (?, ?)', [postId, userId])
+        await db.run('UPDATE posts SET likes_count = likes_count + 1 WHERE id = ?', [postId])
+      } else {
+        await db.run('UPDATE posts SET likes_count = MAX(likes_count - 1, 0) WHERE id = ?', [postId])
+      }
+
+      const counts = await db.get('SELECT likes_count FROM posts WHERE id = ?', [postId])
+      return { liked, likes: counts.likes_count as number }
+    })
     
-    // Check if already liked
-    const existingLike = await db.get(
-      'SELECT id FROM likes WHERE post_id = ? AND user_id = ?',
-      [postId, userId]
-    )
+    if (result) {
+      await notifyPostOwner(postId, userId, post => ({
+        type: 'like',
+        postId: postId.toString(),
+        userId: userId.toString(),
+        username: post.actor_username,
+        liked: result.liked,
+        likes: result.likes
+      }))
+    }
+    
+    return result
+  } catch (error) {
+    console.error('Error toggling like:', error)
+    return null
+  }
+}
+
+// Recomputes likes_count and comments_count from the likes and comments
+// tables, fixing any drift. Returns how many posts were corrected.
+export async function reconcilePostCounters(): Promise<number> {
+  try {
+    return await withTransaction(async (db) => {
+      const result = await db.run(`
+        UPDATE posts SET
+          likes_count = (SELECT COUNT(*) FROM likes WHERE likes.post_id = posts.id),
+          comments_count = (SELECT COUNT(*) FROM comments WHERE comments.post_id = posts.id)
+        WHERE likes_count IS NOT (SELECT COUNT(*) FROM likes WHERE likes.post_id = posts.id)
+           OR comments_count IS NOT (SELECT COUNT(*) FROM comments WHERE comments.post_id = posts.id)
+      `)
+
+      return result.changes || 0
+    })
+  } catch (error) {
+    console.error('Error reconciling post counters:', error)
+    return 0
+  }
+}
+
+// parentId makes this a reply. Callers check the parent with getComment
+// first: replies must point at a top-level comment on the same post.
+export async function addComment(
+  postId: number,
+  userId: number,
+  content: string,
+  parentId?: number | null
+): Promise<number | null> {
+  try {
+    const commentId = await withTransaction(async (db) => {
+      const result = await db.run(
+        'INSERT INTO comments (post_id, user_id, content, parent_id) VALUES (?, ?, ?, ?)',
+        [postId, userId, content, parentId ?? null]
+      )
+      await db.run('UPDATE posts SET comments_count = comments_count + 1 WHERE id = ?', [postId])
+
+      return result.lastID || null
+    })
+    
+    if (commentId) {
+      await notifyPostOwner(postId, userId, post => ({
+        type: 'comment',
+        postId: postId.toString(),
+        commentId: commentId.toString(),
+        userId: userId.toString(),
+        username: post.actor_username,
+        comments: post.comments_count
+      }))
+    }
     
-    if (existingLike) {
-      // Unlike
-      await db.run('DELETE FROM likes WHERE post_id = ? AND user_id = ?', [postId, userId])
-      await db.run('UPDATE posts SET likes_count = likes_count - 1 WHERE id = ?', [postId])
-    } else {
-      // Like
-      await db.run('INSERT INTO likes (post_id, user_id) VALUES (?, ?)', [postId, userId])
-      await db.run('UPDATE posts SET likes_count = likes_count + 1 WHERE id = ?', [postId])
+    return commentId
+  } catch (error) {
+    console.error('Error adding comment:', error)
+    return null
+  }
+}
+
+// Top-level comments oldest first, each with all of its replies. Pass
+// nextCursor back as `after` for the next page.
+export async function getComments(
+  postId: number,
+  limit: number = 20,
+  after?: number | null
+): Promise<CommentPage> {
+  try {
+    const db = await getDatabase()
+
+    const rows = await db.all(`
+      SELECT ${COMMENT_COLUMNS}
+      FROM comments c
+      JOIN users u ON u.id = c.user_id
+      WHERE c.post_id = ? AND c.parent_id IS NULL AND (? IS NULL OR c.id > ?)
+      ORDER BY c.id ASC
+      LIMIT ?
+    `, [postId, after ?? null, after ?? null, limit + 1])
+
+    const hasMore = rows.length > limit
+    const comments: CommentWithUser[] = rows.slice(0, limit).map((row: any) => ({ ...row, replies: [] }))
+
+    if (comments.length > 0) {
+      const byId = new Map(comments.map(comment => [comment.id, comment]))
+      const placeholders = comments.map(() => '?').join(', ')
+
+      const replies = await db.all(`
+        SELECT ${COMMENT_COLUMNS}
+        FROM comments c
+        JOIN users u ON u.id = c.user_id
+        WHERE c.parent_id IN (${placeholders})
+        ORDER BY c.id ASC
+      `, comments.map(comment => comment.id))
+
+      for (const reply of replies) {
+        byId.get(reply.parent_id)?.replies!.push(reply)
+      }
+    }
+
+    return {
+      comments,
+      nextCursor: hasMore ? comments[comments.length - 1].id : null
     }
+  } catch (error) {
+    console.error('Error getting comments:', error)
+    return { comments: [], nextCursor: null }
+  }
+}
+
+export async function getComment(commentId: number): Promise<CommentWithPost | null> {
+  try {
+    const db = await getDatabase()
+
+    const comment = await db.get(`
+      SELECT ${COMMENT_COLUMNS}, p.user_id as post_owner_id
+      FROM comments c
+      JOIN users u ON u.id = c.user_id
+      JOIN posts p ON p.id = c.post_id
+      WHERE c.id = ?
+    `, [commentId])
+
+    return comment || null
+  } catch (error) {
+    console.error('Error getting comment:', error)
+    return null
+  }
+}
+
+export async function updateComment(commentId: number, content: string): Promise<boolean> {
+  try {
+    const db = await getDatabase()
+
+    const result = await db.run(
+      'UPDATE comments SET content = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [content, commentId]
+    )
+
+    return (result.changes || 0) > 0
+  } catch (error) {
+    console.error('Error updating comment:', error)
+    return false
+  }
+}
+
+// Deleting a top-level comment takes its replies with it. Returns how many
+// comments were removed, or null on failure.
+export async function deleteComment(commentId: number): Promise<number | null> {
+  try {
+    return await withTransaction(async (db) => {
+      const comment = await db.get('SELECT post_id FROM comments WHERE id = ?', [commentId])
+      if (!comment) return 0
+
+      const replies = await db.run('DELETE FROM comments WHERE parent_id = ?', [commentId])
+      await db.run('DELETE FROM comments WHERE id = ?', [commentId])
+
+      const removed = 1 + (replies.changes || 0)
+      await db.run(
+        'UPDATE posts SET comments_count = MAX(comments_count - ?, 0) WHERE id = ?',
+        [removed, comment.post_id]
+      )
+
+      return removed
+    })
+  } catch (error) {
+    console.error('Error deleting comment:', error)
+    return null
+  }
+}
+
+// Pushes an activity event to the post's author, unless they did it themselves
+async function notifyPostOwner(
+  postId: number,
+  actorId: number,
+  buildEvent: (post: { user_id: number; likes_count: number; comments_count: number; actor_username?: string }) => RealtimeEvent
+) {
+  const db = await getDatabase()
+  const post = await db.get(`
+    SELECT p.user_id, p.likes_count, p.comments_count, u.username as actor_username
+    FROM posts p
+    LEFT JOIN users u ON u.id = ?
+    WHERE p.id = ?
+  `, [actorId, postId])
+  
+  if (post && post.user_id !== actorId) {
+    publishToUser(post.user_id, buildEvent(post))
+  }
+}
+
+export async function followUser(followerId: number, followingId: number): Promise<boolean> {
+  try {
+    const db = await getDatabase()
+    
+    await db.run(
+      'INSERT OR IGNORE INTO follows (follower_id, following_id) VALUES (?, ?)',
+      [followerId, followingId]
+    )
     
     return true
   } catch (error) {
-    console.error('Error toggling like:', error)
+    console.error('Error following user:', error)
     return false
   }
 }
 
-export async function addComment(postId: number, userId: number, content: string): Promise<number | null> {
+export async function unfollowUser(followerId: number, followingId: number): Promise<boolean> {
   try {
     const db = await getDatabase()
     
-    const result = await db.run(
-      'INSERT INTO comments (post_id, user_id, content) VALUES (?, ?, ?)',
-      [postId, userId, content]
+    await db.run(
+      'DELETE FROM follows WHERE follower_id = ? AND following_id = ?',
+      [followerId, followingId]
     )
     
-    if (result.lastID) {
-      await db.run('UPDATE posts SET comments_count = comments_count + 1 WHERE id = ?', [postId])
+    return true
+  } catch (error) {
+    console.error('Error unfollowing user:', error)
+    return false
+  }
+}
+
+async function getFollowList(
+  direction: 'followers' | 'following',
+  userId: number,
+  viewerId?: number,
+  limit: number = 20,
+  offset: number = 0
+): Promise<FollowListUser[]> {
+  try {
+    const db = await getDatabase()
+    
+    // Followers are the rows pointing at userId; following are the rows from it
+    const [listedColumn, anchorColumn] = direction === 'followers'
+      ? ['follower_id', 'following_id']
+      : ['following_id', 'follower_id']
+    
+    const users = await db.all(`
+      SELECT 
+        u.id, u.username, u.profile_pic, u.bio,
+        f.created_at as followed_at,
+        CASE WHEN vf.id IS NOT NULL THEN 1 ELSE 0 END as is_following,
+        CASE WHEN fv.id IS NOT NULL THEN 1 ELSE 0 END as follows_viewer
+      FROM follows f
+      INNER JOIN users u ON u.id = f.${listedColumn}
+      LEFT JOIN follows vf ON vf.follower_id = ? AND vf.following_id = u.id
+      LEFT JOIN follows fv ON fv.follower_id = u.id AND fv.following_id = ?
+      WHERE f.${anchorColumn} = ?
+      ORDER BY f.created_at DESC, f.id DESC
+      LIMIT ? OFFSET ?
+    `, [viewerId || null, viewerId || null, userId, limit, offset])
+    
+    return users.map(user => ({
+      ...user,
+      is_following: Boolean(user.is_following),
+      follows_viewer: Boolean(user.follows_viewer),
+      is_mutual: Boolean(user.is_following && user.follows_viewer)
+    }))
+  } catch (error) {
+    console.error(`Error getting ${direction}:`, error)
+    return []
+  }
+}
+
+export async function getFollowers(userId: number, viewerId?: number, limit: number = 20, offset: number = 0): Promise<FollowListUser[]> {
+  return getFollowList('followers', userId, viewerId, limit, offset)
+}
+
+export async function getFollowing(userId: number, viewerId?: number, limit: number = 20, offset: number = 0): Promise<FollowListUser[]> {
+  return getFollowList('following', userId, viewerId, limit, offset)
+}
+
+export async function getFollowRelationship(viewerId: number, userId: number): Promise<FollowRelationship> {
+  try {
+    const db = await getDatabase()
+    
+    const row = await db.get(`
+      SELECT
+        EXISTS(SELECT 1 FROM follows WHERE follower_id = ? AND following_id = ?) as is_following,
+        EXISTS(SELECT 1 FROM follows WHERE follower_id = ? AND following_id = ?) as is_followed_by
+    `, [viewerId, userId, userId, viewerId])
+    
+    const isFollowing = Boolean(row?.is_following)
+    const isFollowedBy = Boolean(row?.is_followed_by)
+    
+    return {
+      is_following: isFollowing,
+      is_followed_by: isFollowedBy,
+      is_mutual: isFollowing && isFollowedBy
     }
+  } catch (error) {
+    console.error('Error getting follow relationship:', error)
+    return { is_following: false, is_followed_by: false, is_mutual: false }
+  }
+}
+
+export async function getUserStats(userId: number): Promise<UserStats> {
+  try {
+    const db = await getDatabase()
     
-    return result.lastID || null
+    const row = await db.get(`
+      SELECT
+        (SELECT COUNT(*) FROM posts WHERE user_id = ?) as posts,
+        (SELECT COUNT(*) FROM follows WHERE following_id = ?) as followers,
+        (SELECT COUNT(*) FROM follows WHERE follower_id = ?) as following
+    `, [userId, userId, userId])
+    
+    return {
+      posts: row?.posts || 0,
+      followers: row?.followers || 0,
+      following: row?.following || 0
+    }
   } catch (error) {
-    console.error('Error adding comment:', error)
-    return null
+    console.error('Error getting user stats:', error)
+    return { posts: 0, followers: 0, following: 0 }
   }
 }
 
@@ -233,6 +820,126 @@ export async function viewStory(storyId: number, userId: number): Promise<boolea
   }
 }
 
+export async function getStoryViewers(storyId: number): Promise<StoryViewer[]> {
+  try {
+    const db = await getDatabase()
+
+    return await db.all(`
+      SELECT u.id, u.username, u.profile_pic, sv.viewed_at
+      FROM story_views sv
+      JOIN users u ON u.id = sv.user_id
+      WHERE sv.story_id = ?
+      ORDER BY sv.viewed_at DESC, sv.id DESC
+    `, [storyId])
+  } catch (error) {
+    console.error('Error getting story viewers:', error)
+    return []
+  }
+}
+
+// Deletes expired stories with their views, reports and appeals. Moderation
+// decisions stay as the audit log, and known-fake hashes keep catching
+// re-uploads. Returns the removed media URLs so the caller can clean up the
+// files once the rows are gone.
+export async function deleteExpiredStories(): Promise<string[]> {
+  try {
+    return await withTransaction(async (db) => {
+      const expired = await db.all(
+        "SELECT id, media_url FROM stories WHERE datetime(expires_at) <= datetime('now')"
+      )
+      if (expired.length === 0) return []
+
+      const ids = expired.map((story: any) => story.id)
+      const placeholders = ids.map(() => '?').join(', ')
+
+      await db.run(`DELETE FROM story_views WHERE story_id IN (${placeholders})`, ids)
+      await db.run(`DELETE FROM reports WHERE target_type = 'story' AND target_id IN (${placeholders})`, ids)
+      await db.run(`DELETE FROM appeals WHERE content_type = 'story' AND content_id IN (${placeholders})`, ids)
+      await db.run(`DELETE FROM stories WHERE id IN (${placeholders})`, ids)
+
+      return expired.map((story: any) => story.media_url)
+    })
+  } catch (error) {
+    console.error('Error deleting expired stories:', error)
+    return []
+  }
+}
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+function parseSqliteTimestamp(timestamp: string): Date {
+  return new Date(timestamp.includes('T') ? timestamp : `${timestamp.replace(' ', 'T')}Z`)
+}
+
+// Short story-ring age label: "now", "15m", "3h"
+function formatStoryAge(createdAt: string): string {
+  const minutes = Math.floor((Date.now() - parseSqliteTimestamp(createdAt).getTime()) / 60000)
+  if (minutes < 1) return 'now'
+  if (minutes < 60) return `${minutes}m`
+  return `${Math.floor(minutes / 60)}h`
+}
+
+export function serializeStory(story: StoryWithUser, viewerId?: number) {
+  return {
+    id: story.id.toString(),
+    user: {
+      id: story.user_id.toString(),
+      username: story.username,
+      profilePic: story.profile_pic || '/placeholder.svg'
+    },
+    mediaUrl: story.media_url,
+    mediaType: story.media_type,
+    timestamp: formatStoryAge(story.created_at),
+    createdAt: parseSqliteTimestamp(story.created_at).toISOString(),
+    expiresAt: parseSqliteTimestamp(story.expires_at).toISOString(),
+    viewed: story.viewed,
+    isOwn: viewerId === story.user_id,
+    deepfakeScore: story.deepfake_score,
+    riskLevel: story.risk_level,
+    aiConfirmed: story.ai_confirmed,
+    moderationStatus: story.moderation_status,
+    verdict: story.review_verdict,
+    appealStatus: story.appeal_status
+  }
+}
+
+// Declared so the recursive replies field has a type
+interface SerializedComment {
+  id: string
+  postId: string
+  parentId: string | null
+  user: { id: string; username: string; profilePic: string }
+  content: string
+  createdAt: string
+  editedAt: string | null
+  replies?: SerializedComment[]
+}
+
+export function serializeComment(comment: CommentWithUser): SerializedComment {
+  return {
+    id: comment.id.toString(),
+    postId: comment.post_id.toString(),
+    parentId: comment.parent_id?.toString() || null,
+    user: {
+      id: comment.user_id.toString(),
+      username: comment.username,
+      profilePic: comment.profile_pic || '/placeholder.svg'
+    },
+    content: comment.content,
+    createdAt: parseSqliteTimestamp(comment.created_at).toISOString(),
+    editedAt: comment.updated_at ? parseSqliteTimestamp(comment.updated_at).toISOString() : null,
+    ...(comment.replies && { replies: comment.replies.map(serializeComment) })
+  }
+}
+
+export function serializeStoryViewer(viewer: StoryViewer) {
+  return {
+    id: viewer.id.toString(),
+    username: viewer.username,
+    profilePic: viewer.profile_pic || '/placeholder.svg',
+    viewedAt: parseSqliteTimestamp(viewer.viewed_at).toISOString()
+  }
+}
+
 export async function logAIAnalysis(
   contentId: number,
   contentType: 'post' | 'story',
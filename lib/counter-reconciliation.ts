@@ -0,0 +1,12 @@
+import { reconcilePostCounters } from './content'
+
+export const COUNTER_RECONCILE_INTERVAL_MS = 60 * 60 * 1000
+
+export async function reconcileCounters(): Promise<number> {
+  const corrected = await reconcilePostCounters()
+
+  if (corrected > 0) {
+    console.log(`Reconciled like/comment counters on ${corrected} posts`)
+  }
+  return corrected
+}
@@ -1,154 +1,115 @@
 import sqlite3 from 'sqlite3'
 import { open, Database } from 'sqlite'
 import path from 'path'
+import { AsyncLocalStorage } from 'async_hooks'
 
-let db: Database<sqlite3.Database, sqlite3.Statement> | null = null
+import { migrateUp } from './migrate'
+
+export type SqliteDatabase = Database<sqlite3.Database, sqlite3.Statement>
+
+export const DATABASE_PATH = process.env.DATABASE_PATH || path.join(process.cwd(), 'socialguard.db')
+
+let db: SqliteDatabase | null = null
+let initializing: Promise<SqliteDatabase> | null = null
+
+export async function openDatabase(filename: string = DATABASE_PATH): Promise<SqliteDatabase> {
+  const connection = await open({
+    filename,
+    driver: sqlite3.Database
+  })
+  // SQLite ignores REFERENCES clauses, cascades included, unless asked per
+  // connection
+  await connection.exec('PRAGMA foreign_keys = ON')
+  return connection
+}
 
 export async function getDatabase() {
-  if (!db) {
-    const dbPath = path.join(process.cwd(), 'socialguard.db')
-    
-    db = await open({
-      filename: dbPath,
-      driver: sqlite3.Database
+  if (db) return db
+
+  // Share one in-flight initialization so concurrent requests on a cold
+  // start don't race each other through the migrations.
+  if (!initializing) {
+    initializing = (async () => {
+      const connection = await openDatabase()
+      await prepareSchema(connection)
+      db = queued(connection)
+      return db
+    })()
+    initializing.catch(() => {
+      initializing = null
+    })
+  }
+
+  return initializing
+}
+
+// All requests share one connection, so every statement goes through one
+// queue. A transaction holds the queue from BEGIN to COMMIT; statements from
+// other requests wait behind it instead of landing inside it. Statements the
+// transaction's own work issues, whichever module they come from, are told
+// apart with AsyncLocalStorage and run straight away as part of it.
+const transactionScope = new AsyncLocalStorage<{ open: boolean }>()
+let statementQueue: Promise<unknown> = Promise.resolve()
+
+const QUEUED_METHODS = new Set(['run', 'get', 'all', 'each', 'exec', 'prepare'])
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = statementQueue.then(task)
+  statementQueue = run.catch(() => undefined)
+  return run
+}
+
+function inTransaction(): boolean {
+  return transactionScope.getStore()?.open === true
+}
+
+function queued(connection: SqliteDatabase): SqliteDatabase {
+  return new Proxy(connection, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver)
+      if (typeof value !== 'function' || !QUEUED_METHODS.has(property as string)) return value
+
+      return (...args: unknown[]) => inTransaction()
+        ? value.apply(target, args)
+        : enqueue(() => value.apply(target, args))
+    }
+  })
+}
+
+export async function withTransaction<T>(work: (db: SqliteDatabase) => Promise<T>): Promise<T> {
+  const connection = await getDatabase()
+
+  // Called from inside another transaction: becomes part of it
+  if (inTransaction()) return work(connection)
+
+  return enqueue(() => {
+    const scope = { open: true }
+    return transactionScope.run(scope, async () => {
+      try {
+        await connection.exec('BEGIN IMMEDIATE')
+        try {
+          const result = await work(connection)
+          await connection.exec('COMMIT')
+          return result
+        } catch (error) {
+          await connection.exec('ROLLBACK')
+          throw error
+        }
+      } finally {
+        // Anything the work left running now queues like everyone else
+        scope.open = false
+      }
     })
+  })
+}
 
-    // Initialize tables
-    await initializeTables()
+async function prepareSchema(connection: SqliteDatabase) {
+  // Applies pending migrations, or throws SchemaVersionError if the file was
+  // migrated by a newer build than this one.
+  const applied = await migrateUp(connection)
+  if (applied.length > 0) {
+    console.log(`Database migrated to schema version ${applied[applied.length - 1].version}`)
   }
-  
-  return db
-}
-
-async function initializeTables() {
-  if (!db) return
-
-  // Users table
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS users (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      username TEXT UNIQUE NOT NULL,
-      email TEXT UNIQUE NOT NULL,
-      password_hash TEXT NOT NULL,
-      profile_pic TEXT,
-      bio TEXT,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    )
-  `)
-
-  // Posts table
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS posts (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      user_id INTEGER NOT NULL,
-      media_url TEXT NOT NULL,
-      media_type TEXT NOT NULL,
-      caption TEXT,
-      deepfake_score INTEGER DEFAULT 0,
-      analysis_result TEXT,
-      risk_level TEXT DEFAULT 'low',
-      ai_confirmed BOOLEAN DEFAULT FALSE,
-      likes_count INTEGER DEFAULT 0,
-      comments_count INTEGER DEFAULT 0,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (user_id) REFERENCES users (id)
-    )
-  `)
-
-  // Stories table
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS stories (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      user_id INTEGER NOT NULL,
-      media_url TEXT NOT NULL,
-      media_type TEXT NOT NULL,
-      deepfake_score INTEGER DEFAULT 0,
-      analysis_result TEXT,
-      risk_level TEXT DEFAULT 'low',
-      ai_confirmed BOOLEAN DEFAULT FALSE,
-      expires_at DATETIME NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (user_id) REFERENCES users (id)
-    )
-  `)
-
-  // Comments table
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS comments (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      post_id INTEGER NOT NULL,
-      user_id INTEGER NOT NULL,
-      content TEXT NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (post_id) REFERENCES posts (id),
-      FOREIGN KEY (user_id) REFERENCES users (id)
-    )
-  `)
-
-  // Likes table
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS likes (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      post_id INTEGER NOT NULL,
-      user_id INTEGER NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      UNIQUE(post_id, user_id),
-      FOREIGN KEY (post_id) REFERENCES posts (id),
-      FOREIGN KEY (user_id) REFERENCES users (id)
-    )
-  `)
-
-  // Story views table
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS story_views (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      story_id INTEGER NOT NULL,
-      user_id INTEGER NOT NULL,
-      viewed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      UNIQUE(story_id, user_id),
-      FOREIGN KEY (story_id) REFERENCES stories (id),
-      FOREIGN KEY (user_id) REFERENCES users (id)
-    )
-  `)
-
-  // AI analysis logs table
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS ai_analysis_logs (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      content_id INTEGER NOT NULL,
-      content_type TEXT NOT NULL,
-      analysis_result TEXT NOT NULL,
-      user_confirmed BOOLEAN DEFAULT FALSE,
-      user_id INTEGER NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (user_id) REFERENCES users (id)
-    )
-  `)
-
-  // Sessions table
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS sessions (
-      id TEXT PRIMARY KEY,
-      user_id INTEGER NOT NULL,
-      expires_at DATETIME NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (user_id) REFERENCES users (id)
-    )
-  `)
-
-  // Create performance indexes
-  await db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_posts_created_at ON posts(created_at DESC);
-    CREATE INDEX IF NOT EXISTS idx_posts_user_id ON posts(user_id);
-    CREATE INDEX IF NOT EXISTS idx_likes_post_user ON likes(post_id, user_id);
-    CREATE INDEX IF NOT EXISTS idx_comments_post_id ON comments(post_id);
-    CREATE INDEX IF NOT EXISTS idx_stories_expires_at ON stories(expires_at);
-    CREATE INDEX IF NOT EXISTS idx_stories_user_id ON stories(user_id);
-  `)
-
-  console.log('Database tables and indexes initialized successfully')
 }
 
 export interface User {
@@ -158,6 +119,7 @@ export interface User {
   password_hash: string
   profile_pic?: string
   bio?: string
+  is_verified: boolean
   created_at: string
   updated_at: string
 }
@@ -195,8 +157,10 @@ export interface Comment {
   id: number
   post_id: number
   user_id: number
+  parent_id?: number
   content: string
   created_at: string
+  updated_at?: string
 }
 
 export interface Like {
@@ -215,3 +179,46 @@ export interface AIAnalysisLog {
   user_id: number
   created_at: string
 }
+
+export interface Follow {
+  id: number
+  follower_id: number
+  following_id: number
+  created_at: string
+}
+
+export interface Conversation {
+  id: number
+  user_a_id: number
+  user_b_id: number
+  last_message_id?: number
+  created_at: string
+  updated_at: string
+}
+
+export interface Message {
+  id: number
+  conversation_id: number
+  sender_id: number
+  receiver_id: number
+  content?: string
+  media_url?: string
+  media_type?: 'image' | 'video'
+  deepfake_score: number
+  risk_level: 'low' | 'medium' | 'high'
+  analysis_result?: string
+  analysis_status?: 'completed' | 'unsupported' | 'failed'
+  is_read: boolean
+  created_at: string
+}
+
+export interface DeepfakeAnalysis {
+  id: number
+  post_id?: number
+  story_id?: number
+  confidence_score: number
+  model_version?: string
+  analysis_details?: string
+  processing_time_ms?: number
+  created_at: string
+}
@@ -0,0 +1,311 @@
+import type { DetectorResult, EnsembleMethod } from './detectors'
+import type { MediaAnalysisResult } from './media-analysis'
+
+// FastAPI backend configuration
+export const FASTAPI_BASE_URL = process.env.FASTAPI_BASE_URL || "http://localhost:8000"
+
+export interface FastAPIDetectionResponse {
+  prediction: string  // "Real" or "Deepfake"
+  confidence: number
+  image_importance: number
+  audio_importance: number
+  text_importance: number
+  transcript: string
+  // Only from /detect-image, each 0-1
+  image_metrics?: {
+    error_level: number
+    noise_inconsistency: number
+  }
+}
+
+export interface KnownFakeMatch {
+  contentType: 'post' | 'story'
+  contentId: string
+  // Keyframes within the match distance, and the closest one's distance in bits
+  matchedFrames: number
+  distance: number
+}
+
+export interface AnalysisResult {
+  confidence: number
+  isDeepfake: boolean
+  details: {
+    faceConsistency: number
+    temporalConsistency: number
+    artifactDetection: number
+    lightingAnalysis: number
+    compressionArtifacts: number
+    motionAnalysis?: number
+    audioVisualSync?: number
+    metadataAnalysis: number
+    pixelPatterns: number
+  }
+  processingTime: string
+  modelVersion: string
+  riskLevel: 'low' | 'medium' | 'high'
+  recommendation: string
+  filename: string
+  filesize: string
+  filetype: 'image' | 'video'
+  // Served from the analysis cache instead of a fresh backend run
+  cached?: boolean
+  // Near-duplicate of media a moderator confirmed as manipulated; the models
+  // weren't run
+  knownFakeMatch?: KnownFakeMatch
+  // Score (0-100) from each third-party detector in the ensemble, by provider name
+  externalAPIs?: {
+    deepware?: number
+    sensity?: number
+    microsoft?: number
+    [provider: string]: number | undefined
+  }
+}
+
+// Convert FastAPI response to frontend format
+export function convertFastAPIResponse(fastAPIResult: FastAPIDetectionResponse, filename: string, filesize: string, filetype: 'image' | 'video', processingTime: string, backendModelVersion?: string | null): AnalysisResult {
+  const isDeepfake = fastAPIResult.prediction === "Deepfake"
+  const confidence = Math.round(fastAPIResult.confidence * 100)
+  
+  // Calculate risk level based on confidence
+  const riskLevel: 'low' | 'medium' | 'high' = 
+    confidence > 75 ? 'high' : 
+    confidence > 50 ? 'medium' : 'low'
+
+  // Generate recommendation based on prediction
+  let recommendation = ''
+  if (isDeepfake) {
+    if (riskLevel === 'high') {
+      recommendation = 'High probability of deepfake detected. Manual review strongly recommended before publishing.'
+    } else if (riskLevel === 'medium') {
+      recommendation = 'Potential signs of deepfake manipulation found. Consider additional verification.'
+    } else {
+      recommendation = 'Some suspicious patterns detected but confidence is low. Proceed with caution.'
+    }
+  } else {
+    recommendation = 'Content appears authentic based on our AI analysis. Safe to proceed.'
+  }
+
+  // Calculate dynamic metrics based on prediction and confidence
+  const calculateDynamicMetrics = (prediction: string, confidence: number, image_importance: number, audio_importance: number, text_importance: number) => {
+    const isReal = prediction === "Real"
+    const confidencePercent = Math.round(confidence * 100)
+    
+    // Base metrics calculation
+    let faceConsistency, temporalConsistency, artifactDetection, lightingAnalysis, compressionArtifacts, motionAnalysis, audioVisualSync
+    
+    if (isReal) {
+      // For REAL content: High confidence = better consistency scores
+      faceConsistency = Math.max(70, Math.min(95, 70 + (confidencePercent - 50) * 0.5))
+      temporalConsistency = Math.max(75, Math.min(98, 75 + (confidencePercent - 50) * 0.4))
+      artifactDetection = Math.max(5, Math.min(30, 30 - (confidencePercent - 50) * 0.4)) // Lower is better for real content
+      lightingAnalysis = Math.max(80, Math.min(95, 80 + (confidencePercent - 50) * 0.3))
+      compressionArtifacts = Math.max(10, Math.min(25, 25 - (confidencePercent - 50) * 0.3))
+      motionAnalysis = Math.max(80, Math.min(96, 80 + (confidencePercent - 50) * 0.3))
+      audioVisualSync = Math.max(85, Math.min(98, 85 + (confidencePercent - 50) * 0.25))
+    } else {
+      // For DEEPFAKE content: High confidence = worse consistency scores
+      faceConsistency = Math.max(15, Math.min(45, 45 - (confidencePercent - 50) * 0.5))
+      temporalConsistency = Math.max(20, Math.min(50, 50 - (confidencePercent - 50) * 0.4))
+      artifactDetection = Math.max(70, Math.min(95, 70 + (confidencePercent - 50) * 0.4)) // Higher is worse for deepfake
+      lightingAnalysis = Math.max(25, Math.min(60, 60 - (confidencePercent - 50) * 0.3))
+      compressionArtifacts = Math.max(60, Math.min(90, 60 + (confidencePercent - 50) * 0.4))
+      motionAnalysis = Math.max(20, Math.min(55, 55 - (confidencePercent - 50) * 0.3))
+      audioVisualSync = Math.max(30, Math.min(70, 70 - (confidencePercent - 50) * 0.25))
+    }
+    
+    // Adjust based on component importance
+    const imageInfluence = image_importance * 20 // Scale influence
+    const audioInfluence = audio_importance * 15
+    
+    if (!isReal) {
+      // For deepfakes, higher image importance means worse face/temporal consistency
+      faceConsistency = Math.max(10, faceConsistency - imageInfluence)
+      temporalConsistency = Math.max(15, temporalConsistency - imageInfluence)
+      audioVisualSync = Math.max(20, audioVisualSync - audioInfluence)
+    } else {
+      // For real content, higher importance scores mean better consistency
+      faceConsistency = Math.min(98, faceConsistency + imageInfluence * 0.3)
+      temporalConsistency = Math.min(98, temporalConsistency + imageInfluence * 0.3)
+      audioVisualSync = Math.min(98, audioVisualSync + audioInfluence * 0.3)
+    }
+    
+    return {
+      faceConsistency: Math.round(faceConsistency),
+      temporalConsistency: Math.round(temporalConsistency),
+      artifactDetection: Math.round(artifactDetection),
+      lightingAnalysis: Math.round(lightingAnalysis),
+      compressionArtifacts: Math.round(compressionArtifacts),
+      motionAnalysis: Math.round(motionAnalysis),
+      audioVisualSync: Math.round(audioVisualSync),
+      metadataAnalysis: Math.round((audio_importance + text_importance) * 50 + (isReal ? 20 : -10)),
+      pixelPatterns: Math.round(isReal ? 85 - image_importance * 30 : 60 + image_importance * 35)
+    }
+  }
+
+  // Map importance scores to detail metrics using dynamic calculation
+  const details = {
+    ...calculateDynamicMetrics(
+      fastAPIResult.prediction,
+      fastAPIResult.confidence,
+      fastAPIResult.image_importance,
+      fastAPIResult.audio_importance,
+      fastAPIResult.text_importance
+    ),
+    // Remove video-specific metrics for non-video files
+    ...(filetype !== 'video' && {
+      temporalConsistency: 0,
+      motionAnalysis: 0,
+      audioVisualSync: 0
+    }),
+    // Images come with forensics of their own: error level analysis for
+    // compression, noise consistency for pixel patterns
+    ...(filetype === 'image' && fastAPIResult.image_metrics && {
+      artifactDetection: Math.round((fastAPIResult.image_metrics.error_level + fastAPIResult.image_metrics.noise_inconsistency) * 50),
+      compressionArtifacts: Math.round(fastAPIResult.image_metrics.error_level * 100),
+      pixelPatterns: Math.round(fastAPIResult.image_metrics.noise_inconsistency * 100)
+    })
+  }
+
+  return {
+    confidence,
+    isDeepfake,
+    details,
+    processingTime,
+    modelVersion: backendModelVersion ? `v4.0.0 (FastAPI Backend, model ${backendModelVersion})` : "v4.0.0 (FastAPI Backend)",
+    riskLevel,
+    recommendation,
+    filename,
+    filesize,
+    filetype,
+    // Add transcript information if available
+    ...(fastAPIResult.transcript && fastAPIResult.transcript !== "No transcription available" && {
+      transcript: fastAPIResult.transcript
+    })
+  }
+}
+
+// What the backend's /detect and /detect-image accept, which goes by file
+// extension (SUPPORTED_VIDEO_EXTENSIONS and SUPPORTED_IMAGE_EXTENSIONS in
+// backend/app.py). Clients check uploads against these lists too, so keep
+// them in sync.
+export const SUPPORTED_VIDEO_TYPES = [
+  'video/mp4', 'video/quicktime', 'video/avi', 'video/x-msvideo'
+]
+
+export const SUPPORTED_IMAGE_TYPES = [
+  'image/jpeg', 'image/png', 'image/webp', 'image/bmp'
+]
+
+export const MAX_ANALYSIS_FILE_SIZE = 100 * 1024 * 1024 // 100MB
+
+export class DeepfakeBackendError extends Error {
+  constructor(
+    public status: number,
+    public statusText: string,
+    public details: string
+  ) {
+    super(`Backend analysis failed: ${statusText}`)
+    this.name = 'DeepfakeBackendError'
+  }
+}
+
+// backend holds the combined verdict in FastAPI's shape; each detector's own
+// answer is in detectors
+export interface DetectionOutcome {
+  analysis: AnalysisResult
+  backend: FastAPIDetectionResponse
+  // The backend's model_version when the verdict was produced
+  modelVersion?: string | null
+  detectors?: DetectorResult[]
+  ensemble?: { method: EnsembleMethod, score: number }
+}
+
+// Which classifier the backend has loaded, from /model-info. Null if the
+// backend is unreachable or too old to report one.
+export async function fetchModelVersion(): Promise<string | null> {
+  try {
+    const response = await fetch(`${FASTAPI_BASE_URL}/model-info`)
+    if (!response.ok) return null
+
+    const info = await response.json()
+    return typeof info.model_version === 'string' && info.model_version ? info.model_version : null
+  } catch (error) {
+    console.error('Error fetching backend model info:', error)
+    return null
+  }
+}
+
+// Perceptual hashes are 64 bits as 16 hex digits. Unlike a file hash they
+// survive re-encoding and resizing.
+export interface MediaFingerprint {
+  // Difference hash of the whole clip
+  perceptualHash: string
+  // DCT pHash of each sampled keyframe (one for an image)
+  frameHashes: string[]
+}
+
+// Asks the backend's /fingerprint endpoint to hash an upload
+export async function fetchFingerprint(file: File): Promise<MediaFingerprint> {
+  const formData = new FormData()
+  formData.append('file', file)
+
+  const response = await fetch(`${FASTAPI_BASE_URL}/fingerprint`, {
+    method: 'POST',
+    body: formData,
+  })
+
+  if (!response.ok) {
+    throw new DeepfakeBackendError(response.status, response.statusText, await response.text())
+  }
+
+  const { perceptual_hash, frame_hashes } = await response.json()
+  return { perceptualHash: perceptual_hash, frameHashes: frame_hashes || [] }
+}
+
+// Percentage likelihood that the media is manipulated. The backend reports its
+// confidence in whichever label it predicted, so "Real" at 0.9 means 10%.
+export function deepfakeScoreFromBackend(backend: Pick<FastAPIDetectionResponse, 'prediction' | 'confidence'>): number {
+  return backend.prediction === 'Real'
+    ? Math.round((1 - backend.confidence) * 100)
+    : Math.round(backend.confidence * 100)
+}
+
+export function riskLevelFromScore(deepfakeScore: number): 'low' | 'medium' | 'high' {
+  return deepfakeScore > 75 ? 'high' : deepfakeScore > 50 ? 'medium' : 'low'
+}
+
+// Same shape MediaAnalysisService.analyzeMedia builds on the client, for
+// analyses that run server-side
+export function toMediaAnalysisResult(
+  outcome: DetectionOutcome,
+  file: Pick<File, 'name' | 'size' | 'type'>,
+  processingTimeMs: number
+): MediaAnalysisResult {
+  const { analysis, backend } = outcome
+
+  return {
+    confidence: analysis.confidence,
+    isDeepfake: analysis.isDeepfake,
+    riskLevel: analysis.riskLevel,
+    score: analysis.confidence,
+    details: {
+      faceConsistency: analysis.details.faceConsistency,
+      temporalConsistency: analysis.details.temporalConsistency,
+      artifactDetection: analysis.details.artifactDetection,
+      lightingAnalysis: analysis.details.lightingAnalysis,
+      metadataAnalysis: analysis.details.metadataAnalysis,
+      compressionArtifacts: analysis.details.compressionArtifacts,
+    },
+    recommendations: analysis.recommendation ? [analysis.recommendation] : [],
+    processingTime: processingTimeMs,
+    fileInfo: {
+      name: file.name,
+      size: file.size,
+      type: file.type,
+    },
+    ...(backend.transcript && backend.transcript !== 'No transcription available' && {
+      transcript: backend.transcript
+    }),
+    backendInfo: backend
+  }
+}
@@ -0,0 +1,276 @@
+import {
+  DeepfakeBackendError,
+  FASTAPI_BASE_URL,
+  SUPPORTED_IMAGE_TYPES,
+  SUPPORTED_VIDEO_TYPES,
+  convertFastAPIResponse,
+  type DetectionOutcome,
+  type FastAPIDetectionResponse
+} from './deepfake-detection'
+
+// How detector scores are combined. weighted: weighted average. max: the most
+// suspicious detector wins. vote: the weighted share of detectors calling it
+// a deepfake.
+export type EnsembleMethod = 'weighted' | 'max' | 'vote'
+
+const ENSEMBLE_METHODS: EnsembleMethod[] = ['weighted', 'max', 'vote']
+
+// Long videos take minutes on the FastAPI backend
+const DEFAULT_DETECTOR_TIMEOUT_MS = 10 * 60 * 1000
+
+export interface DetectorVerdict {
+  // Likelihood the media is manipulated, 0-1
+  score: number
+  // The provider's response as it came back
+  raw: unknown
+}
+
+export interface DetectorProvider {
+  name: string
+  weight: number
+  timeoutMs: number
+  supports(file: File): boolean
+  detect(file: File, signal: AbortSignal): Promise<DetectorVerdict>
+}
+
+// One provider's part in an analysis, kept with the result
+export interface DetectorResult {
+  provider: string
+  weight: number
+  score: number | null
+  raw: unknown
+  error: string | null
+  durationMs: number
+}
+
+// The built-in provider: our own FastAPI backend
+const fastAPIProvider = (): DetectorProvider => ({
+  name: 'fastapi',
+  weight: envNumber('DETECTOR_FASTAPI_WEIGHT', 1),
+  timeoutMs: envNumber('DETECTOR_FASTAPI_TIMEOUT_MS', envNumber('DETECTOR_TIMEOUT_MS', DEFAULT_DETECTOR_TIMEOUT_MS)),
+  supports: (file) => SUPPORTED_VIDEO_TYPES.includes(file.type) || SUPPORTED_IMAGE_TYPES.includes(file.type),
+  async detect(file, signal) {
+    const formData = new FormData()
+    formData.append('file', file)
+
+    const endpoint = SUPPORTED_IMAGE_TYPES.includes(file.type) ? '/detect-image' : '/detect'
+    const response = await fetch(`${FASTAPI_BASE_URL}${endpoint}`, {
+      method: 'POST',
+      body: formData,
+      signal,
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('FastAPI error:', response.status, errorText)
+      throw new DeepfakeBackendError(response.status, response.statusText, errorText)
+    }
+
+    const raw: FastAPIDetectionResponse = await response.json()
+    return { score: raw.prediction === 'Real' ? 1 - raw.confidence : raw.confidence, raw }
+  }
+})
+
+/**
+ * A third-party detector behind a plain HTTP endpoint, configured entirely
+ * from DETECTOR_<NAME>_* variables. The upload is POSTed as multipart "file";
+ * the reply must carry either score (0-1, or a percentage) or the FastAPI
+ * prediction/confidence pair.
+ */
+function httpProvider(name: string): DetectorProvider | null {
+  const prefix = `DETECTOR_${name.toUpperCase()}`
+  const url = process.env[`${prefix}_URL`]
+  if (!url) {
+    console.warn(`Detector "${name}" is enabled but ${prefix}_URL is not set; skipping it`)
+    return null
+  }
+  const apiKey = process.env[`${prefix}_API_KEY`]
+  const mediaTypes = (process.env[`${prefix}_MEDIA`] || 'video,image').split(',').map(type => type.trim())
+
+  return {
+    name,
+    weight: envNumber(`${prefix}_WEIGHT`, 1),
+    timeoutMs: envNumber(`${prefix}_TIMEOUT_MS`, envNumber('DETECTOR_TIMEOUT_MS', DEFAULT_DETECTOR_TIMEOUT_MS)),
+    supports: (file) => mediaTypes.some(type => file.type.startsWith(`${type}/`)),
+    async detect(file, signal) {
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const response = await fetch(url, {
+        method: 'POST',
+        body: formData,
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        signal,
+      })
+      if (!response.ok) {
+        throw new DeepfakeBackendError(response.status, response.statusText, await response.text())
+      }
+
+      const raw = await response.json()
+      if (typeof raw.score === 'number') {
+        return { score: raw.score > 1 ? raw.score / 100 : raw.score, raw }
+      }
+      if (typeof raw.prediction === 'string' && typeof raw.confidence === 'number') {
+        return { score: raw.prediction === 'Deepfake' ? raw.confidence : 1 - raw.confidence, raw }
+      }
+      throw new DeepfakeBackendError(502, 'Bad Gateway', `Unrecognized response from detector "${name}"`)
+    }
+  }
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '')
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+// Kept on globalThis so dev-mode module reloads share one registry
+const globalForDetectors = globalThis as unknown as {
+  detectorRegistry?: Map<string, DetectorProvider>
+}
+
+// DETECTOR_PROVIDERS lists the enabled providers in order (default: fastapi)
+function getRegistry(): Map<string, DetectorProvider> {
+  if (!globalForDetectors.detectorRegistry) {
+    const registry = new Map<string, DetectorProvider>()
+    const names = (process.env.DETECTOR_PROVIDERS || 'fastapi').split(',').map(name => name.trim()).filter(Boolean)
+    for (const name of names) {
+      const provider = name === 'fastapi' ? fastAPIProvider() : httpProvider(name)
+      if (provider) registry.set(provider.name, provider)
+    }
+    globalForDetectors.detectorRegistry = registry
+  }
+  return globalForDetectors.detectorRegistry
+}
+
+// For providers that need more than an HTTP endpoint. Replaces any provider
+// with the same name.
+export function registerDetectorProvider(provider: DetectorProvider) {
+  getRegistry().set(provider.name, provider)
+}
+
+export function getDetectorProviders(): DetectorProvider[] {
+  return Array.from(getRegistry().values())
+}
+
+export function getEnsembleMethod(): EnsembleMethod {
+  const method = process.env.DETECTOR_ENSEMBLE as EnsembleMethod
+  return ENSEMBLE_METHODS.includes(method) ? method : 'weighted'
+}
+
+// Changes whenever the set of detectors or the way they're combined does, so
+// cached verdicts from another setup aren't reused
+export function getDetectorSignature(): string {
+  const providers = getDetectorProviders().map(provider => `${provider.name}*${provider.weight}`)
+  return `${providers.join(',')}/${getEnsembleMethod()}`
+}
+
+// Whether every detector that accepts the file answered. Without all of
+// them the verdict is weaker than this setup's usual one, so it isn't cached
+// under the setup's signature.
+export function isCompleteVerdict(outcome: DetectionOutcome): boolean {
+  return (outcome.detectors || []).every(detector => detector.score !== null)
+}
+
+export function combineScores(verdicts: { score: number, weight: number }[], method: EnsembleMethod): number {
+  if (method === 'max') {
+    return Math.max(...verdicts.map(verdict => verdict.score))
+  }
+
+  const totalWeight = verdicts.reduce((sum, verdict) => sum + verdict.weight, 0)
+  // All weights zero: count everyone equally
+  const weightOf = (verdict: { weight: number }) => totalWeight > 0 ? verdict.weight / totalWeight : 1 / verdicts.length
+
+  return verdicts.reduce(
+    (sum, verdict) => sum + weightOf(verdict) * (method === 'vote' ? (verdict.score >= 0.5 ? 1 : 0) : verdict.score),
+    0
+  )
+}
+
+async function runProvider(provider: DetectorProvider, file: File): Promise<DetectorResult & { failure?: unknown }> {
+  const startTime = Date.now()
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), provider.timeoutMs)
+
+  try {
+    const { score, raw } = await provider.detect(file, controller.signal)
+    return {
+      provider: provider.name,
+      weight: provider.weight,
+      score: Math.min(Math.max(score, 0), 1),
+      raw,
+      error: null,
+      durationMs: Date.now() - startTime
+    }
+  } catch (error) {
+    // A timeout is an outage like any other: worth retrying
+    const failure = controller.signal.aborted
+      ? new DeepfakeBackendError(504, 'Gateway Timeout', `Detector "${provider.name}" timed out after ${provider.timeoutMs}ms`)
+      : error
+    return {
+      provider: provider.name,
+      weight: provider.weight,
+      score: null,
+      raw: null,
+      error: failure instanceof DeepfakeBackendError
+        ? `${failure.message}${failure.details ? `: ${failure.details}` : ''}`
+        : failure instanceof Error ? failure.message : 'Unknown error',
+      durationMs: Date.now() - startTime,
+      failure
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Runs every enabled detector that accepts the file in parallel and combines
+ * their scores with the configured ensemble. Detectors that fail or time out
+ * are left out of the score but kept in the result; if all of them fail, the
+ * first failure is thrown.
+ */
+export async function detectDeepfake(file: File, modelVersion?: string | null): Promise<DetectionOutcome> {
+  const startTime = Date.now()
+  const providers = getDetectorProviders().filter(provider => provider.supports(file))
+  if (providers.length === 0) {
+    throw new DeepfakeBackendError(415, 'Unsupported Media Type', `No detector accepts ${file.type || 'this file type'}`)
+  }
+
+  const runs = await Promise.all(providers.map(provider => runProvider(provider, file)))
+  const succeeded = runs.filter(run => run.score !== null) as (DetectorResult & { score: number })[]
+  if (succeeded.length === 0) {
+    throw runs[0].failure
+  }
+
+  const method = getEnsembleMethod()
+  const score = combineScores(succeeded, method)
+
+  // Importances, the transcript and image metrics only come from our own backend
+  const fastAPI = succeeded.find(run => run.provider === 'fastapi')?.raw as FastAPIDetectionResponse | undefined
+  const backend: FastAPIDetectionResponse = {
+    prediction: score >= 0.5 ? 'Deepfake' : 'Real',
+    confidence: score >= 0.5 ? score : 1 - score,
+    image_importance: fastAPI?.image_importance ?? 0,
+    audio_importance: fastAPI?.audio_importance ?? 0,
+    text_importance: fastAPI?.text_importance ?? 0,
+    transcript: fastAPI?.transcript ?? '',
+    ...(fastAPI?.image_metrics && { image_metrics: fastAPI.image_metrics })
+  }
+
+  const processingTime = `${((Date.now() - startTime) / 1000).toFixed(1)}s`
+  const filesize = `${(file.size / 1024 / 1024).toFixed(2)} MB`
+  const filetype = file.type.startsWith('image/') ? 'image' : 'video'
+  const analysis = convertFastAPIResponse(backend, file.name, filesize, filetype, processingTime, modelVersion)
+
+  const external = succeeded.filter(run => run.provider !== 'fastapi')
+  if (external.length > 0) {
+    analysis.externalAPIs = Object.fromEntries(external.map(run => [run.provider, Math.round(run.score * 100)]))
+  }
+
+  return {
+    analysis,
+    backend,
+    modelVersion: modelVersion || null,
+    detectors: runs.map(({ failure, ...run }) => run),
+    ensemble: { method, score }
+  }
+}
@@ -0,0 +1,159 @@
+import { randomUUID } from 'crypto'
+import { getDatabase, withTransaction, type SqliteDatabase } from './database'
+import { getUserById, hashPassword, signToken, verifySignedToken, type AuthUser } from './auth'
+import { sendMail } from './mailer'
+import { closeUserStreams } from './realtime'
+
+export type EmailTokenPurpose = 'verify_email' | 'reset_password'
+
+const EMAIL_TOKEN_TTL_SECONDS: Record<EmailTokenPurpose, number> = {
+  verify_email: 24 * 60 * 60,
+  reset_password: 60 * 60,
+}
+
+export const EMAIL_TOKEN_CLEANUP_INTERVAL_MS = 6 * 60 * 60 * 1000
+
+interface EmailTokenPayload {
+  userId: number
+  purpose: EmailTokenPurpose
+  jti: string
+}
+
+function toSqliteTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19)
+}
+
+/**
+ * Issues a signed link token. The signature and expiry live in the JWT; the
+ * email_tokens row makes it single-use. Issuing a new token replaces any
+ * unused one for the same purpose, so only the latest email works.
+ */
+export async function createEmailToken(userId: number, purpose: EmailTokenPurpose): Promise<string | null> {
+  try {
+    const ttlSeconds = EMAIL_TOKEN_TTL_SECONDS[purpose]
+    const jti = randomUUID()
+
+    await withTransaction(async (db) => {
+      await db.run(
+        'DELETE FROM email_tokens WHERE user_id = ? AND purpose = ? AND used_at IS NULL',
+        [userId, purpose]
+      )
+      await db.run(
+        'INSERT INTO email_tokens (id, user_id, purpose, expires_at) VALUES (?, ?, ?, ?)',
+        [jti, userId, purpose, toSqliteTimestamp(new Date(Date.now() + ttlSeconds * 1000))]
+      )
+    })
+
+    return signToken({ userId, purpose, jti }, ttlSeconds)
+  } catch (error) {
+    console.error('Error creating email token:', error)
+    return null
+  }
+}
+
+// Marks the token used and returns its user, or null if it's forged, expired,
+// for another purpose, superseded or already used
+async function consumeEmailToken(db: SqliteDatabase, token: string, purpose: EmailTokenPurpose): Promise<number | null> {
+  const payload = verifySignedToken<EmailTokenPayload>(token)
+  if (!payload || payload.purpose !== purpose || !payload.jti) return null
+
+  const result = await db.run(
+    `UPDATE email_tokens SET used_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND user_id = ? AND purpose = ? AND used_at IS NULL AND expires_at > datetime('now')`,
+    [payload.jti, payload.userId, purpose]
+  )
+
+  return result.changes === 1 ? payload.userId : null
+}
+
+// Who a link is for, without using it up (e.g. to check a new password
+// against their username before resetting)
+export async function getEmailTokenUser(token: string, purpose: EmailTokenPurpose): Promise<AuthUser | null> {
+  const payload = verifySignedToken<EmailTokenPayload>(token)
+  if (!payload || payload.purpose !== purpose) return null
+
+  return getUserById(payload.userId)
+}
+
+export async function verifyEmail(token: string): Promise<number | null> {
+  try {
+    return await withTransaction(async (db) => {
+      const userId = await consumeEmailToken(db, token, 'verify_email')
+      if (!userId) return null
+
+      await db.run(
+        'UPDATE users SET email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP) WHERE id = ?',
+        [userId]
+      )
+      return userId
+    })
+  } catch (error) {
+    console.error('Error verifying email:', error)
+    return null
+  }
+}
+
+// A reset signs the user out everywhere: whoever knew the old password may
+// still hold a session or refresh token
+export async function resetPassword(token: string, newPassword: string): Promise<number | null> {
+  try {
+    const passwordHash = await hashPassword(newPassword)
+
+    const resetUserId = await withTransaction(async (db) => {
+      const userId = await consumeEmailToken(db, token, 'reset_password')
+      if (!userId) return null
+
+      await db.run(
+        'UPDATE users SET password_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [passwordHash, userId]
+      )
+      await db.run('DELETE FROM sessions WHERE user_id = ?', [userId])
+      await db.run(
+        'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL',
+        [userId]
+      )
+      return userId
+    })
+
+    if (resetUserId) closeUserStreams(resetUserId)
+    return resetUserId
+  } catch (error) {
+    console.error('Error resetting password:', error)
+    return null
+  }
+}
+
+export async function sendVerificationEmail(user: AuthUser, appUrl: string): Promise<boolean> {
+  const token = await createEmailToken(user.id, 'verify_email')
+  if (!token) return false
+
+  const link = `${appUrl}/auth/verify-email?token=${encodeURIComponent(token)}`
+  return sendMail({
+    to: user.email,
+    subject: 'Verify your SocialGuard email address',
+    text: `Hi ${user.username},\n\nConfirm your email address by opening this link within 24 hours:\n\n${link}\n\nIf you didn't create a SocialGuard account, you can ignore this email.`,
+  })
+}
+
+export async function sendPasswordResetEmail(user: AuthUser, appUrl: string): Promise<boolean> {
+  const token = await createEmailToken(user.id, 'reset_password')
+  if (!token) return false
+
+  const link = `${appUrl}/auth/reset-password?token=${encodeURIComponent(token)}`
+  return sendMail({
+    to: user.email,
+    subject: 'Reset your SocialGuard password',
+    text: `Hi ${user.username},\n\nSomeone asked to reset your password. Choose a new one within the next hour:\n\n${link}\n\nIf this wasn't you, ignore this email; your password won't change.`,
+  })
+}
+
+export async function deleteExpiredEmailTokens(): Promise<number> {
+  try {
+    const db = await getDatabase()
+    const result = await db.run("DELETE FROM email_tokens WHERE expires_at <= datetime('now')")
+    return result.changes || 0
+  } catch (error) {
+    console.error('Error deleting expired email tokens:', error)
+    return 0
+  }
+}
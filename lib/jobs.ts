@@ -0,0 +1,36 @@
+// Periodic background jobs for the long-running Next.js server process,
+// started from instrumentation.ts.
+
+type Job = () => Promise<unknown>
+
+// Kept on globalThis so dev-mode module reloads don't start a second timer
+const globalForJobs = globalThis as unknown as {
+  periodicJobs?: Map<string, ReturnType<typeof setInterval>>
+}
+
+const timers = globalForJobs.periodicJobs ??= new Map()
+
+// Runs the job now and then every intervalMs. Overlapping runs are skipped
+// rather than queued.
+export function schedulePeriodicJob(name: string, intervalMs: number, job: Job) {
+  if (timers.has(name)) return
+
+  let running = false
+  const run = async () => {
+    if (running) return
+    running = true
+    try {
+      await job()
+    } catch (error) {
+      console.error(`Job ${name} failed:`, error)
+    } finally {
+      running = false
+    }
+  }
+
+  run()
+  const timer = setInterval(run, intervalMs)
+  // Don't keep scripts or test processes alive just for a job
+  timer.unref?.()
+  timers.set(name, timer)
+}
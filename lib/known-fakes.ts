@@ -0,0 +1,168 @@
+import path from 'path'
+import {
+  PERCEPTUAL_MATCH_MAX_DISTANCE,
+  hammingDistance,
+  hashContent,
+  purgeCachedAnalyses
+} from './analysis-cache'
+import { getDatabase, withTransaction } from './database'
+import {
+  convertFastAPIResponse,
+  fetchFingerprint,
+  type DetectionOutcome,
+  type FastAPIDetectionResponse,
+  type KnownFakeMatch
+} from './deepfake-detection'
+import type { ModerationContentType } from './moderation'
+import { readUploadedFile } from './uploads'
+
+// A video has to share this many keyframes with a known fake; an image its one
+const MIN_MATCHING_KEYFRAMES = 2
+
+const CONTENT_TABLES: Record<ModerationContentType, string> = {
+  post: 'posts',
+  story: 'stories',
+}
+
+// Near-blank frames (black intros, solid fills) hash to almost all zeros or
+// all ones and would match anything
+function isFeatureless(hash: string): boolean {
+  const setBits = hammingDistance(hash, '0000000000000000')
+  return setBits <= 4 || setBits >= 60
+}
+
+/**
+ * Fingerprints a post or story a moderator has confirmed as manipulated, so
+ * re-uploads are caught before analysis, and drops any cached verdicts for it.
+ * Returns how many keyframe hashes were stored.
+ */
+export async function recordKnownFake(contentType: ModerationContentType, contentId: number): Promise<number> {
+  try {
+    const db = await getDatabase()
+    const content = await db.get(
+      `SELECT media_url FROM ${CONTENT_TABLES[contentType]} WHERE id = ?`,
+      [contentId]
+    )
+    const buffer = content ? await readUploadedFile(content.media_url) : null
+    if (!buffer) {
+      console.warn(`Can't fingerprint ${contentType} ${contentId}: media file not found`)
+      return 0
+    }
+
+    const fingerprint = await fetchFingerprint(new File([buffer], path.basename(content.media_url)))
+    const hashes = fingerprint.frameHashes.filter(hash => !isFeatureless(hash))
+
+    await withTransaction(async (tx) => {
+      await tx.run(
+        'DELETE FROM known_fake_hashes WHERE content_type = ? AND content_id = ?',
+        [contentType, contentId]
+      )
+      for (const [frameIndex, hash] of hashes.entries()) {
+        await tx.run(
+          'INSERT INTO known_fake_hashes (content_type, content_id, frame_index, hash) VALUES (?, ?, ?, ?)',
+          [contentType, contentId, frameIndex, hash]
+        )
+      }
+    })
+    await purgeCachedAnalyses(hashContent(buffer), fingerprint.perceptualHash)
+
+    console.log(`Recorded ${hashes.length} keyframe hashes for manipulated ${contentType} ${contentId}`)
+    return hashes.length
+  } catch (error) {
+    console.error('Error recording known fake:', error)
+    return 0
+  }
+}
+
+// For content later found to be authentic after all
+export async function forgetKnownFake(contentType: ModerationContentType, contentId: number): Promise<number> {
+  try {
+    const db = await getDatabase()
+    const result = await db.run(
+      'DELETE FROM known_fake_hashes WHERE content_type = ? AND content_id = ?',
+      [contentType, contentId]
+    )
+    return result.changes || 0
+  } catch (error) {
+    console.error('Error forgetting known fake:', error)
+    return 0
+  }
+}
+
+/**
+ * The known fake sharing the most keyframes with an upload, given the
+ * upload's keyframe hashes. Null if none shares enough of them.
+ */
+export async function findKnownFakeMatch(frameHashes: string[]): Promise<KnownFakeMatch | null> {
+  const hashes = frameHashes.filter(hash => !isFeatureless(hash))
+  if (hashes.length === 0) return null
+
+  try {
+    const db = await getDatabase()
+    const rows = await db.all('SELECT content_type, content_id, hash FROM known_fake_hashes')
+
+    const candidates = new Map<string, { contentType: ModerationContentType, contentId: number, known: string[] }>()
+    for (const row of rows) {
+      const key = `${row.content_type}:${row.content_id}`
+      const candidate = candidates.get(key) ?? { contentType: row.content_type, contentId: row.content_id, known: [] as string[] }
+      candidate.known.push(row.hash)
+      candidates.set(key, candidate)
+    }
+
+    const required = Math.min(MIN_MATCHING_KEYFRAMES, hashes.length)
+    let best: KnownFakeMatch | null = null
+    for (const candidate of candidates.values()) {
+      let matchedFrames = 0
+      let distance = Infinity
+      for (const hash of hashes) {
+        const closest = Math.min(...candidate.known.map(known => hammingDistance(hash, known)))
+        if (closest <= PERCEPTUAL_MATCH_MAX_DISTANCE) matchedFrames++
+        distance = Math.min(distance, closest)
+      }
+
+      if (matchedFrames < required) continue
+      if (!best || matchedFrames > best.matchedFrames || (matchedFrames === best.matchedFrames && distance < best.distance)) {
+        best = {
+          contentType: candidate.contentType,
+          contentId: candidate.contentId.toString(),
+          matchedFrames,
+          distance
+        }
+      }
+    }
+    return best
+  } catch (error) {
+    console.error('Error matching known fakes:', error)
+    return null
+  }
+}
+
+// Stands in for a backend verdict: flagged as a deepfake, with confidence
+// falling off as the closest keyframe gets further from the known fake
+export function toKnownFakeOutcome(
+  match: KnownFakeMatch,
+  file: { name: string, size: number, type: string },
+  modelVersion?: string | null
+): DetectionOutcome {
+  const backend: FastAPIDetectionResponse = {
+    prediction: 'Deepfake',
+    confidence: 1 - match.distance / 64,
+    image_importance: 1,
+    audio_importance: 0,
+    text_importance: 0,
+    transcript: ''
+  }
+  const filesize = `${(file.size / 1024 / 1024).toFixed(2)} MB`
+  const filetype = file.type.startsWith('image/') ? 'image' : 'video'
+  const analysis = convertFastAPIResponse(backend, file.name, filesize, filetype, '0.0s', modelVersion)
+
+  return {
+    analysis: {
+      ...analysis,
+      recommendation: `Matches known manipulated media: a moderator confirmed a near-identical ${match.contentType} as a deepfake.`,
+      knownFakeMatch: match
+    },
+    backend,
+    modelVersion: modelVersion || null
+  }
+}
@@ -0,0 +1,193 @@
+import { getDatabase, withTransaction, type SqliteDatabase } from './database'
+
+export type LoginAttemptReason =
+  | 'unknown_user'
+  | 'invalid_password'
+  | 'invalid_2fa_code'
+  | 'throttled'
+
+export interface LoginAttempt {
+  identifier: string
+  userId?: number | null
+  ipAddress?: string | null
+  userAgent?: string | null
+  success: boolean
+  reason?: LoginAttemptReason
+}
+
+export interface LoginThrottle {
+  retryAfterSeconds: number
+  locked: boolean
+}
+
+interface ThrottlePolicy {
+  // Failures allowed before any delay applies
+  freeAttempts: number
+  // Failures at which the key is locked out instead of delayed
+  lockoutThreshold: number
+}
+
+// Each failure past the free ones doubles the wait: 1s, 2s, 4s... until the
+// lockout threshold. An IP gets more room since several people can share one.
+const ACCOUNT_POLICY: ThrottlePolicy = { freeAttempts: 3, lockoutThreshold: 10 }
+const IP_POLICY: ThrottlePolicy = { freeAttempts: 20, lockoutThreshold: 100 }
+
+// Only failures this recent count, so old mistakes are forgiven
+const FAILURE_WINDOW_MINUTES = 60
+const LOCKOUT_SECONDS = 15 * 60
+const MAX_BACKOFF_SECONDS = LOCKOUT_SECONDS
+
+const LOGIN_ATTEMPT_RETENTION_DAYS = 90
+export const LOGIN_ATTEMPT_CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000
+
+// Throttled attempts are audited but don't extend the wait, or a locked-out
+// user retrying would never get back in
+const COUNTED_FAILURE = "success = 0 AND (reason IS NULL OR reason != 'throttled')"
+
+function parseSqliteTimestamp(timestamp: string): number {
+  return new Date(`${timestamp.replace(' ', 'T')}Z`).getTime()
+}
+
+function throttleFor(policy: ThrottlePolicy, failures: number, lastFailureAt: string | null): LoginThrottle | null {
+  if (!lastFailureAt || failures < policy.freeAttempts) return null
+
+  const locked = failures >= policy.lockoutThreshold
+  const waitSeconds = locked
+    ? LOCKOUT_SECONDS
+    : Math.min(2 ** (failures - policy.freeAttempts), MAX_BACKOFF_SECONDS)
+
+  const retryAt = parseSqliteTimestamp(lastFailureAt) + waitSeconds * 1000
+  const retryAfterSeconds = Math.ceil((retryAt - Date.now()) / 1000)
+
+  return retryAfterSeconds > 0 ? { retryAfterSeconds, locked } : null
+}
+
+// How long the caller must wait before trying to sign in, or null if they
+// may try now. Checks the account (by user id when the identifier matches
+// one, otherwise by the identifier itself) and the client IP; the stricter of
+// the two wins. A successful sign-in resets the account count.
+async function readLoginThrottle(
+  db: SqliteDatabase,
+  identifier: string,
+  userId: number | null,
+  ipAddress: string | null
+): Promise<LoginThrottle | null> {
+  const accountKey = userId ? 'user_id = ?' : 'user_id IS NULL AND identifier = ?'
+  const accountValue = userId ?? identifier
+
+  const account = await db.get(`
+    SELECT COUNT(*) AS failures, MAX(created_at) AS last_failure_at
+    FROM login_attempts
+    WHERE ${accountKey} AND ${COUNTED_FAILURE}
+      AND created_at > datetime('now', '-${FAILURE_WINDOW_MINUTES} minutes')
+      AND id > COALESCE((SELECT MAX(id) FROM login_attempts WHERE ${accountKey} AND success = 1), 0)
+  `, [accountValue, accountValue])
+
+  const ip = ipAddress ? await db.get(`
+    SELECT COUNT(*) AS failures, MAX(created_at) AS last_failure_at
+    FROM login_attempts
+    WHERE ip_address = ? AND ${COUNTED_FAILURE}
+      AND created_at > datetime('now', '-${FAILURE_WINDOW_MINUTES} minutes')
+  `, [ipAddress]) : null
+
+  const throttles = [
+    throttleFor(ACCOUNT_POLICY, account?.failures || 0, account?.last_failure_at),
+    ip ? throttleFor(IP_POLICY, ip.failures || 0, ip.last_failure_at) : null,
+  ].filter((throttle): throttle is LoginThrottle => throttle !== null)
+
+  if (throttles.length === 0) return null
+
+  return {
+    retryAfterSeconds: Math.max(...throttles.map(t => t.retryAfterSeconds)),
+    locked: throttles.some(t => t.locked)
+  }
+}
+
+async function insertLoginAttempt(db: SqliteDatabase, attempt: LoginAttempt): Promise<number | null> {
+  const result = await db.run(
+    `INSERT INTO login_attempts (identifier, user_id, ip_address, user_agent, success, reason)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      attempt.identifier,
+      attempt.userId || null,
+      attempt.ipAddress || null,
+      attempt.userAgent || null,
+      attempt.success ? 1 : 0,
+      attempt.reason || null,
+    ]
+  )
+  return result.lastID || null
+}
+
+function logFailure(attempt: LoginAttempt) {
+  if (!attempt.success && attempt.reason !== 'throttled') {
+    console.warn(`Failed login for "${attempt.identifier}" from ${attempt.ipAddress || 'unknown IP'}: ${attempt.reason}`)
+  }
+}
+
+/**
+ * Checks the throttle and records the attempt in one transaction, so guesses
+ * sent in parallel each count against the ones before them. An attempt that
+ * may go ahead is stored as a failure until finishLoginAttempt records how it
+ * went; a throttled one is stored as such and comes back with the wait. id is
+ * null if the attempt couldn't be stored.
+ */
+export async function beginLoginAttempt(
+  attempt: Omit<LoginAttempt, 'success' | 'reason'>
+): Promise<{ id: number | null; throttle: LoginThrottle | null }> {
+  try {
+    return await withTransaction(async (db) => {
+      const throttle = await readLoginThrottle(db, attempt.identifier, attempt.userId ?? null, attempt.ipAddress ?? null)
+      const id = await insertLoginAttempt(db, { ...attempt, success: false, ...(throttle && { reason: 'throttled' as const }) })
+      return { id, throttle }
+    })
+  } catch (error) {
+    // Fail open: a broken audit table shouldn't stop everyone signing in
+    console.error('Error checking login throttle:', error)
+    return { id: null, throttle: null }
+  }
+}
+
+// Records the outcome of an attempt from beginLoginAttempt
+export async function finishLoginAttempt(id: number | null, attempt: LoginAttempt): Promise<void> {
+  try {
+    const db = await getDatabase()
+    if (id) {
+      await db.run(
+        'UPDATE login_attempts SET success = ?, reason = ? WHERE id = ?',
+        [attempt.success ? 1 : 0, attempt.reason || null, id]
+      )
+    } else {
+      await insertLoginAttempt(db, attempt)
+    }
+    logFailure(attempt)
+  } catch (error) {
+    console.error('Error recording login attempt:', error)
+  }
+}
+
+// Drops an attempt that neither failed nor finished signing in: a correct
+// password on an account that still has to pass two-factor
+export async function cancelLoginAttempt(id: number | null): Promise<void> {
+  if (!id) return
+
+  try {
+    const db = await getDatabase()
+    await db.run('DELETE FROM login_attempts WHERE id = ?', [id])
+  } catch (error) {
+    console.error('Error recording login attempt:', error)
+  }
+}
+
+export async function deleteOldLoginAttempts(): Promise<number> {
+  try {
+    const db = await getDatabase()
+    const result = await db.run(
+      `DELETE FROM login_attempts WHERE created_at <= datetime('now', '-${LOGIN_ATTEMPT_RETENTION_DAYS} days')`
+    )
+    return result.changes || 0
+  } catch (error) {
+    console.error('Error deleting old login attempts:', error)
+    return 0
+  }
+}
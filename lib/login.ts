@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ACCESS_TOKEN_TTL_SECONDS, generateToken, type AuthUser } from './auth'
+import { getClientInfo, setSessionCookie } from './request-auth'
+import { issueRefreshToken } from './refresh-tokens'
+import { getPermissions } from './permissions'
+import { createSession } from './sessions'
+import { needsTwoFactorSetup } from './two-factor'
+
+// The signed-in user as the client sees it (login, register, /api/auth/me)
+export function serializeAuthUser(user: AuthUser) {
+  return {
+    id: user.id.toString(),
+    username: user.username,
+    email: user.email,
+    profilePic: user.profile_pic || '/placeholder.svg',
+    bio: user.bio,
+    role: user.role,
+    permissions: getPermissions(user.role),
+    emailVerified: !!user.email_verified_at,
+    twoFactorEnabled: !!user.totp_enabled_at,
+    twoFactorSetupRequired: needsTwoFactorSetup(user)
+  }
+}
+
+/**
+ * Finishes a successful sign-in: a session cookie for the browser, plus a
+ * short-lived access token and a refresh token for API clients. `extra` is
+ * merged into the JSON body.
+ */
+export async function startLoginSession(
+  request: NextRequest,
+  user: AuthUser,
+  extra: Record<string, unknown> = {}
+): Promise<NextResponse> {
+  const session = await createSession(user.id, getClientInfo(request))
+  const refreshToken = await issueRefreshToken(user.id)
+  if (!session || !refreshToken) {
+    return NextResponse.json({ error: 'Failed to start session' }, { status: 500 })
+  }
+
+  const response = NextResponse.json({
+    success: true,
+    user: serializeAuthUser(user),
+    token: generateToken(user.id),
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    refreshToken: refreshToken.token,
+    refreshTokenExpiresAt: refreshToken.expiresAt.toISOString(),
+    ...extra
+  })
+  setSessionCookie(response, session.token, session.expiresAt)
+
+  return response
+}
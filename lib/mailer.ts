@@ -0,0 +1,102 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+// A transport delivers one message and throws if it can't
+export interface MailTransport {
+  name: string
+  send(message: MailMessage): Promise<void>
+}
+
+type TransportFactory = () => MailTransport
+
+const MAIL_FROM = process.env.MAIL_FROM || 'SocialGuard <no-reply@socialguard.local>'
+
+// Writes each message as a JSON file so links can be opened offline
+function createFileTransport(): MailTransport {
+  const outboxDir = process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), '.mail-outbox')
+
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(outboxDir, { recursive: true })
+
+      const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`
+      const filePath = path.join(outboxDir, fileName)
+      const mail = { from: MAIL_FROM, date: new Date().toISOString(), ...message }
+
+      await fs.writeFile(filePath, JSON.stringify(mail, null, 2))
+      console.log(`Mail to ${message.to} written to ${filePath}`)
+    }
+  }
+}
+
+function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(
+        `\n--- Mail from ${MAIL_FROM} ---\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n--- End of mail ---\n`
+      )
+    }
+  }
+}
+
+const transportFactories = new Map<string, TransportFactory>([
+  ['console', createConsoleTransport],
+  ['file', createFileTransport],
+])
+
+/**
+ * Makes a transport selectable with MAIL_TRANSPORT=<name>. Production
+ * deployments register their provider (SMTP, an email API) here at startup;
+ * the built-in console and file transports are for local development.
+ */
+export function registerMailTransport(name: string, factory: TransportFactory) {
+  transportFactories.set(name, factory)
+  transport = null
+}
+
+let transport: MailTransport | null = null
+
+// Throws in production when MAIL_TRANSPORT isn't set, rather than printing
+// reset and verification links to the server log. Called at server startup
+// so a misconfigured deploy fails immediately.
+export function getMailTransportName(): string {
+  const name = process.env.MAIL_TRANSPORT
+  if (name) return name
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('MAIL_TRANSPORT must be set in production')
+  }
+  return 'console'
+}
+
+export function getMailTransport(): MailTransport {
+  if (transport) return transport
+
+  const name = getMailTransportName()
+  const factory = transportFactories.get(name)
+  if (!factory) {
+    throw new Error(`Unknown MAIL_TRANSPORT "${name}". Available: ${[...transportFactories.keys()].join(', ')}`)
+  }
+
+  transport = factory()
+  return transport
+}
+
+export async function sendMail(message: MailMessage): Promise<boolean> {
+  try {
+    await getMailTransport().send(message)
+    return true
+  } catch (error) {
+    console.error('Error sending mail:', error)
+    return false
+  }
+}
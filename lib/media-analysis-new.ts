@@ -1,5 +1,7 @@
 'use client'
 
+import { SUPPORTED_IMAGE_TYPES, SUPPORTED_VIDEO_TYPES } from './deepfake-detection'
+
 export interface MediaAnalysisResult {
   confidence: number
   isDeepfake: boolean
@@ -155,11 +157,7 @@ export class MediaAnalysisService {
   }
   
   static isValidMediaFile(file: File): boolean {
-    const validTypes = [
-      'image/jpeg', 'image/png', 'image/gif', 'image/webp',
-      'video/mp4', 'video/webm', 'video/ogg', 'video/avi'
-    ]
-    return validTypes.includes(file.type)
+    return SUPPORTED_VIDEO_TYPES.includes(file.type) || SUPPORTED_IMAGE_TYPES.includes(file.type)
   }
   
   static getFileType(file: File): 'image' | 'video' | 'unknown' {
@@ -1,5 +1,7 @@
 'use client'
 
+import { SUPPORTED_IMAGE_TYPES, SUPPORTED_VIDEO_TYPES } from './deepfake-detection'
+
 export interface MediaAnalysisResult {
   confidence: number
   isDeepfake: boolean
@@ -34,6 +36,9 @@ export interface MediaAnalysisResult {
     text_importance: number
     transcript: string
   }
+  // The server-side analysis job behind this result. Posts and stories are
+  // created with it so the server reads the verdict itself.
+  jobId?: string
 }
 
 export interface MediaFile {
@@ -43,89 +48,111 @@ export interface MediaFile {
   id: string
 }
 
+// How often to ask the server whether a queued analysis has finished, and
+// when to stop asking
+const JOB_POLL_INTERVAL_MS = 1500
+const JOB_POLL_TIMEOUT_MS = 15 * 60 * 1000
+
+export interface AnalysisJobResult {
+  jobId: string
+  analysis: any
+  backend: NonNullable<MediaAnalysisResult['backendInfo']>
+  // Answered from the server's cache of earlier verdicts
+  cached: boolean
+  modelVersion: string | null
+}
+
 export class MediaAnalysisService {
+  /**
+   * Submits the file to the analysis queue and polls its job until the
+   * backend is done. Resolves to the job's { analysis, backend } result and
+   * its jobId, which creating a post or story from the file needs; rejects if the job fails or takes longer than JOB_POLL_TIMEOUT_MS. A
+   * verdict the server already had cached comes back without polling.
+   */
+  static async runAnalysisJob(file: File, onProgress?: (progress: number) => void): Promise<AnalysisJobResult> {
+    const formData = new FormData()
+    formData.append('file', file)
+
+    const response = await fetch('/api/deepfake/analyze', {
+      method: 'POST',
+      body: formData,
+    })
+    const submitted = await response.json()
+    if (!response.ok || !submitted.success) {
+      throw new Error(submitted.error || `Analysis failed: ${response.statusText}`)
+    }
+    const jobId = submitted.job.id
+    if (submitted.job.status === 'completed') {
+      onProgress?.(100)
+      return { ...submitted.job.result, jobId }
+    }
+
+    const deadline = Date.now() + JOB_POLL_TIMEOUT_MS
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS))
+
+      const jobResponse = await fetch(submitted.statusUrl)
+      const data = await jobResponse.json()
+      if (!jobResponse.ok) {
+        throw new Error(data.error || `Analysis failed: ${jobResponse.statusText}`)
+      }
+
+      onProgress?.(data.job.progress)
+      if (data.job.status === 'completed') return { ...data.job.result, jobId }
+      if (data.job.status === 'failed') throw new Error(data.job.error || 'Analysis failed')
+    }
+
+    throw new Error('Analysis is taking too long. Please try again later.')
+  }
+
+  // Rejects when the backend can't analyze the file (unsupported, corrupt or
+  // unreachable) instead of passing that off as a clean result
   static async analyzeMedia(file: File): Promise<MediaAnalysisResult> {
     const startTime = Date.now()
     
-    try {
-      const formData = new FormData()
-      formData.append('file', file)
-      formData.append('filename', file.name)
-      formData.append('type', file.type)
-      
-      const response = await fetch('/api/deepfake/analyze', {
-        method: 'POST',
-        body: formData,
-      })
-      
-      if (!response.ok) {
-        throw new Error(`Analysis failed: ${response.statusText}`)
-      }
-      
-      const result = await response.json()
-      const processingTime = Date.now() - startTime
-      
-      // Ensure we have valid analysis results with fallbacks
-      const analysisResult: MediaAnalysisResult = {
-        confidence: result.analysis?.confidence || 0,
-        isDeepfake: result.analysis?.isDeepfake || false,
-        riskLevel: result.analysis?.riskLevel || this.getRiskLevel(result.analysis?.confidence || 0),
-        score: result.analysis?.confidence || 0,
-        details: {
-          faceConsistency: result.analysis?.details?.faceConsistency || 0,
-          temporalConsistency: result.analysis?.details?.temporalConsistency || 0,
-          artifactDetection: result.analysis?.details?.artifactDetection || 0,
-          lightingAnalysis: result.analysis?.details?.lightingAnalysis || 0,
-          metadataAnalysis: result.analysis?.details?.metadataAnalysis || 0,
-          compressionArtifacts: result.analysis?.details?.compressionArtifacts || 0,
-        },
-        recommendations: result.analysis?.recommendation ? [result.analysis.recommendation] : [],
-        processingTime,
-        fileInfo: {
-          name: file.name,
-          size: file.size,
-          type: file.type,
-          dimensions: result.analysis?.fileInfo?.dimensions,
-          duration: result.analysis?.fileInfo?.duration
-        },
-        // Add transcript if available
-        ...(result.analysis?.transcript && {
-          transcript: result.analysis.transcript
-        }),
-        // Add backend information if available
-        ...(result.backend && {
-          backendInfo: result.backend
-        })
-      }
-      
-      return analysisResult
-    } catch (error) {
-      console.error('Media analysis error:', error)
-      
-      // Return a safe fallback result instead of throwing
-      const processingTime = Date.now() - startTime
-      return {
-        confidence: 0,
-        isDeepfake: false,
-        riskLevel: 'low' as const,
-        score: 0,
-        details: {
-          faceConsistency: 0,
-          temporalConsistency: 0,
-          artifactDetection: 0,
-          lightingAnalysis: 0,
-          metadataAnalysis: 0,
-          compressionArtifacts: 0,
-        },
-        recommendations: ['Analysis failed - file may be corrupted or unsupported'],
-        processingTime,
-        fileInfo: {
-          name: file.name,
-          size: file.size,
-          type: file.type,
-        }
-      }
+    const result = await this.runAnalysisJob(file)
+    const processingTime = Date.now() - startTime
+    
+    // Ensure we have valid analysis results with fallbacks
+    const analysisResult: MediaAnalysisResult = {
+      confidence: result.analysis?.confidence || 0,
+      isDeepfake: result.analysis?.isDeepfake || false,
+      riskLevel: result.analysis?.riskLevel || this.getRiskLevel(result.analysis?.confidence || 0),
+      // How likely the media is manipulated: the backend's confidence is in
+      // whichever label it predicted, so "Real" at 90% scores 10
+      score: result.backend
+        ? Math.round((result.backend.prediction === 'Real' ? 1 - result.backend.confidence : result.backend.confidence) * 100)
+        : result.analysis?.confidence || 0,
+      details: {
+        faceConsistency: result.analysis?.details?.faceConsistency || 0,
+        temporalConsistency: result.analysis?.details?.temporalConsistency || 0,
+        artifactDetection: result.analysis?.details?.artifactDetection || 0,
+        lightingAnalysis: result.analysis?.details?.lightingAnalysis || 0,
+        metadataAnalysis: result.analysis?.details?.metadataAnalysis || 0,
+        compressionArtifacts: result.analysis?.details?.compressionArtifacts || 0,
+        pixelPatterns: result.analysis?.details?.pixelPatterns || 0,
+      },
+      recommendations: result.analysis?.recommendation ? [result.analysis.recommendation] : [],
+      processingTime,
+      fileInfo: {
+        name: file.name,
+        size: file.size,
+        type: file.type,
+        dimensions: result.analysis?.fileInfo?.dimensions,
+        duration: result.analysis?.fileInfo?.duration
+      },
+      // Add transcript if available
+      ...(result.analysis?.transcript && {
+        transcript: result.analysis.transcript
+      }),
+      // Add backend information if available
+      ...(result.backend && {
+        backendInfo: result.backend
+      }),
+      jobId: result.jobId
     }
+    
+    return analysisResult
   }
   
   static async analyzeMultipleFiles(files: File[]): Promise<MediaAnalysisResult[]> {
@@ -174,11 +201,9 @@ export class MediaAnalysisService {
     })
   }
   
+  // Only what the backend can analyze; anything else would fail there
   static isValidMediaFile(file: File): boolean {
-    const validTypes = [
-      'video/mp4', 'video/webm', 'video/ogg', 'video/avi', 'video/quicktime'
-    ]
-    return validTypes.includes(file.type)
+    return SUPPORTED_VIDEO_TYPES.includes(file.type) || SUPPORTED_IMAGE_TYPES.includes(file.type)
   }
   
   static getFileType(file: File): 'image' | 'video' | 'unknown' {
@@ -0,0 +1,380 @@
+import type { AnalysisJob } from './analysis-jobs'
+import { getDatabase, withTransaction } from './database'
+import {
+  SUPPORTED_IMAGE_TYPES,
+  SUPPORTED_VIDEO_TYPES,
+  deepfakeScoreFromBackend,
+  riskLevelFromScore,
+  toMediaAnalysisResult
+} from './deepfake-detection'
+import type { MediaAnalysisResult } from './media-analysis'
+import { publishToUser } from './realtime'
+import { publishPendingUpload } from './uploads'
+
+export interface ConversationWithUser {
+  id: number
+  other_user_id: number
+  username: string
+  profile_pic?: string
+  last_message_id?: number
+  last_message_content?: string
+  last_message_media_url?: string
+  last_message_sender_id?: number
+  unread_count: number
+  updated_at: string
+}
+
+export interface MessageWithSender {
+  id: number
+  conversation_id: number
+  sender_id: number
+  receiver_id: number
+  content?: string
+  media_url?: string
+  media_type?: 'image' | 'video'
+  deepfake_score: number
+  risk_level: 'low' | 'medium' | 'high'
+  analysis_result?: MediaAnalysisResult | null
+  analysis_status?: AttachmentAnalysisStatus
+  analysis_job_id?: string | null
+  is_read: boolean
+  created_at: string
+}
+
+// pending: waiting on its analysis job; only the sender sees the message
+export type AttachmentAnalysisStatus = 'pending' | 'completed' | 'unsupported' | 'failed'
+
+export interface MessageAttachment {
+  mediaUrl: string
+  mediaType: 'image' | 'video'
+  analysis: MediaAnalysisResult | null
+  analysisStatus: AttachmentAnalysisStatus
+  analysisJobId?: string | null
+  deepfakeScore: number
+  riskLevel: 'low' | 'medium' | 'high'
+}
+
+export interface MessagePage {
+  messages: MessageWithSender[]
+  nextCursor: number | null
+}
+
+const MESSAGE_COLUMNS = `
+  id, conversation_id, sender_id, receiver_id, content, media_url, media_type,
+  deepfake_score, risk_level, analysis_result, analysis_status, analysis_job_id, is_read, created_at
+`
+
+function formatMessageRow(message: any): MessageWithSender {
+  return {
+    ...message,
+    is_read: Boolean(message.is_read),
+    analysis_result: message.analysis_result ? JSON.parse(message.analysis_result) : null
+  }
+}
+
+// Whether the analysis queue takes this attachment; anything else is
+// delivered straight away as unverified
+export function isAnalyzableAttachment(file: File, mediaType: 'image' | 'video'): boolean {
+  const supportedTypes = mediaType === 'video' ? SUPPORTED_VIDEO_TYPES : SUPPORTED_IMAGE_TYPES
+  return supportedTypes.includes(file.type)
+}
+
+// The attachment fields a finished job's verdict comes to. Failures don't
+// block delivery; the status tells the recipient the media wasn't verified.
+function attachmentVerdict(job: AnalysisJob): Omit<MessageAttachment, 'mediaUrl' | 'mediaType'> {
+  if (job.status !== 'completed' || !job.result) {
+    return { analysis: null, analysisStatus: 'failed', deepfakeScore: 0, riskLevel: 'low' }
+  }
+
+  const deepfakeScore = deepfakeScoreFromBackend(job.result.backend)
+  const processingTime = Date.now() - new Date(toIsoTimestamp(job.created_at)).getTime()
+  return {
+    analysis: toMediaAnalysisResult(
+      job.result,
+      { name: job.filename, size: job.file_size, type: job.file_type },
+      processingTime
+    ),
+    analysisStatus: 'completed',
+    deepfakeScore,
+    riskLevel: riskLevelFromScore(deepfakeScore)
+  }
+}
+
+/**
+ * Delivers the messages waiting on a finished analysis job: records the
+ * verdict, makes the attachment reachable and sends the message to both
+ * sides. Called when the job completes or fails for good, and by the send
+ * route in case the job finished before its message was stored. Messages that
+ * were already delivered are skipped, so calling it twice is harmless.
+ */
+export async function settleMessageAttachments(job: AnalysisJob): Promise<MessageWithSender[]> {
+  if (job.status !== 'completed' && job.status !== 'failed') return []
+
+  try {
+    const verdict = attachmentVerdict(job)
+
+    const settled = await withTransaction(async (db) => {
+      const rows = await db.all(
+        `SELECT id, conversation_id FROM messages WHERE analysis_job_id = ? AND analysis_status = 'pending'`,
+        [job.id]
+      )
+
+      for (const row of rows) {
+        await db.run(
+          `UPDATE messages
+           SET deepfake_score = ?, risk_level = ?, analysis_result = ?, analysis_status = ?
+           WHERE id = ?`,
+          [
+            verdict.deepfakeScore,
+            verdict.riskLevel,
+            verdict.analysis ? JSON.stringify(verdict.analysis) : null,
+            verdict.analysisStatus,
+            row.id
+          ]
+        )
+        // Later messages may have gone out while this one waited
+        await db.run(
+          `UPDATE conversations SET last_message_id = ?, updated_at = CURRENT_TIMESTAMP
+           WHERE id = ? AND (last_message_id IS NULL OR last_message_id < ?)`,
+          [row.id, row.conversation_id, row.id]
+        )
+      }
+
+      if (rows.length === 0) return []
+      const messages = await db.all(
+        `SELECT ${MESSAGE_COLUMNS} FROM messages WHERE id IN (${rows.map(() => '?').join(', ')})`,
+        rows.map((row: any) => row.id)
+      )
+      return messages.map(formatMessageRow)
+    })
+
+    for (const message of settled) {
+      if (message.media_url) await publishPendingUpload(message.media_url)
+
+      const serialized = serializeMessage(message)
+      publishToUser(message.receiver_id, { type: 'message', message: serialized })
+      publishToUser(message.sender_id, { type: 'message', message: serialized })
+    }
+
+    return settled
+  } catch (error) {
+    console.error('Error settling message attachments:', error)
+    return []
+  }
+}
+
+export async function getConversations(userId: number): Promise<ConversationWithUser[]> {
+  try {
+    const db = await getDatabase()
+
+    const conversations = await db.all(`
+      SELECT
+        c.id, c.last_message_id, c.updated_at,
+        u.id as other_user_id, u.username, u.profile_pic,
+        m.content as last_message_content,
+        m.media_url as last_message_media_url,
+        m.sender_id as last_message_sender_id,
+        (SELECT COUNT(*) FROM messages um
+         WHERE um.conversation_id = c.id AND um.receiver_id = ? AND um.is_read = 0
+           AND um.analysis_status IS NOT 'pending') as unread_count
+      FROM conversations c
+      INNER JOIN users u ON u.id = CASE WHEN c.user_a_id = ? THEN c.user_b_id ELSE c.user_a_id END
+      LEFT JOIN messages m ON m.id = c.last_message_id
+      WHERE (c.user_a_id = ? OR c.user_b_id = ?)
+        -- A conversation whose only message is still pending is the sender's alone
+        AND (c.last_message_id IS NOT NULL
+          OR EXISTS (SELECT 1 FROM messages pm WHERE pm.conversation_id = c.id AND pm.sender_id = ?))
+      ORDER BY c.updated_at DESC, c.id DESC
+    `, [userId, userId, userId, userId, userId])
+
+    return conversations
+  } catch (error) {
+    console.error('Error getting conversations:', error)
+    return []
+  }
+}
+
+export async function getConversationForUser(conversationId: number, userId: number): Promise<{ id: number; other_user_id: number } | null> {
+  try {
+    const db = await getDatabase()
+
+    const conversation = await db.get(`
+      SELECT id, CASE WHEN user_a_id = ? THEN user_b_id ELSE user_a_id END as other_user_id
+      FROM conversations
+      WHERE id = ? AND (user_a_id = ? OR user_b_id = ?)
+    `, [userId, conversationId, userId, userId])
+
+    return conversation || null
+  } catch (error) {
+    console.error('Error getting conversation:', error)
+    return null
+  }
+}
+
+// Returns the messages viewerId can see, newest first; pass nextCursor back as
+// `before` for older ones
+export async function getMessages(
+  conversationId: number,
+  viewerId: number,
+  limit: number = 30,
+  before?: number | null
+): Promise<MessagePage> {
+  try {
+    const db = await getDatabase()
+
+    const messages = await db.all(`
+      SELECT ${MESSAGE_COLUMNS}
+      FROM messages
+      WHERE conversation_id = ?
+        -- Messages still waiting on analysis are only shown to their sender
+        AND (analysis_status IS NOT 'pending' OR sender_id = ?)
+        AND (? IS NULL OR id < ?)
+      ORDER BY id DESC
+      LIMIT ?
+    `, [conversationId, viewerId, before ?? null, before ?? null, limit])
+
+    return {
+      messages: messages.map(formatMessageRow),
+      nextCursor: messages.length === limit ? messages[messages.length - 1].id : null
+    }
+  } catch (error) {
+    console.error('Error getting messages:', error)
+    return { messages: [], nextCursor: null }
+  }
+}
+
+export async function sendMessage(
+  senderId: number,
+  receiverId: number,
+  content?: string,
+  attachment?: MessageAttachment
+): Promise<MessageWithSender | null> {
+  try {
+    return await withTransaction(async (db) => {
+      const [userA, userB] = senderId < receiverId ? [senderId, receiverId] : [receiverId, senderId]
+
+      await db.run(
+        'INSERT OR IGNORE INTO conversations (user_a_id, user_b_id) VALUES (?, ?)',
+        [userA, userB]
+      )
+      const conversation = await db.get(
+        'SELECT id FROM conversations WHERE user_a_id = ? AND user_b_id = ?',
+        [userA, userB]
+      )
+
+      const result = await db.run(
+        `INSERT INTO messages 
+         (conversation_id, sender_id, receiver_id, content, media_url, media_type,
+          deepfake_score, risk_level, analysis_result, analysis_status, analysis_job_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          conversation.id, senderId, receiverId, content || null,
+          attachment?.mediaUrl || null,
+          attachment?.mediaType || null,
+          attachment?.deepfakeScore || 0,
+          attachment?.riskLevel || 'low',
+          attachment?.analysis ? JSON.stringify(attachment.analysis) : null,
+          attachment?.analysisStatus || null,
+          attachment?.analysisJobId || null
+        ]
+      )
+
+      // A pending message becomes the latest once settleMessageAttachments delivers it
+      if (attachment?.analysisStatus !== 'pending') {
+        await db.run(
+          'UPDATE conversations SET last_message_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [result.lastID, conversation.id]
+        )
+      }
+
+      const message = await db.get(
+        `SELECT ${MESSAGE_COLUMNS} FROM messages WHERE id = ?`,
+        [result.lastID]
+      )
+
+      return formatMessageRow(message)
+    })
+  } catch (error) {
+    console.error('Error sending message:', error)
+    return null
+  }
+}
+
+export async function markConversationRead(conversationId: number, userId: number): Promise<number> {
+  try {
+    const db = await getDatabase()
+
+    const result = await db.run(
+      `UPDATE messages SET is_read = 1
+       WHERE conversation_id = ? AND receiver_id = ? AND is_read = 0 AND analysis_status IS NOT 'pending'`,
+      [conversationId, userId]
+    )
+
+    return result.changes || 0
+  } catch (error) {
+    console.error('Error marking conversation read:', error)
+    return 0
+  }
+}
+
+export async function getUnreadMessageCount(userId: number): Promise<number> {
+  try {
+    const db = await getDatabase()
+
+    const row = await db.get(
+      `SELECT COUNT(*) as count FROM messages
+       WHERE receiver_id = ? AND is_read = 0 AND analysis_status IS NOT 'pending'`,
+      [userId]
+    )
+
+    return row?.count || 0
+  } catch (error) {
+    console.error('Error getting unread count:', error)
+    return 0
+  }
+}
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+function toIsoTimestamp(sqliteTimestamp: string): string {
+  return sqliteTimestamp.includes('T') ? sqliteTimestamp : `${sqliteTimestamp.replace(' ', 'T')}Z`
+}
+
+export function serializeMessage(message: MessageWithSender) {
+  return {
+    id: message.id.toString(),
+    conversationId: message.conversation_id.toString(),
+    senderId: message.sender_id.toString(),
+    receiverId: message.receiver_id.toString(),
+    content: message.content || '',
+    // Not reachable until its analysis finishes
+    mediaUrl: message.analysis_status === 'pending' ? null : message.media_url || null,
+    mediaType: message.media_type || null,
+    attachmentAnalysis: message.media_url
+      ? {
+          status: message.analysis_status || 'unsupported',
+          deepfakeScore: message.deepfake_score,
+          riskLevel: message.risk_level,
+          result: message.analysis_result || null
+        }
+      : null,
+    isRead: message.is_read,
+    createdAt: toIsoTimestamp(message.created_at)
+  }
+}
+
+export function serializeConversation(conversation: ConversationWithUser) {
+  return {
+    id: conversation.id.toString(),
+    user: {
+      id: conversation.other_user_id.toString(),
+      username: conversation.username,
+      profilePic: conversation.profile_pic || '/placeholder.svg'
+    },
+    lastMessage: conversation.last_message_id
+      ? conversation.last_message_content || (conversation.last_message_media_url ? 'Sent an attachment' : '')
+      : '',
+    lastMessageSenderId: conversation.last_message_sender_id?.toString() || null,
+    updatedAt: toIsoTimestamp(conversation.updated_at),
+    unreadCount: conversation.unread_count
+  }
+}
@@ -0,0 +1,114 @@
+import type { SqliteDatabase } from './database'
+import { migrations, LATEST_SCHEMA_VERSION, type Migration } from './migrations'
+
+export class SchemaVersionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SchemaVersionError'
+  }
+}
+
+export interface AppliedMigration {
+  version: number
+  name: string
+  applied_at: string
+}
+
+export interface SchemaStatus {
+  currentVersion: number
+  latestVersion: number
+  applied: AppliedMigration[]
+  pending: Migration[]
+}
+
+async function ensureMigrationsTable(db: SqliteDatabase) {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `)
+}
+
+async function runInTransaction(db: SqliteDatabase, work: () => Promise<void>) {
+  await db.exec('BEGIN')
+  try {
+    await work()
+    await db.exec('COMMIT')
+  } catch (error) {
+    await db.exec('ROLLBACK')
+    throw error
+  }
+}
+
+export async function getSchemaStatus(db: SqliteDatabase): Promise<SchemaStatus> {
+  await ensureMigrationsTable(db)
+
+  const applied = await db.all<AppliedMigration[]>(
+    'SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC'
+  )
+  const appliedVersions = new Set(applied.map(m => m.version))
+
+  return {
+    currentVersion: applied.length ? applied[applied.length - 1].version : 0,
+    latestVersion: LATEST_SCHEMA_VERSION,
+    applied,
+    pending: migrations.filter(m => !appliedVersions.has(m.version))
+  }
+}
+
+// Refuses to continue when the database was migrated by a newer build than
+// this one, since the code would silently read and write the wrong shape.
+export async function assertSchemaCompatible(db: SqliteDatabase): Promise<SchemaStatus> {
+  const status = await getSchemaStatus(db)
+  const known = new Set(migrations.map(m => m.version))
+  const unknown = status.applied.filter(m => !known.has(m.version))
+
+  if (status.currentVersion > status.latestVersion || unknown.length > 0) {
+    throw new SchemaVersionError(
+      `Database schema is at version ${status.currentVersion} but this build only knows up to ` +
+      `version ${status.latestVersion}. Deploy a newer build or roll the database back.`
+    )
+  }
+
+  return status
+}
+
+export async function migrateUp(db: SqliteDatabase, targetVersion: number = LATEST_SCHEMA_VERSION): Promise<Migration[]> {
+  const { pending } = await assertSchemaCompatible(db)
+  const toApply = pending.filter(m => m.version <= targetVersion)
+
+  for (const migration of toApply) {
+    await runInTransaction(db, async () => {
+      await db.exec(migration.up)
+      await db.run(
+        'INSERT INTO schema_migrations (version, name) VALUES (?, ?)',
+        [migration.version, migration.name]
+      )
+    })
+    console.log(`Applied migration ${migration.version} (${migration.name})`)
+  }
+
+  return toApply
+}
+
+export async function migrateDown(db: SqliteDatabase, steps: number = 1): Promise<Migration[]> {
+  const { applied } = await assertSchemaCompatible(db)
+  if (steps < 1) return []
+
+  const toRevert = applied
+    .slice(-steps)
+    .reverse()
+    .map(a => migrations.find(m => m.version === a.version)!)
+
+  for (const migration of toRevert) {
+    await runInTransaction(db, async () => {
+      await db.exec(migration.down)
+      await db.run('DELETE FROM schema_migrations WHERE version = ?', [migration.version])
+    })
+    console.log(`Reverted migration ${migration.version} (${migration.name})`)
+  }
+
+  return toRevert
+}
@@ -0,0 +1,118 @@
+import type { Migration } from './index'
+
+// Baseline: the tables initializeTables() used to create on every startup.
+// Everything uses IF NOT EXISTS so databases created before migrations
+// existed are adopted as version 1 without changes.
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial-schema',
+  up: `
+    CREATE TABLE IF NOT EXISTS users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      username TEXT UNIQUE NOT NULL,
+      email TEXT UNIQUE NOT NULL,
+      password_hash TEXT NOT NULL,
+      profile_pic TEXT,
+      bio TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS posts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      media_url TEXT NOT NULL,
+      media_type TEXT NOT NULL,
+      caption TEXT,
+      deepfake_score INTEGER DEFAULT 0,
+      analysis_result TEXT,
+      risk_level TEXT DEFAULT 'low',
+      ai_confirmed BOOLEAN DEFAULT FALSE,
+      likes_count INTEGER DEFAULT 0,
+      comments_count INTEGER DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id)
+    );
+
+    CREATE TABLE IF NOT EXISTS stories (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      media_url TEXT NOT NULL,
+      media_type TEXT NOT NULL,
+      deepfake_score INTEGER DEFAULT 0,
+      analysis_result TEXT,
+      risk_level TEXT DEFAULT 'low',
+      ai_confirmed BOOLEAN DEFAULT FALSE,
+      expires_at DATETIME NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id)
+    );
+
+    CREATE TABLE IF NOT EXISTS comments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      post_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      content TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (post_id) REFERENCES posts (id),
+      FOREIGN KEY (user_id) REFERENCES users (id)
+    );
+
+    CREATE TABLE IF NOT EXISTS likes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      post_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(post_id, user_id),
+      FOREIGN KEY (post_id) REFERENCES posts (id),
+      FOREIGN KEY (user_id) REFERENCES users (id)
+    );
+
+    CREATE TABLE IF NOT EXISTS story_views (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      story_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      viewed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(story_id, user_id),
+      FOREIGN KEY (story_id) REFERENCES stories (id),
+      FOREIGN KEY (user_id) REFERENCES users (id)
+    );
+
+    CREATE TABLE IF NOT EXISTS ai_analysis_logs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      content_id INTEGER NOT NULL,
+      content_type TEXT NOT NULL,
+      analysis_result TEXT NOT NULL,
+      user_confirmed BOOLEAN DEFAULT FALSE,
+      user_id INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id)
+    );
+
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      expires_at DATETIME NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_posts_created_at ON posts(created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_posts_user_id ON posts(user_id);
+    CREATE INDEX IF NOT EXISTS idx_likes_post_user ON likes(post_id, user_id);
+    CREATE INDEX IF NOT EXISTS idx_comments_post_id ON comments(post_id);
+    CREATE INDEX IF NOT EXISTS idx_stories_expires_at ON stories(expires_at);
+    CREATE INDEX IF NOT EXISTS idx_stories_user_id ON stories(user_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS sessions;
+    DROP TABLE IF EXISTS ai_analysis_logs;
+    DROP TABLE IF EXISTS story_views;
+    DROP TABLE IF EXISTS likes;
+    DROP TABLE IF EXISTS comments;
+    DROP TABLE IF EXISTS stories;
+    DROP TABLE IF EXISTS posts;
+    DROP TABLE IF EXISTS users;
+  `
+}
@@ -0,0 +1,57 @@
+import type { Migration } from './index'
+
+// Brings in the parts of scripts/database-schema.sql the runtime schema never
+// created: follows, messages, deepfake_analyses and users.is_verified.
+export const referenceSchemaTables: Migration = {
+  version: 2,
+  name: 'reference-schema-tables',
+  up: `
+    ALTER TABLE users ADD COLUMN is_verified BOOLEAN DEFAULT FALSE;
+
+    CREATE TABLE follows (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      follower_id INTEGER NOT NULL,
+      following_id INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(follower_id, following_id),
+      FOREIGN KEY (follower_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (following_id) REFERENCES users (id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      sender_id INTEGER NOT NULL,
+      receiver_id INTEGER NOT NULL,
+      content TEXT,
+      media_url TEXT,
+      is_read BOOLEAN DEFAULT FALSE,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (sender_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (receiver_id) REFERENCES users (id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE deepfake_analyses (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      post_id INTEGER,
+      story_id INTEGER,
+      confidence_score INTEGER NOT NULL,
+      model_version TEXT,
+      analysis_details TEXT,
+      processing_time_ms INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (post_id) REFERENCES posts (id) ON DELETE CASCADE,
+      FOREIGN KEY (story_id) REFERENCES stories (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX idx_follows_follower_id ON follows(follower_id);
+    CREATE INDEX idx_follows_following_id ON follows(following_id);
+    CREATE INDEX idx_messages_sender_receiver ON messages(sender_id, receiver_id);
+    CREATE INDEX idx_deepfake_analyses_confidence ON deepfake_analyses(confidence_score);
+  `,
+  down: `
+    DROP TABLE IF EXISTS deepfake_analyses;
+    DROP TABLE IF EXISTS messages;
+    DROP TABLE IF EXISTS follows;
+    ALTER TABLE users DROP COLUMN is_verified;
+  `
+}
@@ -0,0 +1,53 @@
+import type { Migration } from './index'
+
+// One conversation per pair of users (user_a_id is always the lower id) and a
+// conversation_id on messages. Existing rows are grouped into conversations.
+export const conversations: Migration = {
+  version: 3,
+  name: 'conversations',
+  up: `
+    CREATE TABLE conversations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_a_id INTEGER NOT NULL,
+      user_b_id INTEGER NOT NULL,
+      last_message_id INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(user_a_id, user_b_id),
+      CHECK (user_a_id < user_b_id),
+      FOREIGN KEY (user_a_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (user_b_id) REFERENCES users (id) ON DELETE CASCADE
+    );
+
+    ALTER TABLE messages ADD COLUMN conversation_id INTEGER;
+
+    INSERT INTO conversations (user_a_id, user_b_id)
+      SELECT DISTINCT MIN(sender_id, receiver_id), MAX(sender_id, receiver_id)
+      FROM messages
+      WHERE sender_id != receiver_id;
+
+    UPDATE messages SET conversation_id = (
+      SELECT c.id FROM conversations c
+      WHERE c.user_a_id = MIN(messages.sender_id, messages.receiver_id)
+        AND c.user_b_id = MAX(messages.sender_id, messages.receiver_id)
+    );
+
+    UPDATE conversations SET
+      last_message_id = (SELECT MAX(m.id) FROM messages m WHERE m.conversation_id = conversations.id),
+      updated_at = COALESCE(
+        (SELECT MAX(m.created_at) FROM messages m WHERE m.conversation_id = conversations.id),
+        updated_at
+      );
+
+    CREATE INDEX idx_conversations_user_a ON conversations(user_a_id, updated_at DESC);
+    CREATE INDEX idx_conversations_user_b ON conversations(user_b_id, updated_at DESC);
+    CREATE INDEX idx_messages_conversation_id ON messages(conversation_id, id DESC);
+    CREATE INDEX idx_messages_receiver_unread ON messages(receiver_id, is_read);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_messages_receiver_unread;
+    DROP INDEX IF EXISTS idx_messages_conversation_id;
+    ALTER TABLE messages DROP COLUMN conversation_id;
+    DROP TABLE IF EXISTS conversations;
+  `
+}
@@ -0,0 +1,22 @@
+import type { Migration } from './index'
+
+// Deepfake analysis for media sent in direct messages, mirroring the columns
+// posts and stories carry. analysis_status records whether a verdict exists.
+export const messageAttachmentAnalysis: Migration = {
+  version: 4,
+  name: 'message-attachment-analysis',
+  up: `
+    ALTER TABLE messages ADD COLUMN media_type TEXT;
+    ALTER TABLE messages ADD COLUMN deepfake_score INTEGER DEFAULT 0;
+    ALTER TABLE messages ADD COLUMN risk_level TEXT DEFAULT 'low';
+    ALTER TABLE messages ADD COLUMN analysis_result TEXT;
+    ALTER TABLE messages ADD COLUMN analysis_status TEXT;
+  `,
+  down: `
+    ALTER TABLE messages DROP COLUMN analysis_status;
+    ALTER TABLE messages DROP COLUMN analysis_result;
+    ALTER TABLE messages DROP COLUMN risk_level;
+    ALTER TABLE messages DROP COLUMN deepfake_score;
+    ALTER TABLE messages DROP COLUMN media_type;
+  `
+}
@@ -0,0 +1,20 @@
+import type { Migration } from './index'
+
+// One level of comment replies. parent_id points at a top-level comment on
+// the same post; updated_at is set when the author edits.
+export const commentThreads: Migration = {
+  version: 5,
+  name: 'comment-threads',
+  up: `
+    ALTER TABLE comments ADD COLUMN parent_id INTEGER;
+    ALTER TABLE comments ADD COLUMN updated_at DATETIME;
+
+    CREATE INDEX IF NOT EXISTS idx_comments_parent_id ON comments(parent_id);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_comments_parent_id;
+
+    ALTER TABLE comments DROP COLUMN updated_at;
+    ALTER TABLE comments DROP COLUMN parent_id;
+  `
+}
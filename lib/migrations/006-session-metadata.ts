@@ -0,0 +1,24 @@
+import type { Migration } from './index'
+
+// Sessions back the HttpOnly login cookie. The id column holds a SHA-256 of
+// the cookie value; these columns let users see and revoke their devices.
+export const sessionMetadata: Migration = {
+  version: 6,
+  name: 'session-metadata',
+  up: `
+    ALTER TABLE sessions ADD COLUMN user_agent TEXT;
+    ALTER TABLE sessions ADD COLUMN ip_address TEXT;
+    ALTER TABLE sessions ADD COLUMN last_seen_at DATETIME;
+
+    CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
+    CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_sessions_expires_at;
+    DROP INDEX IF EXISTS idx_sessions_user_id;
+
+    ALTER TABLE sessions DROP COLUMN last_seen_at;
+    ALTER TABLE sessions DROP COLUMN ip_address;
+    ALTER TABLE sessions DROP COLUMN user_agent;
+  `
+}
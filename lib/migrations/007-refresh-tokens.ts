@@ -0,0 +1,30 @@
+import type { Migration } from './index'
+
+// Rotating refresh tokens for API clients. Each login starts a family; every
+// refresh marks the presented token used and issues its successor.
+export const refreshTokens: Migration = {
+  version: 7,
+  name: 'refresh-tokens',
+  up: `
+    CREATE TABLE refresh_tokens (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      family_id TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      expires_at DATETIME NOT NULL,
+      used_at DATETIME,
+      revoked_at DATETIME,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+    CREATE INDEX idx_refresh_tokens_family_id ON refresh_tokens(family_id);
+    CREATE INDEX idx_refresh_tokens_expires_at ON refresh_tokens(expires_at);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_refresh_tokens_expires_at;
+    DROP INDEX IF EXISTS idx_refresh_tokens_family_id;
+    DROP INDEX IF EXISTS idx_refresh_tokens_user_id;
+    DROP TABLE IF EXISTS refresh_tokens;
+  `
+}
@@ -0,0 +1,31 @@
+import type { Migration } from './index'
+
+// Email verification state on users, and the single-use record for signed
+// email tokens (verification and password reset links)
+export const emailVerification: Migration = {
+  version: 8,
+  name: 'email-verification',
+  up: `
+    ALTER TABLE users ADD COLUMN email_verified_at DATETIME;
+
+    CREATE TABLE email_tokens (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      purpose TEXT NOT NULL CHECK (purpose IN ('verify_email', 'reset_password')),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      expires_at DATETIME NOT NULL,
+      used_at DATETIME,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX idx_email_tokens_user_purpose ON email_tokens(user_id, purpose);
+    CREATE INDEX idx_email_tokens_expires_at ON email_tokens(expires_at);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_email_tokens_expires_at;
+    DROP INDEX IF EXISTS idx_email_tokens_user_purpose;
+    DROP TABLE IF EXISTS email_tokens;
+
+    ALTER TABLE users DROP COLUMN email_verified_at;
+  `
+}
@@ -0,0 +1,34 @@
+import type { Migration } from './index'
+
+// Account roles (moderators must use 2FA), TOTP enrollment on users, and
+// hashed single-use recovery codes
+export const twoFactor: Migration = {
+  version: 9,
+  name: 'two-factor',
+  up: `
+    ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'user';
+    ALTER TABLE users ADD COLUMN totp_secret TEXT;
+    ALTER TABLE users ADD COLUMN totp_enabled_at DATETIME;
+    ALTER TABLE users ADD COLUMN totp_last_step INTEGER;
+
+    CREATE TABLE two_factor_recovery_codes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      code_hash TEXT NOT NULL,
+      used_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX idx_recovery_codes_user_id ON two_factor_recovery_codes(user_id);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_recovery_codes_user_id;
+    DROP TABLE IF EXISTS two_factor_recovery_codes;
+
+    ALTER TABLE users DROP COLUMN totp_last_step;
+    ALTER TABLE users DROP COLUMN totp_enabled_at;
+    ALTER TABLE users DROP COLUMN totp_secret;
+    ALTER TABLE users DROP COLUMN role;
+  `
+}
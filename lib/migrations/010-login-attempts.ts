@@ -0,0 +1,31 @@
+import type { Migration } from './index'
+
+// Audit trail of sign-in attempts, also used to throttle repeated failures
+// per account and per IP address
+export const loginAttempts: Migration = {
+  version: 10,
+  name: 'login-attempts',
+  up: `
+    CREATE TABLE login_attempts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      identifier TEXT NOT NULL,
+      user_id INTEGER,
+      ip_address TEXT,
+      user_agent TEXT,
+      success BOOLEAN NOT NULL DEFAULT FALSE,
+      reason TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE SET NULL
+    );
+
+    CREATE INDEX idx_login_attempts_user_id ON login_attempts(user_id, created_at);
+    CREATE INDEX idx_login_attempts_identifier ON login_attempts(identifier, created_at);
+    CREATE INDEX idx_login_attempts_ip_address ON login_attempts(ip_address, created_at);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_login_attempts_ip_address;
+    DROP INDEX IF EXISTS idx_login_attempts_identifier;
+    DROP INDEX IF EXISTS idx_login_attempts_user_id;
+    DROP TABLE IF EXISTS login_attempts;
+  `
+}
@@ -0,0 +1,50 @@
+import type { Migration } from './index'
+
+// Moderation status on posts and stories, plus an audit log of every
+// moderator decision. High-risk content already posted goes to the queue.
+export const moderation: Migration = {
+  version: 11,
+  name: 'moderation',
+  up: `
+    ALTER TABLE posts ADD COLUMN moderation_status TEXT NOT NULL DEFAULT 'published';
+    ALTER TABLE posts ADD COLUMN moderation_reason TEXT;
+    ALTER TABLE posts ADD COLUMN flagged_at DATETIME;
+    ALTER TABLE stories ADD COLUMN moderation_status TEXT NOT NULL DEFAULT 'published';
+    ALTER TABLE stories ADD COLUMN moderation_reason TEXT;
+    ALTER TABLE stories ADD COLUMN flagged_at DATETIME;
+
+    UPDATE posts SET moderation_status = 'pending_review', moderation_reason = 'high_risk', flagged_at = created_at
+    WHERE risk_level = 'high';
+    UPDATE stories SET moderation_status = 'pending_review', moderation_reason = 'high_risk', flagged_at = created_at
+    WHERE risk_level = 'high';
+
+    CREATE TABLE moderation_decisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      content_type TEXT NOT NULL CHECK (content_type IN ('post', 'story')),
+      content_id INTEGER NOT NULL,
+      moderator_id INTEGER,
+      decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected')),
+      reason TEXT,
+      note TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (moderator_id) REFERENCES users (id) ON DELETE SET NULL
+    );
+
+    CREATE INDEX idx_posts_moderation_status ON posts(moderation_status, flagged_at);
+    CREATE INDEX idx_stories_moderation_status ON stories(moderation_status, flagged_at);
+    CREATE INDEX idx_moderation_decisions_content ON moderation_decisions(content_type, content_id, created_at);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_moderation_decisions_content;
+    DROP INDEX IF EXISTS idx_stories_moderation_status;
+    DROP INDEX IF EXISTS idx_posts_moderation_status;
+    DROP TABLE IF EXISTS moderation_decisions;
+
+    ALTER TABLE stories DROP COLUMN flagged_at;
+    ALTER TABLE stories DROP COLUMN moderation_reason;
+    ALTER TABLE stories DROP COLUMN moderation_status;
+    ALTER TABLE posts DROP COLUMN flagged_at;
+    ALTER TABLE posts DROP COLUMN moderation_reason;
+    ALTER TABLE posts DROP COLUMN moderation_status;
+  `
+}
@@ -0,0 +1,34 @@
+import type { Migration } from './index'
+
+// User reports against posts, stories, comments and profiles. Each user can
+// report a given target once.
+export const reports: Migration = {
+  version: 12,
+  name: 'reports',
+  up: `
+    CREATE TABLE reports (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      reporter_id INTEGER NOT NULL,
+      target_type TEXT NOT NULL CHECK (target_type IN ('post', 'story', 'comment', 'user')),
+      target_id INTEGER NOT NULL,
+      reason TEXT NOT NULL CHECK (reason IN ('deepfake', 'impersonation', 'harassment', 'spam')),
+      details TEXT,
+      status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'escalated', 'resolved', 'dismissed')),
+      resolved_by INTEGER,
+      resolved_at DATETIME,
+      resolution_note TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (reporter_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (resolved_by) REFERENCES users (id) ON DELETE SET NULL,
+      UNIQUE (reporter_id, target_type, target_id)
+    );
+
+    CREATE INDEX idx_reports_target ON reports(target_type, target_id, status);
+    CREATE INDEX idx_reports_status ON reports(status, created_at);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_reports_status;
+    DROP INDEX IF EXISTS idx_reports_target;
+    DROP TABLE IF EXISTS reports;
+  `
+}
@@ -0,0 +1,44 @@
+import type { Migration } from './index'
+
+// Creator appeals against flagged posts and stories, and the reviewed verdict
+// that replaces the model's badge. The model's own score is left untouched.
+export const appeals: Migration = {
+  version: 13,
+  name: 'appeals',
+  up: `
+    ALTER TABLE posts ADD COLUMN review_verdict TEXT;
+    ALTER TABLE posts ADD COLUMN review_verdict_at DATETIME;
+    ALTER TABLE stories ADD COLUMN review_verdict TEXT;
+    ALTER TABLE stories ADD COLUMN review_verdict_at DATETIME;
+
+    CREATE TABLE appeals (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      content_type TEXT NOT NULL CHECK (content_type IN ('post', 'story')),
+      content_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      explanation TEXT NOT NULL,
+      evidence_url TEXT,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'denied')),
+      moderator_id INTEGER,
+      decision_note TEXT,
+      decided_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (moderator_id) REFERENCES users (id) ON DELETE SET NULL,
+      UNIQUE (content_type, content_id)
+    );
+
+    CREATE INDEX idx_appeals_status ON appeals(status, created_at);
+    CREATE INDEX idx_appeals_user ON appeals(user_id, created_at);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_appeals_user;
+    DROP INDEX IF EXISTS idx_appeals_status;
+    DROP TABLE IF EXISTS appeals;
+
+    ALTER TABLE stories DROP COLUMN review_verdict_at;
+    ALTER TABLE stories DROP COLUMN review_verdict;
+    ALTER TABLE posts DROP COLUMN review_verdict_at;
+    ALTER TABLE posts DROP COLUMN review_verdict;
+  `
+}
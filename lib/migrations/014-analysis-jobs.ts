@@ -0,0 +1,36 @@
+import type { Migration } from './index'
+
+// Queued deepfake analyses. The upload waits on disk at file_path until the
+// worker has sent it to the backend.
+export const analysisJobs: Migration = {
+  version: 14,
+  name: 'analysis-jobs',
+  up: `
+    CREATE TABLE analysis_jobs (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER,
+      status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+      progress INTEGER NOT NULL DEFAULT 0,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      file_path TEXT,
+      filename TEXT NOT NULL,
+      file_type TEXT NOT NULL,
+      file_size INTEGER NOT NULL,
+      result TEXT,
+      error TEXT,
+      next_attempt_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      started_at DATETIME,
+      completed_at DATETIME,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX idx_analysis_jobs_queue ON analysis_jobs(status, next_attempt_at, created_at);
+    CREATE INDEX idx_analysis_jobs_completed_at ON analysis_jobs(completed_at);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_analysis_jobs_completed_at;
+    DROP INDEX IF EXISTS idx_analysis_jobs_queue;
+    DROP TABLE IF EXISTS analysis_jobs;
+  `
+}
@@ -0,0 +1,32 @@
+import type { Migration } from './index'
+
+// Backend verdicts keyed by upload SHA-256 and model version, so re-uploads of
+// the same clip skip the models. analysis_jobs remembers the hash too.
+export const analysisCache: Migration = {
+  version: 15,
+  name: 'analysis-cache',
+  up: `
+    CREATE TABLE analysis_cache (
+      content_hash TEXT NOT NULL,
+      model_version TEXT NOT NULL,
+      perceptual_hash TEXT,
+      result TEXT NOT NULL,
+      hits INTEGER NOT NULL DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_hit_at DATETIME,
+      PRIMARY KEY (content_hash, model_version)
+    );
+
+    CREATE INDEX idx_analysis_cache_perceptual_hash ON analysis_cache(model_version, perceptual_hash);
+
+    ALTER TABLE analysis_jobs ADD COLUMN content_hash TEXT;
+    CREATE INDEX idx_analysis_jobs_content_hash ON analysis_jobs(content_hash, status);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_analysis_jobs_content_hash;
+    ALTER TABLE analysis_jobs DROP COLUMN content_hash;
+
+    DROP INDEX IF EXISTS idx_analysis_cache_perceptual_hash;
+    DROP TABLE IF EXISTS analysis_cache;
+  `
+}
@@ -0,0 +1,22 @@
+import type { Migration } from './index'
+
+// Per-keyframe perceptual hashes of posts and stories a moderator confirmed as
+// manipulated. Uploads are checked against them before the models run.
+export const knownFakes: Migration = {
+  version: 16,
+  name: 'known-fakes',
+  up: `
+    CREATE TABLE known_fake_hashes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      content_type TEXT NOT NULL CHECK (content_type IN ('post', 'story')),
+      content_id INTEGER NOT NULL,
+      frame_index INTEGER NOT NULL,
+      hash TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(content_type, content_id, frame_index)
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS known_fake_hashes;
+  `
+}
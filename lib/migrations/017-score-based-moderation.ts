@@ -0,0 +1,33 @@
+import type { Migration } from './index'
+
+// Holding uploads for review used to go by risk_level, which follows the
+// model's confidence in whichever label it predicted, so confidently authentic
+// media was held too. Stories also stored that confidence as their
+// deepfake_score. Recomputes story scores from the stored backend answer,
+// re-derives risk_level from the score, and publishes anything held only for
+// high risk whose score doesn't call for it.
+export const scoreBasedModeration: Migration = {
+  version: 17,
+  name: 'score-based-moderation',
+  up: `
+    UPDATE stories SET deepfake_score = CASE
+        WHEN json_extract(analysis_result, '$.backendInfo.prediction') = 'Real'
+          THEN ROUND((1 - json_extract(analysis_result, '$.backendInfo.confidence')) * 100)
+        ELSE ROUND(json_extract(analysis_result, '$.backendInfo.confidence') * 100)
+      END
+    WHERE json_valid(analysis_result)
+      AND json_extract(analysis_result, '$.backendInfo.confidence') IS NOT NULL;
+
+    UPDATE posts SET risk_level = CASE
+      WHEN deepfake_score > 75 THEN 'high' WHEN deepfake_score > 50 THEN 'medium' ELSE 'low' END;
+    UPDATE stories SET risk_level = CASE
+      WHEN deepfake_score > 75 THEN 'high' WHEN deepfake_score > 50 THEN 'medium' ELSE 'low' END;
+
+    UPDATE posts SET moderation_status = 'published', moderation_reason = NULL, flagged_at = NULL
+    WHERE moderation_status = 'pending_review' AND moderation_reason = 'high_risk' AND deepfake_score <= 75;
+    UPDATE stories SET moderation_status = 'published', moderation_reason = NULL, flagged_at = NULL
+    WHERE moderation_status = 'pending_review' AND moderation_reason = 'high_risk' AND deepfake_score <= 75;
+  `,
+  // Data only; the old scores and holds were wrong and aren't restored
+  down: ''
+}
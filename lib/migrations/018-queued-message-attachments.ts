@@ -0,0 +1,17 @@
+import type { Migration } from './index'
+
+// DM attachments go through the analysis queue like posts and stories. A
+// message waits with analysis_status 'pending' until its job finishes; only
+// then does the recipient see it.
+export const queuedMessageAttachments: Migration = {
+  version: 18,
+  name: 'queued-message-attachments',
+  up: `
+    ALTER TABLE messages ADD COLUMN analysis_job_id TEXT;
+    CREATE INDEX IF NOT EXISTS idx_messages_analysis_job ON messages(analysis_job_id);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_messages_analysis_job;
+    ALTER TABLE messages DROP COLUMN analysis_job_id;
+  `
+}
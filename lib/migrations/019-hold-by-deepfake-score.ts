@@ -0,0 +1,24 @@
+import type { Migration } from './index'
+
+// Migration 011 queued content already posted by risk_level. Uploads are now
+// held by deepfake_score instead, so this queues anything still published
+// that scores above 75 and that no moderator has ruled on. Runs after 017 has
+// recomputed story scores.
+export const holdByDeepfakeScore: Migration = {
+  version: 19,
+  name: 'hold-by-deepfake-score',
+  up: `
+    UPDATE posts SET moderation_status = 'pending_review', moderation_reason = 'high_risk', flagged_at = created_at
+    WHERE moderation_status = 'published' AND deepfake_score > 75
+      AND NOT EXISTS (
+        SELECT 1 FROM moderation_decisions d WHERE d.content_type = 'post' AND d.content_id = posts.id
+      );
+    UPDATE stories SET moderation_status = 'pending_review', moderation_reason = 'high_risk', flagged_at = created_at
+    WHERE moderation_status = 'published' AND deepfake_score > 75
+      AND NOT EXISTS (
+        SELECT 1 FROM moderation_decisions d WHERE d.content_type = 'story' AND d.content_id = stories.id
+      );
+  `,
+  // Data only; releasing these again would publish likely deepfakes
+  down: ''
+}
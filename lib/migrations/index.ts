@@ -0,0 +1,51 @@
+import { initialSchema } from './001-initial-schema'
+import { referenceSchemaTables } from './002-reference-schema-tables'
+import { conversations } from './003-conversations'
+import { messageAttachmentAnalysis } from './004-message-attachment-analysis'
+import { commentThreads } from './005-comment-threads'
+import { sessionMetadata } from './006-session-metadata'
+import { refreshTokens } from './007-refresh-tokens'
+import { emailVerification } from './008-email-verification'
+import { twoFactor } from './009-two-factor'
+import { loginAttempts } from './010-login-attempts'
+import { moderation } from './011-moderation'
+import { reports } from './012-reports'
+import { appeals } from './013-appeals'
+import { analysisJobs } from './014-analysis-jobs'
+import { analysisCache } from './015-analysis-cache'
+import { knownFakes } from './016-known-fakes'
+import { scoreBasedModeration } from './017-score-based-moderation'
+import { queuedMessageAttachments } from './018-queued-message-attachments'
+import { holdByDeepfakeScore } from './019-hold-by-deepfake-score'
+
+export interface Migration {
+  version: number
+  name: string
+  up: string
+  down: string
+}
+
+// Ordered by version. Never edit a migration that has shipped; add a new one.
+export const migrations: Migration[] = [
+  initialSchema,
+  referenceSchemaTables,
+  conversations,
+  messageAttachmentAnalysis,
+  commentThreads,
+  sessionMetadata,
+  refreshTokens,
+  emailVerification,
+  twoFactor,
+  loginAttempts,
+  moderation,
+  reports,
+  appeals,
+  analysisJobs,
+  analysisCache,
+  knownFakes,
+  scoreBasedModeration,
+  queuedMessageAttachments,
+  holdByDeepfakeScore,
+]
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version
@@ -0,0 +1,293 @@
+import { getDatabase, withTransaction, type SqliteDatabase } from './database'
+import { riskLevelFromScore } from './deepfake-detection'
+import { recordKnownFake } from './known-fakes'
+import { publishToUser } from './realtime'
+
+export type ModerationContentType = 'post' | 'story'
+
+// published: never needed review. pending_review: hidden from everyone but
+// its author until a moderator decides. approved/rejected: decided.
+export type ModerationStatus = 'published' | 'pending_review' | 'approved' | 'rejected'
+
+export type ModerationDecision = 'approved' | 'rejected'
+
+export type ModerationReason = 'high_risk' | 'reported'
+
+// A moderator's final call on whether media is genuine. Shown instead of the
+// model's score; the score and analysis result are kept as they were.
+export type ReviewVerdict = 'authentic' | 'manipulated'
+
+export const MODERATION_CONTENT_TYPES: ModerationContentType[] = ['post', 'story']
+
+export const MAX_MODERATION_NOTE_LENGTH = 500
+
+const CONTENT_TABLES: Record<ModerationContentType, string> = {
+  post: 'posts',
+  story: 'stories',
+}
+
+export interface ModerationItem {
+  content_type: ModerationContentType
+  id: number
+  user_id: number
+  username: string
+  profile_pic?: string
+  media_url: string
+  media_type: string
+  caption: string | null
+  deepfake_score: number
+  risk_level: 'low' | 'medium' | 'high'
+  ai_confirmed: boolean
+  analysis_result: any
+  moderation_status: ModerationStatus
+  moderation_reason: ModerationReason | null
+  flagged_at: string | null
+  review_verdict: ReviewVerdict | null
+  created_at: string
+  decided_at: string | null
+  decision_note: string | null
+  moderator_username: string | null
+  report_count: number
+  report_reasons: string[]
+}
+
+// Where new content starts: uploads the model rates as likely manipulated
+// wait for a moderator even if the uploader confirmed them in
+// AIConfirmationDialog. Goes by deepfake_score, not the analysis' riskLevel,
+// which is high for confidently authentic media too.
+export function getInitialModeration(deepfakeScore: number): { status: ModerationStatus; reason: ModerationReason | null } {
+  return riskLevelFromScore(deepfakeScore) === 'high'
+    ? { status: 'pending_review', reason: 'high_risk' }
+    : { status: 'published', reason: null }
+}
+
+// One SELECT per content type, each joined to its latest decision
+function moderationSelect(contentType: ModerationContentType): string {
+  const table = CONTENT_TABLES[contentType]
+  const caption = contentType === 'post' ? 'c.caption' : 'NULL'
+
+  return `
+    SELECT
+      '${contentType}' AS content_type, c.id, c.user_id, u.username, u.profile_pic,
+      c.media_url, c.media_type, ${caption} AS caption,
+      c.deepfake_score, c.risk_level, c.ai_confirmed, c.analysis_result,
+      c.moderation_status, c.moderation_reason, c.flagged_at, c.review_verdict, c.created_at,
+      d.created_at AS decided_at, d.note AS decision_note, m.username AS moderator_username,
+      (
+        SELECT COUNT(*) FROM reports r
+        WHERE r.target_type = '${contentType}' AND r.target_id = c.id AND r.status IN ('open', 'escalated')
+      ) AS report_count,
+      (
+        SELECT GROUP_CONCAT(DISTINCT r.reason) FROM reports r
+        WHERE r.target_type = '${contentType}' AND r.target_id = c.id AND r.status IN ('open', 'escalated')
+      ) AS report_reasons
+    FROM ${table} c
+    JOIN users u ON u.id = c.user_id
+    LEFT JOIN moderation_decisions d ON d.id = (
+      SELECT MAX(id) FROM moderation_decisions
+      WHERE content_type = '${contentType}' AND content_id = c.id
+    )
+    LEFT JOIN users m ON m.id = d.moderator_id
+  `
+}
+
+function formatModerationRow(row: any): ModerationItem {
+  return {
+    ...row,
+    ai_confirmed: Boolean(row.ai_confirmed),
+    analysis_result: row.analysis_result ? JSON.parse(row.analysis_result) : null,
+    report_reasons: row.report_reasons ? row.report_reasons.split(',') : []
+  }
+}
+
+/**
+ * Lists posts and stories with the given status. The pending queue is
+ * oldest-flagged first so nothing waits forever; decided items are most
+ * recent decision first.
+ */
+export async function getModerationQueue(
+  status: Exclude<ModerationStatus, 'published'> = 'pending_review',
+  options: { contentType?: ModerationContentType; limit?: number; offset?: number } = {}
+): Promise<ModerationItem[]> {
+  const { contentType, limit = 20, offset = 0 } = options
+
+  try {
+    const db = await getDatabase()
+    const types = contentType ? [contentType] : MODERATION_CONTENT_TYPES
+    const union = types
+      .map(type => `${moderationSelect(type)} WHERE c.moderation_status = ?`)
+      .join(' UNION ALL ')
+    const order = status === 'pending_review'
+      ? 'flagged_at ASC, created_at ASC'
+      : 'decided_at DESC, created_at DESC'
+
+    const rows = await db.all(
+      `SELECT * FROM (${union}) ORDER BY ${order} LIMIT ? OFFSET ?`,
+      [...types.map(() => status), limit, offset]
+    )
+    return rows.map(formatModerationRow)
+  } catch (error) {
+    console.error('Error getting moderation queue:', error)
+    return []
+  }
+}
+
+export async function countPendingReview(): Promise<number> {
+  try {
+    const db = await getDatabase()
+    const row = await db.get(`
+      SELECT
+        (SELECT COUNT(*) FROM posts WHERE moderation_status = 'pending_review')
+        + (SELECT COUNT(*) FROM stories WHERE moderation_status = 'pending_review') AS pending
+    `)
+    return row?.pending || 0
+  } catch (error) {
+    console.error('Error counting pending review:', error)
+    return 0
+  }
+}
+
+export async function getModerationItem(contentType: ModerationContentType, contentId: number): Promise<ModerationItem | null> {
+  try {
+    const db = await getDatabase()
+    const row = await db.get(`${moderationSelect(contentType)} WHERE c.id = ?`, [contentId])
+    return row ? formatModerationRow(row) : null
+  } catch (error) {
+    console.error('Error getting moderation item:', error)
+    return null
+  }
+}
+
+// Sends visible content to the queue, including content a moderator approved
+// before (reports can bring new reasons to look again). Rejected or already
+// waiting content is left alone. Returns whether it was queued.
+export async function flagForReview(
+  contentType: ModerationContentType,
+  contentId: number,
+  reason: ModerationReason
+): Promise<boolean> {
+  try {
+    const db = await getDatabase()
+    const result = await db.run(
+      `UPDATE ${CONTENT_TABLES[contentType]}
+       SET moderation_status = 'pending_review', moderation_reason = ?, flagged_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND moderation_status IN ('published', 'approved')`,
+      [reason, contentId]
+    )
+    return result.changes === 1
+  } catch (error) {
+    console.error('Error flagging content for review:', error)
+    return false
+  }
+}
+
+// Sets the status, writes the audit row and settles reports against the item:
+// upheld if it's rejected, dismissed if it's approved. Runs inside the
+// caller's transaction.
+export async function applyModerationDecision(
+  db: SqliteDatabase,
+  contentType: ModerationContentType,
+  contentId: number,
+  moderatorId: number,
+  decision: ModerationDecision,
+  reason: ModerationReason | null,
+  note?: string | null
+) {
+  await db.run(`UPDATE ${CONTENT_TABLES[contentType]} SET moderation_status = ? WHERE id = ?`, [decision, contentId])
+  await db.run(
+    `INSERT INTO moderation_decisions (content_type, content_id, moderator_id, decision, reason, note)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [contentType, contentId, moderatorId, decision, reason, note || null]
+  )
+  await db.run(
+    `UPDATE reports
+     SET status = ?, resolved_by = ?, resolved_at = CURRENT_TIMESTAMP, resolution_note = ?
+     WHERE target_type = ? AND target_id = ? AND status IN ('open', 'escalated')`,
+    [decision === 'rejected' ? 'resolved' : 'dismissed', moderatorId, note || null, contentType, contentId]
+  )
+}
+
+/**
+ * Records a moderator's decision on pending content and tells the author.
+ * Every decision is kept in moderation_decisions for audit. Returns the
+ * updated item, or null if it doesn't exist or isn't pending any more
+ * (another moderator got there first).
+ */
+export async function decideModeration(
+  contentType: ModerationContentType,
+  contentId: number,
+  moderatorId: number,
+  decision: ModerationDecision,
+  note?: string | null
+): Promise<ModerationItem | null> {
+  try {
+    const decided = await withTransaction(async (db) => {
+      const row = await db.get(
+        `SELECT moderation_reason FROM ${CONTENT_TABLES[contentType]} WHERE id = ? AND moderation_status = 'pending_review'`,
+        [contentId]
+      )
+      if (!row) return false
+
+      await applyModerationDecision(db, contentType, contentId, moderatorId, decision, row.moderation_reason, note)
+      return true
+    })
+    if (!decided) return null
+
+    const item = await getModerationItem(contentType, contentId)
+    if (item) {
+      publishToUser(item.user_id, {
+        type: 'moderation_decision',
+        contentType,
+        contentId: contentId.toString(),
+        decision
+      })
+      // Held because the detector flagged it, and the moderator agreed
+      if (decision === 'rejected' && item.moderation_reason === 'high_risk') {
+        void recordKnownFake(contentType, contentId)
+      }
+    }
+    return item
+  } catch (error) {
+    console.error('Error recording moderation decision:', error)
+    return null
+  }
+}
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+function toIsoTimestamp(timestamp: string | null): string | null {
+  if (!timestamp) return null
+  return new Date(timestamp.includes('T') ? timestamp : `${timestamp.replace(' ', 'T')}Z`).toISOString()
+}
+
+export function serializeModerationItem(item: ModerationItem) {
+  return {
+    contentType: item.content_type,
+    id: item.id.toString(),
+    user: {
+      id: item.user_id.toString(),
+      username: item.username,
+      profilePic: item.profile_pic || '/placeholder.svg'
+    },
+    mediaUrl: item.media_url,
+    mediaType: item.media_type,
+    caption: item.caption,
+    deepfakeScore: item.deepfake_score,
+    riskLevel: item.risk_level,
+    aiConfirmed: item.ai_confirmed,
+    analysisResult: item.analysis_result,
+    status: item.moderation_status,
+    reason: item.moderation_reason,
+    flaggedAt: toIsoTimestamp(item.flagged_at),
+    verdict: item.review_verdict,
+    reports: {
+      count: item.report_count,
+      reasons: item.report_reasons
+    },
+    createdAt: toIsoTimestamp(item.created_at),
+    decision: item.decided_at ? {
+      decidedAt: toIsoTimestamp(item.decided_at),
+      moderator: item.moderator_username,
+      note: item.decision_note
+    } : null
+  }
+}
@@ -0,0 +1,40 @@
+import type { AuthUser, UserRole } from './auth'
+
+export const USER_ROLES: UserRole[] = ['user', 'moderator', 'admin']
+
+export type Permission =
+  | 'content:moderate'
+  | 'users:manage_roles'
+  | 'maintenance:run'
+
+// Each role can do everything the roles below it can
+const ROLE_RANK: Record<UserRole, number> = {
+  user: 0,
+  moderator: 1,
+  admin: 2,
+}
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  user: [],
+  moderator: ['content:moderate'],
+  admin: ['content:moderate', 'users:manage_roles', 'maintenance:run'],
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && USER_ROLES.includes(value as UserRole)
+}
+
+// True if the user has this role or a higher one. Unknown roles (a typo in
+// the database) get nothing.
+export function hasRole(user: Pick<AuthUser, 'role'>, role: UserRole): boolean {
+  const rank = ROLE_RANK[user.role]
+  return rank !== undefined && rank >= ROLE_RANK[role]
+}
+
+export function hasPermission(user: Pick<AuthUser, 'role'>, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[user.role]?.includes(permission) ?? false
+}
+
+export function getPermissions(role: UserRole): Permission[] {
+  return ROLE_PERMISSIONS[role] ?? []
+}
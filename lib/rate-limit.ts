@@ -0,0 +1,47 @@
+// Fixed-window request counters for routes that send something on the
+// caller's behalf or queue work for the backend. Counters live in this server process only; a
+// multi-instance deployment would need a shared store behind takeRateLimit.
+
+export interface RateLimit {
+  allowed: boolean
+  retryAfterSeconds: number
+}
+
+interface Window {
+  count: number
+  resetAt: number
+}
+
+// Kept on globalThis so dev-mode module reloads don't reset the counters
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitWindows?: Map<string, Window>
+}
+
+const windows = globalForRateLimit.rateLimitWindows ??= new Map<string, Window>()
+
+// Expired windows are dropped once the map grows past this
+const PRUNE_THRESHOLD = 10000
+
+function pruneExpired(now: number) {
+  for (const [key, window] of windows) {
+    if (window.resetAt <= now) windows.delete(key)
+  }
+}
+
+// Counts one request against key and says whether it's within the limit
+export function takeRateLimit(key: string, limit: number, windowMs: number): RateLimit {
+  const now = Date.now()
+  if (windows.size > PRUNE_THRESHOLD) pruneExpired(now)
+
+  let window = windows.get(key)
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + windowMs }
+    windows.set(key, window)
+  }
+  window.count++
+
+  return {
+    allowed: window.count <= limit,
+    retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000)
+  }
+}
@@ -0,0 +1,98 @@
+// In-process pub/sub for pushing events to signed-in clients over SSE.
+// Subscribers live in this server process only; a multi-instance deployment
+// would need a shared broker behind the same publish/subscribe functions.
+
+export type RealtimeEvent =
+  | { type: 'message'; message: Record<string, unknown> }
+  | { type: 'messages_read'; conversationId: string; readerId: string }
+  | { type: 'like'; postId: string; userId: string; username?: string; liked: boolean; likes: number }
+  | { type: 'comment'; postId: string; commentId: string; userId: string; username?: string; comments: number }
+  | { type: 'analysis_complete'; filename: string; riskLevel: 'low' | 'medium' | 'high'; confidence: number; isDeepfake: boolean }
+  | { type: 'analysis_job'; jobId: string; status: 'queued' | 'running' | 'completed' | 'failed'; progress: number }
+  | { type: 'moderation_decision'; contentType: 'post' | 'story'; contentId: string; decision: 'approved' | 'rejected' }
+  | { type: 'appeal_decision'; appealId: string; contentType: 'post' | 'story'; contentId: string; decision: 'accepted' | 'denied'; verdict: 'authentic' | 'manipulated'; moderationStatus: 'published' | 'pending_review' | 'approved' | 'rejected' }
+
+export type RealtimeEventType = RealtimeEvent['type']
+
+type Listener = (event: RealtimeEvent) => void
+
+interface SessionStream {
+  userId: number
+  close: () => void
+}
+
+// Kept on globalThis so dev-mode module reloads don't orphan open streams
+const globalForRealtime = globalThis as unknown as {
+  realtimeSubscribers?: Map<number, Set<Listener>>
+  realtimeSessionStreams?: Map<string, Set<SessionStream>>
+}
+
+const subscribers = globalForRealtime.realtimeSubscribers ??= new Map<number, Set<Listener>>()
+
+// Open streams by the session that opened them, so ending the session ends them
+const sessionStreams = globalForRealtime.realtimeSessionStreams ??= new Map<string, Set<SessionStream>>()
+
+export function subscribe(userId: number, listener: Listener): () => void {
+  let listeners = subscribers.get(userId)
+  if (!listeners) {
+    listeners = new Set()
+    subscribers.set(userId, listeners)
+  }
+  listeners.add(listener)
+
+  return () => {
+    listeners!.delete(listener)
+    if (listeners!.size === 0) {
+      subscribers.delete(userId)
+    }
+  }
+}
+
+export function publishToUser(userId: number, event: RealtimeEvent) {
+  const listeners = subscribers.get(userId)
+  if (!listeners) return
+
+  for (const listener of listeners) {
+    try {
+      listener(event)
+    } catch (error) {
+      console.error('Realtime listener error:', error)
+    }
+  }
+}
+
+export function trackSessionStream(sessionId: string, userId: number, close: () => void): () => void {
+  let streams = sessionStreams.get(sessionId)
+  if (!streams) {
+    streams = new Set()
+    sessionStreams.set(sessionId, streams)
+  }
+  const stream = { userId, close }
+  streams.add(stream)
+
+  return () => {
+    streams!.delete(stream)
+    if (streams!.size === 0) {
+      sessionStreams.delete(sessionId)
+    }
+  }
+}
+
+// For signed-out, revoked and expired sessions
+export function closeSessionStreams(sessionIds: string[]) {
+  for (const sessionId of sessionIds) {
+    const streams = sessionStreams.get(sessionId)
+    if (!streams) continue
+
+    sessionStreams.delete(sessionId)
+    streams.forEach(stream => stream.close())
+  }
+}
+
+// For when every session of the user ends at once
+export function closeUserStreams(userId: number) {
+  const sessionIds = Array.from(sessionStreams.entries())
+    .filter(([, streams]) => Array.from(streams).some(stream => stream.userId === userId))
+    .map(([sessionId]) => sessionId)
+  closeSessionStreams(sessionIds)
+}
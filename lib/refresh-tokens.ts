@@ -0,0 +1,129 @@
+import { randomBytes, randomUUID } from 'crypto'
+import { getDatabase, withTransaction } from './database'
+import { hashSessionToken } from './sessions'
+
+export const REFRESH_TOKEN_TTL_DAYS = 30
+
+export const REFRESH_TOKEN_CLEANUP_INTERVAL_MS = 60 * 60 * 1000
+
+export interface IssuedRefreshToken {
+  token: string
+  expiresAt: Date
+}
+
+function toSqliteTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19)
+}
+
+function newRefreshToken(): IssuedRefreshToken {
+  return {
+    token: randomBytes(32).toString('base64url'),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000)
+  }
+}
+
+// Starts a new token family, one per login. Like session ids, only the hash
+// of the token is stored.
+export async function issueRefreshToken(userId: number): Promise<IssuedRefreshToken | null> {
+  try {
+    const db = await getDatabase()
+    const issued = newRefreshToken()
+
+    await db.run(
+      'INSERT INTO refresh_tokens (id, user_id, family_id, expires_at) VALUES (?, ?, ?, ?)',
+      [hashSessionToken(issued.token), userId, randomUUID(), toSqliteTimestamp(issued.expiresAt)]
+    )
+
+    return issued
+  } catch (error) {
+    console.error('Error issuing refresh token:', error)
+    return null
+  }
+}
+
+/**
+ * Exchanges a refresh token for its successor. Each token works once: if an
+ * already-used token is presented again, it has been copied, so the whole
+ * family is revoked and neither the thief nor the legitimate client can keep
+ * refreshing. Returns null for any token that can't be rotated.
+ */
+export async function rotateRefreshToken(
+  token: string
+): Promise<(IssuedRefreshToken & { userId: number }) | null> {
+  try {
+    return await withTransaction(async (db) => {
+      const row = await db.get(
+        `SELECT id, user_id, family_id, used_at, revoked_at, expires_at > datetime('now') AS is_live
+         FROM refresh_tokens WHERE id = ?`,
+        [hashSessionToken(token)]
+      )
+
+      if (!row || row.revoked_at || !row.is_live) return null
+
+      if (row.used_at) {
+        console.warn(`Refresh token reuse detected for user ${row.user_id}; revoking token family ${row.family_id}`)
+        await db.run(
+          'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE family_id = ? AND revoked_at IS NULL',
+          [row.family_id]
+        )
+        return null
+      }
+
+      const issued = newRefreshToken()
+      await db.run('UPDATE refresh_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = ?', [row.id])
+      await db.run(
+        'INSERT INTO refresh_tokens (id, user_id, family_id, expires_at) VALUES (?, ?, ?, ?)',
+        [hashSessionToken(issued.token), row.user_id, row.family_id, toSqliteTimestamp(issued.expiresAt)]
+      )
+
+      return { ...issued, userId: row.user_id }
+    })
+  } catch (error) {
+    console.error('Error rotating refresh token:', error)
+    return null
+  }
+}
+
+// Logging out an API client ends the whole family the token belongs to
+export async function revokeRefreshToken(token: string): Promise<boolean> {
+  try {
+    const db = await getDatabase()
+    const result = await db.run(
+      `UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP
+       WHERE revoked_at IS NULL
+         AND family_id = (SELECT family_id FROM refresh_tokens WHERE id = ?)`,
+      [hashSessionToken(token)]
+    )
+    return (result.changes || 0) > 0
+  } catch (error) {
+    console.error('Error revoking refresh token:', error)
+    return false
+  }
+}
+
+export async function revokeUserRefreshTokens(userId: number): Promise<number> {
+  try {
+    const db = await getDatabase()
+    const result = await db.run(
+      'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL',
+      [userId]
+    )
+    return result.changes || 0
+  } catch (error) {
+    console.error('Error revoking user refresh tokens:', error)
+    return 0
+  }
+}
+
+// Used and revoked rows are kept until they expire so reuse can still be
+// detected; after that they are just noise.
+export async function deleteExpiredRefreshTokens(): Promise<number> {
+  try {
+    const db = await getDatabase()
+    const result = await db.run("DELETE FROM refresh_tokens WHERE expires_at <= datetime('now')")
+    return result.changes || 0
+  } catch (error) {
+    console.error('Error deleting expired refresh tokens:', error)
+    return 0
+  }
+}
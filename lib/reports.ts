@@ -0,0 +1,245 @@
+import { getDatabase, withTransaction, type SqliteDatabase } from './database'
+import { flagForReview } from './moderation'
+
+export type ReportTargetType = 'post' | 'story' | 'comment' | 'user'
+
+export type ReportReason = 'deepfake' | 'impersonation' | 'harassment' | 'spam'
+
+// open: waiting for more reports. escalated: crossed the threshold and is
+// with moderators. resolved/dismissed: a moderator acted on it or didn't.
+export type ReportStatus = 'open' | 'escalated' | 'resolved' | 'dismissed'
+
+export const REPORT_TARGET_TYPES: ReportTargetType[] = ['post', 'story', 'comment', 'user']
+
+export const REPORT_REASONS: ReportReason[] = ['deepfake', 'impersonation', 'harassment', 'spam']
+
+export const MAX_REPORT_DETAILS_LENGTH = 500
+
+// How many people must report the same thing before moderators see it. One
+// report alone is too easy to abuse against someone.
+export const REPORT_ESCALATION_THRESHOLD = 3
+
+export interface ReportResult {
+  // False when this user had already reported the target
+  created: boolean
+  // Whether the target is now with moderators
+  escalated: boolean
+}
+
+export interface TargetReport {
+  id: number
+  reporter_username: string | null
+  reason: ReportReason
+  details: string | null
+  created_at: string
+}
+
+export interface EscalatedTarget {
+  target_type: 'comment' | 'user'
+  target_id: number
+  report_count: number
+  reasons: ReportReason[]
+  first_reported_at: string
+  // The comment's text and author, or the reported user
+  username: string | null
+  profile_pic?: string | null
+  content: string | null
+  post_id: number | null
+  reports: TargetReport[]
+}
+
+const ACTIVE_REPORT = "status IN ('open', 'escalated')"
+
+// Who owns the target, or null if it doesn't exist (stories only while
+// they're unexpired)
+export async function getReportTargetOwnerId(targetType: ReportTargetType, targetId: number): Promise<number | null> {
+  try {
+    const db = await getDatabase()
+    const queries: Record<ReportTargetType, string> = {
+      post: 'SELECT user_id AS owner_id FROM posts WHERE id = ?',
+      story: "SELECT user_id AS owner_id FROM stories WHERE id = ? AND datetime(expires_at) > datetime('now')",
+      comment: 'SELECT user_id AS owner_id FROM comments WHERE id = ?',
+      user: 'SELECT id AS owner_id FROM users WHERE id = ?',
+    }
+
+    const row = await db.get(queries[targetType], [targetId])
+    return row?.owner_id ?? null
+  } catch (error) {
+    console.error('Error looking up report target:', error)
+    return null
+  }
+}
+
+/**
+ * Files a report, once per reporter and target. When enough different people
+ * have open reports against a target it escalates: posts and stories go into
+ * the moderation queue, comments and profiles onto the reports list.
+ * Returns null on failure.
+ */
+export async function createReport(
+  reporterId: number,
+  targetType: ReportTargetType,
+  targetId: number,
+  reason: ReportReason,
+  details?: string | null
+): Promise<ReportResult | null> {
+  try {
+    const result = await withTransaction(async (db) => {
+      const inserted = await db.run(
+        `INSERT OR IGNORE INTO reports (reporter_id, target_type, target_id, reason, details)
+         VALUES (?, ?, ?, ?, ?)`,
+        [reporterId, targetType, targetId, reason, details || null]
+      )
+
+      const row = await db.get(
+        `SELECT COUNT(*) AS active, SUM(status = 'escalated') AS escalated
+         FROM reports WHERE target_type = ? AND target_id = ? AND ${ACTIVE_REPORT}`,
+        [targetType, targetId]
+      )
+
+      const escalated = row.active >= REPORT_ESCALATION_THRESHOLD
+      if (escalated) {
+        await db.run(
+          `UPDATE reports SET status = 'escalated' WHERE target_type = ? AND target_id = ? AND status = 'open'`,
+          [targetType, targetId]
+        )
+      }
+
+      return {
+        created: inserted.changes === 1,
+        escalated,
+        newlyEscalated: escalated && !row.escalated
+      }
+    })
+
+    if (result.newlyEscalated) {
+      console.warn(`${targetType} ${targetId} escalated to moderators after ${REPORT_ESCALATION_THRESHOLD} reports`)
+      if (targetType === 'post' || targetType === 'story') {
+        await flagForReview(targetType, targetId, 'reported')
+      }
+    }
+
+    return { created: result.created, escalated: result.escalated }
+  } catch (error) {
+    console.error('Error creating report:', error)
+    return null
+  }
+}
+
+// Closes every active report against a target. Returns how many closed.
+export async function resolveReports(
+  targetType: ReportTargetType,
+  targetId: number,
+  moderatorId: number,
+  status: 'resolved' | 'dismissed',
+  note?: string | null
+): Promise<number> {
+  try {
+    const db = await getDatabase()
+    const result = await db.run(
+      `UPDATE reports
+       SET status = ?, resolved_by = ?, resolved_at = CURRENT_TIMESTAMP, resolution_note = ?
+       WHERE target_type = ? AND target_id = ? AND ${ACTIVE_REPORT}`,
+      [status, moderatorId, note || null, targetType, targetId]
+    )
+    return result.changes || 0
+  } catch (error) {
+    console.error('Error resolving reports:', error)
+    return 0
+  }
+}
+
+async function getTargetReports(db: SqliteDatabase, targetType: ReportTargetType, targetId: number): Promise<TargetReport[]> {
+  return db.all(`
+    SELECT r.id, u.username AS reporter_username, r.reason, r.details, r.created_at
+    FROM reports r
+    LEFT JOIN users u ON u.id = r.reporter_id
+    WHERE r.target_type = ? AND r.target_id = ? AND r.${ACTIVE_REPORT}
+    ORDER BY r.created_at ASC, r.id ASC
+  `, [targetType, targetId])
+}
+
+/**
+ * Escalated reports against comments and profiles, one entry per target,
+ * oldest first. Escalated posts and stories are handled in the moderation
+ * queue instead.
+ */
+export async function getEscalatedReports(options: { limit?: number; offset?: number } = {}): Promise<EscalatedTarget[]> {
+  const { limit = 20, offset = 0 } = options
+
+  try {
+    const db = await getDatabase()
+    const targets = await db.all(`
+      SELECT
+        r.target_type, r.target_id, COUNT(*) AS report_count,
+        GROUP_CONCAT(DISTINCT r.reason) AS reasons, MIN(r.created_at) AS first_reported_at,
+        COALESCE(cu.username, tu.username) AS username,
+        COALESCE(cu.profile_pic, tu.profile_pic) AS profile_pic,
+        CASE WHEN r.target_type = 'comment' THEN c.content ELSE tu.bio END AS content,
+        c.post_id
+      FROM reports r
+      LEFT JOIN comments c ON r.target_type = 'comment' AND c.id = r.target_id
+      LEFT JOIN users cu ON cu.id = c.user_id
+      LEFT JOIN users tu ON r.target_type = 'user' AND tu.id = r.target_id
+      WHERE r.status = 'escalated' AND r.target_type IN ('comment', 'user')
+      GROUP BY r.target_type, r.target_id
+      ORDER BY first_reported_at ASC
+      LIMIT ? OFFSET ?
+    `, [limit, offset])
+
+    for (const target of targets) {
+      target.reasons = target.reasons ? target.reasons.split(',') : []
+      target.reports = await getTargetReports(db, target.target_type, target.target_id)
+    }
+
+    return targets
+  } catch (error) {
+    console.error('Error getting escalated reports:', error)
+    return []
+  }
+}
+
+export async function countEscalatedReports(): Promise<number> {
+  try {
+    const db = await getDatabase()
+    const row = await db.get(`
+      SELECT COUNT(*) AS targets FROM (
+        SELECT 1 FROM reports
+        WHERE status = 'escalated' AND target_type IN ('comment', 'user')
+        GROUP BY target_type, target_id
+      )
+    `)
+    return row?.targets || 0
+  } catch (error) {
+    console.error('Error counting escalated reports:', error)
+    return 0
+  }
+}
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+function toIsoTimestamp(timestamp: string): string {
+  return new Date(timestamp.includes('T') ? timestamp : `${timestamp.replace(' ', 'T')}Z`).toISOString()
+}
+
+export function serializeEscalatedTarget(target: EscalatedTarget) {
+  return {
+    targetType: target.target_type,
+    targetId: target.target_id.toString(),
+    reportCount: target.report_count,
+    reasons: target.reasons,
+    firstReportedAt: toIsoTimestamp(target.first_reported_at),
+    user: target.username ? {
+      username: target.username,
+      profilePic: target.profile_pic || '/placeholder.svg'
+    } : null,
+    content: target.content,
+    postId: target.post_id?.toString() || null,
+    reports: target.reports.map(report => ({
+      id: report.id.toString(),
+      reporter: report.reporter_username,
+      reason: report.reason,
+      details: report.details,
+      createdAt: toIsoTimestamp(report.created_at)
+    }))
+  }
+}
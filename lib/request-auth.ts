@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthConfigError, getUserById, verifyToken, type AuthUser, type UserRole } from './auth'
+import { getClientIp } from './client-address'
+import { hasPermission, hasRole, type Permission } from './permissions'
+import { getSessionUser, hashSessionToken } from './sessions'
+import { needsTwoFactorSetup } from './two-factor'
+
+// demo-token-<id> bearer tokens sign in as any user without a password. They
+// only work when explicitly enabled outside production, for local testing.
+export const DEMO_AUTH_ENABLED =
+  process.env.NODE_ENV !== 'production' && process.env.ALLOW_DEMO_AUTH === 'true'
+
+const DEMO_TOKEN_PREFIX = 'demo-token-'
+
+// Maintenance routes (wiping posts, dumping tables) only exist in local
+// development, and even there only for admins
+export const MAINTENANCE_ROUTES_ENABLED = process.env.NODE_ENV === 'development'
+
+// Browsers authenticate with this HttpOnly cookie; bearer tokens remain for
+// API clients
+export const SESSION_COOKIE = 'sg_session'
+
+export interface AuthContext<P = Record<string, string>> {
+  params: P
+  user: AuthUser
+}
+
+type AuthenticatedHandler<P> = (request: NextRequest, context: AuthContext<P>) => Promise<Response>
+
+export interface WithAuthOptions {
+  // Let through users whose role requires 2FA but who haven't enrolled yet,
+  // for the routes they need in order to enroll
+  allowPendingTwoFactor?: boolean
+}
+
+export function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization')
+  if (!header?.startsWith('Bearer ')) return null
+
+  return header.slice('Bearer '.length).trim() || null
+}
+
+// Resolves a token to a user that still exists. Returns null for anything
+// invalid, including demo tokens when demo auth is off.
+export async function resolveAuthToken(token: string): Promise<AuthUser | null> {
+  if (token.startsWith(DEMO_TOKEN_PREFIX)) {
+    if (!DEMO_AUTH_ENABLED) return null
+
+    const demoUserId = parseInt(token.slice(DEMO_TOKEN_PREFIX.length))
+    return isNaN(demoUserId) ? null : getUserById(demoUserId)
+  }
+
+  const decoded = verifyToken(token)
+  return decoded ? getUserById(decoded.userId) : null
+}
+
+export function getSessionToken(request: NextRequest): string | null {
+  return request.cookies.get(SESSION_COOKIE)?.value || null
+}
+
+// Identifies the current session in session listings
+export function getSessionId(request: NextRequest): string | null {
+  const token = getSessionToken(request)
+  return token ? hashSessionToken(token) : null
+}
+
+// For routes where signing in is optional (public feeds, profiles). The
+// session cookie wins over a bearer token when both are sent.
+export async function getAuthUser(request: NextRequest): Promise<AuthUser | null> {
+  const sessionToken = getSessionToken(request)
+  if (sessionToken) {
+    const user = await getSessionUser(sessionToken)
+    if (user) return user
+  }
+
+  const token = getBearerToken(request)
+  return token ? resolveAuthToken(token) : null
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt
+  })
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: 0
+  })
+}
+
+export function getClientInfo(request: NextRequest) {
+  return {
+    userAgent: request.headers.get('user-agent'),
+    ipAddress: getClientIp(request)
+  }
+}
+
+// The public address from APP_URL. Throws AuthConfigError in production when
+// it's missing, since the fallback would be the request's Host header, which
+// the client controls. Called at server startup so a misconfigured deploy
+// fails immediately.
+export function getConfiguredAppUrl(): string | null {
+  const appUrl = process.env.APP_URL?.replace(/\/$/, '')
+  if (!appUrl && process.env.NODE_ENV === 'production') {
+    throw new AuthConfigError('APP_URL must be set in production')
+  }
+  return appUrl || null
+}
+
+// Base for links in outgoing email. Falls back to the request's origin only
+// outside production.
+export function getAppUrl(request: NextRequest): string {
+  return getConfiguredAppUrl() || request.nextUrl.origin.replace(/\/$/, '')
+}
+
+// Wraps a route handler that requires a signed-in user. Unauthenticated
+// requests get a 401 before the handler runs, and moderators and admins
+// without 2FA a 403 until they enroll.
+export function withAuth<P = Record<string, string>>(
+  handler: AuthenticatedHandler<P>,
+  options: WithAuthOptions = {}
+) {
+  return async (request: NextRequest, context: { params: P }) => {
+    const user = await getAuthUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    if (!options.allowPendingTwoFactor && needsTwoFactorSetup(user)) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication must be enabled for this account', twoFactorSetupRequired: true },
+        { status: 403 }
+      )
+    }
+
+    return handler(request, { params: context?.params, user })
+  }
+}
+
+function forbidden() {
+  return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+}
+
+// Like withAuth, but the user also needs at least this role (admins pass a
+// moderator check). Everyone else gets a 403.
+export function requireRole<P = Record<string, string>>(
+  role: UserRole,
+  handler: AuthenticatedHandler<P>,
+  options: WithAuthOptions = {}
+) {
+  return withAuth<P>(async (request, context) => {
+    if (!hasRole(context.user, role)) return forbidden()
+    return handler(request, context)
+  }, options)
+}
+
+export function requirePermission<P = Record<string, string>>(
+  permission: Permission,
+  handler: AuthenticatedHandler<P>,
+  options: WithAuthOptions = {}
+) {
+  return withAuth<P>(async (request, context) => {
+    if (!hasPermission(context.user, permission)) return forbidden()
+    return handler(request, context)
+  }, options)
+}
+
+// For maintenance routes: a 404 outside development, as if they weren't
+// there, and admins only inside it
+export function withMaintenanceAccess<P = Record<string, string>>(handler: AuthenticatedHandler<P>) {
+  const guarded = requirePermission<P>('maintenance:run', handler)
+
+  return async (request: NextRequest, context: { params: P }) => {
+    if (!MAINTENANCE_ROUTES_ENABLED) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    return guarded(request, context)
+  }
+}
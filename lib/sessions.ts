@@ -0,0 +1,183 @@
+import { createHash, randomBytes } from 'crypto'
+import { getDatabase } from './database'
+import type { AuthUser } from './auth'
+import { closeSessionStreams, closeUserStreams } from './realtime'
+
+export const SESSION_TTL_DAYS = 7
+
+// last_seen_at is only rewritten when it's at least this stale, so ordinary
+// requests don't each cost a write
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000
+
+export const SESSION_CLEANUP_INTERVAL_MS = 60 * 60 * 1000
+
+export interface Session {
+  id: string
+  user_id: number
+  user_agent?: string
+  ip_address?: string
+  created_at: string
+  last_seen_at?: string
+  expires_at: string
+}
+
+export interface SessionClient {
+  userAgent?: string | null
+  ipAddress?: string | null
+}
+
+// Only the hash is stored, so a leaked database can't be replayed as cookies
+export function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function toSqliteTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19)
+}
+
+export async function createSession(
+  userId: number,
+  client: SessionClient = {}
+): Promise<{ token: string; expiresAt: Date } | null> {
+  try {
+    const db = await getDatabase()
+
+    const token = randomBytes(32).toString('base64url')
+    const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000)
+
+    await db.run(
+      `INSERT INTO sessions (id, user_id, user_agent, ip_address, last_seen_at, expires_at)
+       VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP, ?)`,
+      [hashSessionToken(token), userId, client.userAgent || null, client.ipAddress || null, toSqliteTimestamp(expiresAt)]
+    )
+
+    return { token, expiresAt }
+  } catch (error) {
+    console.error('Error creating session:', error)
+    return null
+  }
+}
+
+export async function getSessionUser(token: string): Promise<AuthUser | null> {
+  try {
+    const db = await getDatabase()
+    const sessionId = hashSessionToken(token)
+
+    const row = await db.get(`
+      SELECT s.last_seen_at, u.id, u.username, u.email, u.profile_pic, u.bio, u.email_verified_at, u.role, u.totp_enabled_at
+      FROM sessions s
+      JOIN users u ON u.id = s.user_id
+      WHERE s.id = ? AND s.expires_at > datetime('now')
+    `, [sessionId])
+
+    if (!row) return null
+
+    const lastSeen = row.last_seen_at ? new Date(`${row.last_seen_at.replace(' ', 'T')}Z`).getTime() : 0
+    if (Date.now() - lastSeen > LAST_SEEN_RESOLUTION_MS) {
+      await db.run('UPDATE sessions SET last_seen_at = CURRENT_TIMESTAMP WHERE id = ?', [sessionId])
+    }
+
+    return {
+      id: row.id,
+      username: row.username,
+      email: row.email,
+      profile_pic: row.profile_pic,
+      bio: row.bio,
+      email_verified_at: row.email_verified_at,
+      role: row.role,
+      totp_enabled_at: row.totp_enabled_at
+    }
+  } catch (error) {
+    console.error('Error getting session user:', error)
+    return null
+  }
+}
+
+export async function getUserSessions(userId: number): Promise<Session[]> {
+  try {
+    const db = await getDatabase()
+
+    return await db.all(`
+      SELECT id, user_id, user_agent, ip_address, created_at, last_seen_at, expires_at
+      FROM sessions
+      WHERE user_id = ? AND expires_at > datetime('now')
+      ORDER BY COALESCE(last_seen_at, created_at) DESC
+    `, [userId])
+  } catch (error) {
+    console.error('Error getting user sessions:', error)
+    return []
+  }
+}
+
+export async function deleteSession(token: string): Promise<boolean> {
+  try {
+    const db = await getDatabase()
+    const sessionId = hashSessionToken(token)
+    const result = await db.run('DELETE FROM sessions WHERE id = ?', [sessionId])
+    closeSessionStreams([sessionId])
+    return (result.changes || 0) > 0
+  } catch (error) {
+    console.error('Error deleting session:', error)
+    return false
+  }
+}
+
+// Scoped to the owner so one user can't end another's session by id
+export async function deleteUserSession(userId: number, sessionId: string): Promise<boolean> {
+  try {
+    const db = await getDatabase()
+    const result = await db.run('DELETE FROM sessions WHERE id = ? AND user_id = ?', [sessionId, userId])
+    const removed = (result.changes || 0) > 0
+    if (removed) closeSessionStreams([sessionId])
+    return removed
+  } catch (error) {
+    console.error('Error deleting session:', error)
+    return false
+  }
+}
+
+// Logs the user out on every device. Returns how many sessions were removed.
+export async function deleteUserSessions(userId: number): Promise<number> {
+  try {
+    const db = await getDatabase()
+    const result = await db.run('DELETE FROM sessions WHERE user_id = ?', [userId])
+    closeUserStreams(userId)
+    return result.changes || 0
+  } catch (error) {
+    console.error('Error deleting user sessions:', error)
+    return 0
+  }
+}
+
+export async function deleteExpiredSessions(): Promise<number> {
+  try {
+    const db = await getDatabase()
+    const expired = await db.all("SELECT id FROM sessions WHERE expires_at <= datetime('now')")
+    if (expired.length === 0) return 0
+
+    const sessionIds = expired.map((session: any) => session.id)
+    await db.run(`DELETE FROM sessions WHERE id IN (${sessionIds.map(() => '?').join(', ')})`, sessionIds)
+    closeSessionStreams(sessionIds)
+    return sessionIds.length
+  } catch (error) {
+    console.error('Error deleting expired sessions:', error)
+    return 0
+  }
+}
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+function toIsoTimestamp(sqliteTimestamp: string): string {
+  return sqliteTimestamp.includes('T') ? sqliteTimestamp : `${sqliteTimestamp.replace(' ', 'T')}Z`
+}
+
+export function serializeSession(session: Session, currentSessionId?: string | null) {
+  return {
+    id: session.id,
+    userAgent: session.user_agent || null,
+    ipAddress: session.ip_address || null,
+    createdAt: toIsoTimestamp(session.created_at),
+    lastSeenAt: session.last_seen_at ? toIsoTimestamp(session.last_seen_at) : null,
+    expiresAt: toIsoTimestamp(session.expires_at),
+    current: session.id === currentSessionId
+  }
+}
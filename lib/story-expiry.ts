@@ -0,0 +1,17 @@
+import { deleteExpiredStories } from './content'
+import { deleteUploadedFile } from './uploads'
+
+export const STORY_SWEEP_INTERVAL_MS = 10 * 60 * 1000
+
+export async function sweepExpiredStories(): Promise<number> {
+  const mediaUrls = await deleteExpiredStories()
+
+  for (const mediaUrl of mediaUrls) {
+    await deleteUploadedFile(mediaUrl)
+  }
+
+  if (mediaUrls.length > 0) {
+    console.log(`Swept ${mediaUrls.length} expired stories`)
+  }
+  return mediaUrls.length
+}
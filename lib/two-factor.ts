@@ -0,0 +1,196 @@
+import { createHash, randomBytes } from 'crypto'
+import { getDatabase, withTransaction, type SqliteDatabase } from './database'
+import { signToken, verifySignedToken, type AuthUser, type UserRole } from './auth'
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotp } from './totp'
+
+// Accounts with these roles can't use the app until they enroll
+export const TWO_FACTOR_REQUIRED_ROLES: UserRole[] = ['moderator', 'admin']
+
+const RECOVERY_CODE_COUNT = 10
+
+// How long a user has to enter their code after the password step
+const LOGIN_CHALLENGE_TTL_SECONDS = 5 * 60
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+export function isTwoFactorRequired(user: AuthUser): boolean {
+  return TWO_FACTOR_REQUIRED_ROLES.includes(user.role)
+}
+
+// Signed in, but with a role that needs 2FA and none set up yet
+export function needsTwoFactorSetup(user: AuthUser): boolean {
+  return isTwoFactorRequired(user) && !user.totp_enabled_at
+}
+
+// Recovery codes are random, so a fast hash is enough
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex')
+}
+
+function generateRecoveryCode(): string {
+  const raw = randomBytes(5).toString('hex')
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`
+}
+
+async function replaceRecoveryCodes(db: SqliteDatabase, userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode)
+
+  await db.run('DELETE FROM two_factor_recovery_codes WHERE user_id = ?', [userId])
+  for (const code of codes) {
+    await db.run(
+      'INSERT INTO two_factor_recovery_codes (user_id, code_hash) VALUES (?, ?)',
+      [userId, hashRecoveryCode(code)]
+    )
+  }
+
+  return codes
+}
+
+export async function getTwoFactorStatus(user: AuthUser): Promise<TwoFactorStatus | null> {
+  try {
+    const db = await getDatabase()
+    const row = await db.get(
+      'SELECT COUNT(*) AS remaining FROM two_factor_recovery_codes WHERE user_id = ? AND used_at IS NULL',
+      [user.id]
+    )
+
+    return {
+      enabled: !!user.totp_enabled_at,
+      required: isTwoFactorRequired(user),
+      recoveryCodesRemaining: user.totp_enabled_at ? row?.remaining || 0 : 0
+    }
+  } catch (error) {
+    console.error('Error getting two-factor status:', error)
+    return null
+  }
+}
+
+/**
+ * Stores a new pending secret and returns what the authenticator app needs.
+ * 2FA isn't on until confirmTwoFactorEnrollment() sees a valid code, so an
+ * abandoned setup never locks anyone out. Returns null if already enabled.
+ */
+export async function beginTwoFactorEnrollment(
+  user: AuthUser
+): Promise<{ secret: string; otpauthUrl: string } | null> {
+  try {
+    const db = await getDatabase()
+    const secret = generateTotpSecret()
+
+    const result = await db.run(
+      'UPDATE users SET totp_secret = ? WHERE id = ? AND totp_enabled_at IS NULL',
+      [secret, user.id]
+    )
+    if (!result.changes) return null
+
+    return { secret, otpauthUrl: buildOtpAuthUrl(secret, user.email) }
+  } catch (error) {
+    console.error('Error starting two-factor enrollment:', error)
+    return null
+  }
+}
+
+// Turns 2FA on and returns the recovery codes, shown to the user exactly once
+export async function confirmTwoFactorEnrollment(userId: number, code: string): Promise<string[] | null> {
+  try {
+    return await withTransaction(async (db) => {
+      const row = await db.get(
+        'SELECT totp_secret FROM users WHERE id = ? AND totp_enabled_at IS NULL',
+        [userId]
+      )
+      if (!row?.totp_secret) return null
+
+      const step = verifyTotp(row.totp_secret, code)
+      if (step === null) return null
+
+      await db.run(
+        'UPDATE users SET totp_enabled_at = CURRENT_TIMESTAMP, totp_last_step = ? WHERE id = ?',
+        [step, userId]
+      )
+      return replaceRecoveryCodes(db, userId)
+    })
+  } catch (error) {
+    console.error('Error confirming two-factor enrollment:', error)
+    return null
+  }
+}
+
+/**
+ * Accepts either a current authenticator code or an unused recovery code.
+ * Each TOTP code works once (the last accepted step is remembered) and each
+ * recovery code is spent when used.
+ */
+export async function verifyTwoFactorCode(userId: number, code: string): Promise<boolean> {
+  try {
+    return await withTransaction(async (db) => {
+      const row = await db.get(
+        'SELECT totp_secret, totp_last_step FROM users WHERE id = ? AND totp_enabled_at IS NOT NULL',
+        [userId]
+      )
+      if (!row?.totp_secret) return false
+
+      const step = verifyTotp(row.totp_secret, code)
+      if (step !== null) {
+        if (row.totp_last_step !== null && step <= row.totp_last_step) return false
+
+        await db.run('UPDATE users SET totp_last_step = ? WHERE id = ?', [step, userId])
+        return true
+      }
+
+      const result = await db.run(
+        `UPDATE two_factor_recovery_codes SET used_at = CURRENT_TIMESTAMP
+         WHERE id = (
+           SELECT id FROM two_factor_recovery_codes
+           WHERE user_id = ? AND code_hash = ? AND used_at IS NULL
+           LIMIT 1
+         )`,
+        [userId, hashRecoveryCode(code)]
+      )
+      return result.changes === 1
+    })
+  } catch (error) {
+    console.error('Error verifying two-factor code:', error)
+    return false
+  }
+}
+
+export async function regenerateRecoveryCodes(userId: number): Promise<string[] | null> {
+  try {
+    return await withTransaction(db => replaceRecoveryCodes(db, userId))
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error)
+    return null
+  }
+}
+
+export async function disableTwoFactor(userId: number): Promise<boolean> {
+  try {
+    return await withTransaction(async (db) => {
+      const result = await db.run(
+        'UPDATE users SET totp_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL WHERE id = ?',
+        [userId]
+      )
+      await db.run('DELETE FROM two_factor_recovery_codes WHERE user_id = ?', [userId])
+      return (result.changes || 0) > 0
+    })
+  } catch (error) {
+    console.error('Error disabling two-factor authentication:', error)
+    return false
+  }
+}
+
+// Proves the password step passed, without starting a session yet
+export function createLoginChallenge(userId: number): string {
+  return signToken({ userId, type: '2fa_challenge' }, LOGIN_CHALLENGE_TTL_SECONDS)
+}
+
+export function verifyLoginChallenge(token: string): number | null {
+  const decoded = verifySignedToken<{ userId: number; type?: string }>(token)
+  if (!decoded || decoded.type !== '2fa_challenge') return null
+
+  return decoded.userId
+}
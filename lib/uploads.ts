@@ -0,0 +1,131 @@
+import { writeFile, mkdir, readFile, rename, unlink } from 'fs/promises'
+import path from 'path'
+
+const UPLOADS_DIR = path.join(process.cwd(), 'public', 'uploads')
+
+// Uploads that mustn't be reachable until analysis clears them (DM
+// attachments) wait here, outside public/, under the name they'll be served as
+const PENDING_UPLOADS_DIR = process.env.PENDING_UPLOADS_DIR || path.join(process.cwd(), '.pending-uploads')
+
+export interface SavedUpload {
+  fileUrl: string
+  fileName: string
+}
+
+// The only upload types we keep, and the extension each is stored under.
+// Uploads are served from our own origin with a Content-Type picked by
+// extension, so the extension never comes from the client's filename and
+// anything a browser could run (HTML, SVG, scripts) is refused.
+const UPLOAD_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/bmp': 'bmp',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+  'video/avi': 'avi',
+  'video/x-msvideo': 'avi',
+  'video/ogg': 'ogv',
+  // Provenance manifests attached to appeals
+  'application/json': 'json',
+  'application/c2pa': 'c2pa',
+}
+
+export class UnsupportedUploadError extends Error {
+  constructor(mimeType: string) {
+    super(`Unsupported file type: ${mimeType || 'unknown'}`)
+    this.name = 'UnsupportedUploadError'
+  }
+}
+
+// Throws UnsupportedUploadError for types outside UPLOAD_EXTENSIONS
+export async function saveUploadedFile(file: File): Promise<SavedUpload> {
+  return writeUpload(file, UPLOADS_DIR)
+}
+
+// Like saveUploadedFile, but the file isn't served from the returned URL until
+// publishPendingUpload moves it there
+export async function savePendingUpload(file: File): Promise<SavedUpload> {
+  return writeUpload(file, PENDING_UPLOADS_DIR)
+}
+
+async function writeUpload(file: File, directory: string): Promise<SavedUpload> {
+  const fileExtension = UPLOAD_EXTENSIONS[file.type]
+  if (!fileExtension) {
+    throw new UnsupportedUploadError(file.type)
+  }
+
+  // Create uploads directory if it doesn't exist
+  await mkdir(directory, { recursive: true })
+
+  // Generate unique filename
+  const timestamp = Date.now()
+  const suffix = Math.random().toString(36).slice(2, 8)
+  const fileName = `${timestamp}-${suffix}.${fileExtension}`
+
+  // Convert file to buffer and save
+  const bytes = await file.arrayBuffer()
+  await writeFile(path.join(directory, fileName), Buffer.from(bytes))
+
+  return { fileUrl: `/uploads/${fileName}`, fileName }
+}
+
+// Makes a file saved by savePendingUpload available at its URL. False if it
+// was already published or is gone.
+export async function publishPendingUpload(fileUrl: string): Promise<boolean> {
+  if (!fileUrl.startsWith('/uploads/')) return false
+
+  const fileName = path.basename(fileUrl)
+  try {
+    await mkdir(UPLOADS_DIR, { recursive: true })
+    await rename(path.join(PENDING_UPLOADS_DIR, fileName), path.join(UPLOADS_DIR, fileName))
+    return true
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.error('Error publishing upload:', error)
+    }
+    return false
+  }
+}
+
+// Removes a file previously returned by saveUploadedFile. URLs outside
+// /uploads/ (placeholders, external media) are left alone.
+export async function deleteUploadedFile(fileUrl: string): Promise<boolean> {
+  if (!fileUrl.startsWith('/uploads/')) return false
+
+  const fileName = path.basename(fileUrl)
+  try {
+    await unlink(path.join(UPLOADS_DIR, fileName))
+    return true
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.error('Error deleting upload:', error)
+    }
+    return false
+  }
+}
+
+// Contents of a file previously returned by saveUploadedFile, or null for
+// URLs outside /uploads/ and files that are gone
+export async function readUploadedFile(fileUrl: string): Promise<Buffer | null> {
+  if (!fileUrl.startsWith('/uploads/')) return null
+
+  try {
+    return await readFile(path.join(UPLOADS_DIR, path.basename(fileUrl)))
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.error('Error reading upload:', error)
+    }
+    return null
+  }
+}
+
+// Null for anything saveUploadedFile wouldn't store as an image or video
+export function getMediaType(mimeType: string): 'image' | 'video' | null {
+  if (!UPLOAD_EXTENSIONS[mimeType]) return null
+  if (mimeType.startsWith('image/')) return 'image'
+  if (mimeType.startsWith('video/')) return 'video'
+  return null
+}
@@ -9,6 +9,15 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  // Uploaded files are served as the type their extension says, never sniffed
+  async headers() {
+    return [
+      {
+        source: '/uploads/:path*',
+        headers: [{ key: 'X-Content-Type-Options', value: 'nosniff' }],
+      },
+    ]
+  },
 }
 
 export default nextConfig
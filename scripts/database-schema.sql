@@ -1,3 +1,8 @@
+-- Reference schema (PostgreSQL dialect) used for the original design.
+-- The SQLite schema the app actually runs on is defined by the numbered
+-- migrations in lib/migrations/; follows, messages and deepfake_analyses
+-- were brought in by 002-reference-schema-tables.
+
 -- Users table
 CREATE TABLE users (
     id SERIAL PRIMARY KEY,
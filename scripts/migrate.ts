@@ -0,0 +1,63 @@
+// Schema migration CLI.
+//
+//   npm run db:migrate                 apply all pending migrations
+//   npm run db:migrate -- <version>    apply pending migrations up to <version>
+//   npm run db:rollback                revert the most recent migration
+//   npm run db:rollback -- <steps>     revert the last <steps> migrations
+//   npm run db:status                  show applied and pending migrations
+//
+// Uses DATABASE_PATH if set, otherwise ./socialguard.db.
+
+import { DATABASE_PATH, openDatabase } from '../lib/database'
+import { getSchemaStatus, migrateDown, migrateUp } from '../lib/migrate'
+
+function parsePositiveInt(value: string | undefined, label: string): number | undefined {
+  if (value === undefined) return undefined
+  const parsed = parseInt(value, 10)
+  if (isNaN(parsed) || parsed < 1) {
+    throw new Error(`${label} must be a positive integer, got "${value}"`)
+  }
+  return parsed
+}
+
+async function main() {
+  const [command = 'status', arg] = process.argv.slice(2)
+  const db = await openDatabase()
+
+  try {
+    console.log(`Database: ${DATABASE_PATH}`)
+
+    switch (command) {
+      case 'up': {
+        const applied = await migrateUp(db, parsePositiveInt(arg, 'Target version'))
+        if (applied.length === 0) console.log('Nothing to apply, schema is up to date')
+        break
+      }
+      case 'down': {
+        const reverted = await migrateDown(db, parsePositiveInt(arg, 'Steps') ?? 1)
+        if (reverted.length === 0) console.log('Nothing to revert')
+        break
+      }
+      case 'status': {
+        const status = await getSchemaStatus(db)
+        console.log(`Schema version: ${status.currentVersion} (latest known: ${status.latestVersion})`)
+        for (const m of status.applied) {
+          console.log(`  [applied] ${m.version} ${m.name} (${m.applied_at})`)
+        }
+        for (const m of status.pending) {
+          console.log(`  [pending] ${m.version} ${m.name}`)
+        }
+        break
+      }
+      default:
+        throw new Error(`Unknown command "${command}". Use up, down or status.`)
+    }
+  } finally {
+    await db.close()
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
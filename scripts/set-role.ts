@@ -0,0 +1,43 @@
+// Changes a user's role from the command line, e.g. to create the first
+// admin, who can then manage roles through PATCH /api/users/<id>/role.
+//
+//   npm run user:set-role -- <username or email> <user|moderator|admin>
+//
+// Uses DATABASE_PATH if set, otherwise ./socialguard.db.
+
+import { DATABASE_PATH, openDatabase } from '../lib/database'
+import { isUserRole, USER_ROLES } from '../lib/permissions'
+
+async function main() {
+  const [login, role] = process.argv.slice(2)
+  if (!login || !isUserRole(role)) {
+    throw new Error(`Usage: npm run user:set-role -- <username or email> <${USER_ROLES.join('|')}>`)
+  }
+
+  const db = await openDatabase()
+
+  try {
+    console.log(`Database: ${DATABASE_PATH}`)
+
+    const result = await db.run(
+      `UPDATE users SET role = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE username = ? OR email = ? COLLATE NOCASE`,
+      [role, login, login]
+    )
+    if (!result.changes) {
+      throw new Error(`No user matches "${login}"`)
+    }
+
+    console.log(`Set role of ${login} to ${role}`)
+    if (role !== 'user') {
+      console.log('Unless they already use two-factor authentication, they must set it up before using the app again.')
+    }
+  } finally {
+    await db.close()
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,25 @@
+// Serves the app for `npm run dev` and `npm start`. Next.js runs as usual;
+// this only gets to each request first, so client addresses come from the
+// connection rather than from headers the client sent (lib/client-address.ts).
+
+import { createServer } from 'http'
+import next from 'next'
+import { applyPeerAddress } from './lib/client-address'
+
+const dev = process.env.NODE_ENV !== 'production'
+const port = parseInt(process.env.PORT || '3000', 10)
+
+const app = next({ dev, port })
+const handle = app.getRequestHandler()
+
+app.prepare().then(() => {
+  createServer((request, response) => {
+    applyPeerAddress(request)
+    handle(request, response)
+  }).listen(port, () => {
+    console.log(`> Ready on http://localhost:${port} (${dev ? 'development' : 'production'})`)
+  })
+}).catch((error) => {
+  console.error('Failed to start server:', error)
+  process.exit(1)
+})